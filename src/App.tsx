@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
-import { Activity, BarChart2, Target, Brain, Plus, Calculator, Download, Upload, Gift } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Activity, BarChart2, Target, Brain, Plus, Calculator, Download, Upload, Gift, WifiOff, LayoutDashboard, Search } from 'lucide-react';
+import Dashboard from './components/dashboard/Dashboard';
 import ProjectTracker from './components/trackers/ProjectTracker';
 import GoalsTracker from './components/trackers/GoalsTracker';
 import MoodTracker from './components/trackers/MoodTracker';
@@ -7,8 +8,13 @@ import LifeEQTracker from './components/trackers/LifeEQTracker';
 import TodoTracker from './components/trackers/TodoTracker';
 import HouseholdBudgetCalculator from './components/trackers/HouseholdBudgetCalculator';
 import WishlistTracker from './components/trackers/WishlistTracker';
-
-type TabId = 'projects' | 'goals' | 'mood' | 'lifeEQ' | 'todos' | 'budget' | 'wishlist';
+import UpdatePrompt from './components/shared/UpdatePrompt';
+import GlobalSearch from './components/shared/GlobalSearch';
+import CommandPalette from './components/shared/CommandPalette';
+import { createBackup, downloadBackup, restoreBackup } from './storage/backup';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { registerCommands, useRegisterCommands } from './commands/registry';
+import { TabId, getItemElementId, useHashRoute, useScrollToItem } from './routing/hashRoute';
 
 interface Tab {
   id: TabId;
@@ -16,6 +22,27 @@ interface Tab {
   Icon: React.FC<any>;
 }
 
+const tabs: Tab[] = [
+  { id: 'dashboard', name: 'Dashboard', Icon: LayoutDashboard },
+  { id: 'projects', name: 'Project Tracker', Icon: Activity },
+  { id: 'goals', name: 'Goals Tracker', Icon: Target },
+  { id: 'mood', name: 'Mood Tracker', Icon: BarChart2 },
+  { id: 'lifeEQ', name: 'LifeEQ Tracker', Icon: Brain },
+  { id: 'todos', name: 'ToDo\'s', Icon: Plus },
+  { id: 'budget', name: 'Household Budget', Icon: Calculator },
+  { id: 'wishlist', name: 'Wunschliste', Icon: Gift },
+];
+
+registerCommands('navigation', ({ navigate }) =>
+  tabs.map(tab => ({
+    id: `navigation-${tab.id}`,
+    title: `Switch to ${tab.name}`,
+    section: 'Navigation',
+    keywords: [tab.id],
+    run: () => navigate({ tab: tab.id }),
+  }))
+);
+
 function useLocalStorage<T>(key: string, initialValue: T) {
   const [storedValue, setStoredValue] = useState<T>(() => {
     try {
@@ -39,42 +66,70 @@ function useLocalStorage<T>(key: string, initialValue: T) {
 }
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useLocalStorage<TabId>('activeTab', 'projects');
+  // Die URL (#/tab/item) bestimmt den Tab; localStorage merkt sich den letzten für Aufrufe ohne Hash
+  const [lastTab, setLastTab] = useLocalStorage<TabId>('activeTab', 'dashboard');
+  const { route, navigate } = useHashRoute();
+  const activeTab = route?.tab ?? lastTab;
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const isOnline = useOnlineStatus();
+
+  useEffect(() => {
+    if (route) {
+      setLastTab(route.tab);
+    } else {
+      navigate({ tab: lastTab }, { replace: true });
+    }
+  }, [route, lastTab, navigate, setLastTab]);
+
+  useScrollToItem(route?.itemId ? getItemElementId(route.tab, route.itemId) : null);
 
-  const tabs: Tab[] = [
-    { id: 'projects', name: 'Project Tracker', Icon: Activity },
-    { id: 'goals', name: 'Goals Tracker', Icon: Target },
-    { id: 'mood', name: 'Mood Tracker', Icon: BarChart2 },
-    { id: 'lifeEQ', name: 'LifeEQ Tracker', Icon: Brain },
-    { id: 'todos', name: 'ToDo\'s', Icon: Plus },
-    { id: 'budget', name: 'Household Budget', Icon: Calculator },
-    { id: 'wishlist', name: 'Wunschliste', Icon: Gift },
-  ];
+  useRegisterCommands(
+    'search',
+    useCallback(() => [
+      {
+        id: 'search-open',
+        title: 'Search all trackers',
+        section: 'Navigation',
+        keywords: ['find'],
+        run: () => setIsSearchOpen(true),
+      },
+    ], [])
+  );
+
+  // Globale Suche mit "/" öffnen, außer beim Tippen in einem Eingabefeld;
+  // Strg/Cmd+K öffnet die Befehlspalette überall
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey) {
+        e.preventDefault();
+        setIsSearchOpen(false);
+        setIsPaletteOpen(open => !open);
+        return;
+      }
+      if (e.key !== '/' || e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      e.preventDefault();
+      setIsSearchOpen(true);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   const handleTabClick = (tabId: TabId) => {
-    setActiveTab(tabId);
+    navigate({ tab: tabId });
     setIsMobileMenuOpen(false);
   };
 
-  const exportAllProgress = () => {
-    const progressData = {
-      activeTab: localStorage.getItem('activeTab'),
-      projects: localStorage.getItem('projects'),
-      goals: localStorage.getItem('goals'),
-      mood: localStorage.getItem('mood'),
-      lifeEQ: localStorage.getItem('lifeEQ'),
-      todos: localStorage.getItem('todos'),
-      budget: localStorage.getItem('haushaltsrechner'),
-      wishlist: localStorage.getItem('wishlist')
-    };
-
-    const jsonData = JSON.stringify(progressData, null, 2);
-    const blob = new Blob([jsonData], { type: 'application/json' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = 'life_tracker_progress.json';
-    link.click();
+  const exportAllProgress = async () => {
+    try {
+      downloadBackup(await createBackup());
+    } catch (error) {
+      console.error('Fehler beim Export', error);
+      alert('Export fehlgeschlagen');
+    }
   };
 
   const importAllProgress = () => {
@@ -85,12 +140,11 @@ const App: React.FC = () => {
       const file = (event.target as HTMLInputElement).files?.[0];
       if (file) {
         const reader = new FileReader();
-        reader.onload = (e) => {
+        reader.onload = async (e) => {
           try {
             const importedData = JSON.parse(e.target?.result as string);
-            Object.entries(importedData).forEach(([key, value]) => {
-              if (value) localStorage.setItem(key, value as string);
-            });
+            if (!window.confirm('Replace all tracker data with this backup?')) return;
+            await restoreBackup(importedData);
             window.location.reload();
           } catch (error) {
             console.error('Fehler beim Import', error);
@@ -185,9 +239,41 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          <div className="flex space-x-2 self-start">
+            {!isOnline && (
+              <span
+                className="flex items-center gap-1 px-2 py-1 bg-yellow-500/20 text-yellow-200 rounded-lg text-xs sm:text-sm"
+                title="Changes are saved locally and stay available offline"
+              >
+                <WifiOff className="w-4 h-4" /> Offline
+              </span>
+            )}
+            <button
+              onClick={() => setIsSearchOpen(true)}
+              className="p-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+              title="Search all trackers (/)"
+            >
+              <Search className="w-4 h-4 sm:w-5 sm:h-5" />
+            </button>
+            <button
+              onClick={exportAllProgress}
+              className="p-2 bg-green-500 rounded-lg hover:bg-green-600 transition-colors"
+              title="Export all progress"
+            >
+              <Download className="w-4 h-4 sm:w-5 sm:h-5" />
+            </button>
+            <button
+              onClick={importAllProgress}
+              className="p-2 bg-blue-500 rounded-lg hover:bg-blue-600 transition-colors"
+              title="Import all progress"
+            >
+              <Upload className="w-4 h-4 sm:w-5 sm:h-5" />
+            </button>
+          </div>
         </nav>
 
         <div className="bg-gray-800/50 rounded-lg p-3 sm:p-4 md:p-6">
+          {activeTab === 'dashboard' && <Dashboard />}
           {activeTab === 'projects' && <ProjectTracker />}
           {activeTab === 'goals' && <GoalsTracker />}
           {activeTab === 'mood' && <MoodTracker />}
@@ -197,6 +283,14 @@ const App: React.FC = () => {
           {activeTab === 'wishlist' && <WishlistTracker />}
         </div>
       </div>
+      {isSearchOpen && (
+        <GlobalSearch
+          tabNames={Object.fromEntries(tabs.map(tab => [tab.id, tab.name]))}
+          onClose={() => setIsSearchOpen(false)}
+        />
+      )}
+      {isPaletteOpen && <CommandPalette onClose={() => setIsPaletteOpen(false)} />}
+      <UpdatePrompt />
     </div>
   );
 };
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { CategoryCap, FinancialEntry, Transaction } from '../storage/types';
+import { getCategoryUsage, getOverspentCategories, getRaisedAlerts } from './caps';
+
+const THRESHOLDS = { warning: 80, critical: 100 };
+
+const CAPS: CategoryCap[] = [{ id: 'cap-food', category: 'Food', cap: { cents: 10000, currency: 'EUR' } }];
+
+const createTransaction = (cents: number): Transaction => ({
+  id: `tx-${cents}`,
+  date: '2024-05-03',
+  amount: { cents, currency: 'EUR' },
+  payee: '',
+  note: '',
+});
+
+const createExpense = (id: string, planned: number, spent: number[] = []): FinancialEntry => ({
+  id,
+  month: '2024-05',
+  category: 'Food',
+  amount: { cents: planned, currency: 'EUR' },
+  purpose: '',
+  transactions: spent.length ? spent.map(createTransaction) : undefined,
+});
+
+describe('getCategoryUsage', () => {
+  it('counts only transactions as spent, not planned amounts', () => {
+    const [usage] = getCategoryUsage([createExpense('e1', 15000)], CAPS, THRESHOLDS);
+    expect(usage).toMatchObject({ spent: 0, planned: 15000, cap: 10000, percent: 0, status: 'ok' });
+    expect(getOverspentCategories([usage])).toEqual([]);
+  });
+
+  it('adds up the transactions of all rows with the same category', () => {
+    const expenses = [createExpense('e1', 5000, [3000]), { ...createExpense('e2', 0, [6000]), category: ' food ' }];
+    const [usage] = getCategoryUsage(expenses, CAPS, THRESHOLDS);
+    expect(usage).toMatchObject({ spent: 9000, planned: 5000, percent: 90, status: 'warning' });
+  });
+});
+
+describe('getRaisedAlerts', () => {
+  it('reports a cap only when its status rises', () => {
+    const before = getCategoryUsage([createExpense('e1', 0, [8500])], CAPS, THRESHOLDS);
+    const after = getCategoryUsage([createExpense('e1', 0, [8500, 2000])], CAPS, THRESHOLDS);
+    expect(getRaisedAlerts(before, after).map((alert) => alert.status)).toEqual(['critical']);
+    expect(getRaisedAlerts(after, after)).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+import type { CategoryCap, FinancialEntry, LimitThresholds } from '../storage/types';
+import { getPlannedAmount, getSpentAmount } from './totals';
+
+// --------------------------------------------------------
+//    Monatliche Ausgabenobergrenzen pro Kategorie
+// --------------------------------------------------------
+// Kategorien werden über den Namen zugeordnet (ohne Leerzeichen am Rand,
+// Groß-/Kleinschreibung egal), damit gleichnamige Zeilen gemeinsam zählen.
+// Als ausgegeben gelten nur Buchungen; geplante Beträge werden getrennt
+// ausgewiesen, damit eine zu knappe Planung auffällt.
+
+export type CapStatus = 'ok' | 'warning' | 'critical';
+
+const STATUS_RANK: Record<CapStatus, number> = { ok: 0, warning: 1, critical: 2 };
+
+export interface CategoryUsage {
+  capId: string;
+  category: string;
+  // Beträge in Cent
+  spent: number;
+  planned: number;
+  cap: number;
+  percent: number;
+  status: CapStatus;
+}
+
+const normalizeCategory = (category: string) => category.trim().toLocaleLowerCase();
+
+export function getCapStatus(percent: number, thresholds: LimitThresholds): CapStatus {
+  if (percent >= thresholds.critical) return 'critical';
+  if (percent >= thresholds.warning) return 'warning';
+  return 'ok';
+}
+
+// Summe je Kategorie über alle gleichnamigen Zeilen
+function sumByCategory(entries: FinancialEntry[], getAmount: (entry: FinancialEntry) => number) {
+  const sums = new Map<string, number>();
+  entries.forEach((entry) => {
+    const key = normalizeCategory(entry.category);
+    sums.set(key, (sums.get(key) ?? 0) + getAmount(entry));
+  });
+  return sums;
+}
+
+// Verbrauch aller Obergrenzen im Monat (monthExpenses = Ausgaben eines Monats)
+export function getCategoryUsage(
+  monthExpenses: FinancialEntry[],
+  caps: CategoryCap[],
+  thresholds: LimitThresholds
+): CategoryUsage[] {
+  const spentByCategory = sumByCategory(monthExpenses, getSpentAmount);
+  const plannedByCategory = sumByCategory(monthExpenses, getPlannedAmount);
+  return caps
+    .filter((categoryCap) => categoryCap.category.trim())
+    .map((categoryCap) => {
+      const key = normalizeCategory(categoryCap.category);
+      const spent = spentByCategory.get(key) ?? 0;
+      const cap = categoryCap.cap.cents;
+      // Obergrenze 0: jede Ausgabe gilt als Überschreitung
+      const percent = cap > 0 ? (spent / cap) * 100 : spent > 0 ? Infinity : 0;
+      return {
+        capId: categoryCap.id,
+        category: categoryCap.category.trim(),
+        spent,
+        planned: plannedByCategory.get(key) ?? 0,
+        cap,
+        percent,
+        status: getCapStatus(percent, thresholds),
+      };
+    });
+}
+
+// Obergrenzen, die seit dem vorherigen Stand eine höhere Warnstufe erreicht haben
+export function getRaisedAlerts(before: CategoryUsage[], after: CategoryUsage[]): CategoryUsage[] {
+  return after.filter((usage) => {
+    const previous = before.find((candidate) => candidate.capId === usage.capId);
+    return STATUS_RANK[usage.status] > STATUS_RANK[previous?.status ?? 'ok'];
+  });
+}
+
+// Kategorien, deren Buchungen die Obergrenze tatsächlich übersteigen, größte Überschreitung zuerst
+export function getOverspentCategories(usage: CategoryUsage[]): CategoryUsage[] {
+  return usage.filter((item) => item.spent > item.cap).sort((a, b) => b.spent - b.cap - (a.spent - a.cap));
+}
+
+export function formatUsagePercent(percent: number): string {
+  return Number.isFinite(percent) ? `${Math.round(percent)}%` : '∞';
+}
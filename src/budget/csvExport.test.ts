@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { AppSettings, FinancialEntry } from '../storage/types';
+import { DEFAULT_SETTINGS } from '../storage/settings';
+import { createMonthCsv } from './csvExport';
+
+const EN_SETTINGS: AppSettings = { ...DEFAULT_SETTINGS, locale: 'en-US' };
+
+const createExpense = (changes: Partial<FinancialEntry>): FinancialEntry => ({
+  id: 'entry-1',
+  month: '2024-02',
+  category: 'Groceries',
+  amount: { cents: 1250, currency: 'EUR' },
+  purpose: '',
+  ...changes,
+});
+
+const getDataRow = (csv: string) => csv.split('\r\n')[1];
+
+describe('createMonthCsv', () => {
+  it('prefixes text cells that spreadsheets would run as formulas', () => {
+    const csv = createMonthCsv(
+      '2024-02',
+      [],
+      [createExpense({ category: '=HYPERLINK("http://evil")', purpose: '@SUM(A1)' })],
+      [],
+      EN_SETTINGS
+    );
+    expect(getDataRow(csv)).toBe(`Expense,2024-02,"'=HYPERLINK(""http://evil"")",'@SUM(A1),,,,,12.50,EUR`);
+  });
+
+  it.each(['+1', '-1', '\tnote'])('prefixes %j', (purpose) => {
+    const csv = createMonthCsv('2024-02', [], [createExpense({ purpose })], [], EN_SETTINGS);
+    expect(getDataRow(csv).split(',')[3]).toBe(`'${purpose}`);
+  });
+
+  it('keeps negative amounts as numbers', () => {
+    const csv = createMonthCsv(
+      '2024-02',
+      [],
+      [createExpense({ amount: { cents: -1250, currency: 'EUR' } })],
+      [],
+      EN_SETTINGS
+    );
+    expect(getDataRow(csv)).toBe('Expense,2024-02,Groceries,,,,,,-12.50,EUR');
+  });
+});
@@ -0,0 +1,68 @@
+import type { AppSettings, FinancialEntry, HouseholdMember } from '../storage/types';
+import { formatAmountInput } from '../utils/money';
+
+// --------------------------------------------------------
+//    CSV-Export eines Budgetmonats
+// --------------------------------------------------------
+// Eine Zeile pro Einnahme, geplanter Ausgabe ohne Buchungen und Buchung.
+// Trennzeichen und Dezimalzeichen folgen dem gewählten Zahlenformat, damit
+// die Datei in Excel/Numbers direkt richtig geöffnet wird.
+
+const HEADERS = ['Type', 'Month', 'Category', 'Purpose', 'Date', 'Payee', 'Note', 'Paid by', 'Amount', 'Currency'];
+
+const AMOUNT_COLUMN = HEADERS.indexOf('Amount');
+
+// Tabellenprogramme werten Zellen mit =, +, -, @, Tab oder CR am Anfang als Formel aus.
+// Solche Texte bekommen ein ' vorangestellt; die Betragsspalte bleibt unverändert,
+// damit negative Beträge Zahlen bleiben.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function escapeCell(value: string, delimiter: string, isAmount = false): string {
+  const text = !isAmount && FORMULA_START.test(value) ? `'${value}` : value;
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function createMonthCsv(
+  month: string,
+  incomes: FinancialEntry[],
+  expenses: FinancialEntry[],
+  members: HouseholdMember[],
+  settings: AppSettings
+): string {
+  const delimiter = settings.locale === 'de-DE' ? ';' : ',';
+  const memberName = (id?: string) => members.find((member) => member.id === id)?.name ?? '';
+
+  const rows: string[][] = [];
+  const addEntry = (type: string, entry: FinancialEntry) => {
+    const base = [type, month, entry.category, entry.purpose];
+    if (!entry.transactions?.length) {
+      rows.push([
+        ...base,
+        '',
+        '',
+        '',
+        memberName(entry.payerId),
+        formatAmountInput(entry.amount.cents, settings.locale),
+        entry.amount.currency,
+      ]);
+      return;
+    }
+    entry.transactions.forEach((transaction) => {
+      rows.push([
+        ...base,
+        transaction.date,
+        transaction.payee,
+        transaction.note,
+        memberName(entry.payerId),
+        formatAmountInput(transaction.amount.cents, settings.locale),
+        transaction.amount.currency,
+      ]);
+    });
+  };
+  incomes.forEach((entry) => addEntry('Income', entry));
+  expenses.forEach((entry) => addEntry('Expense', entry));
+
+  return [HEADERS, ...rows]
+    .map((cells) => cells.map((cell, column) => escapeCell(cell, delimiter, column === AMOUNT_COLUMN)).join(delimiter))
+    .join('\r\n');
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { BudgetPeriod, FinancialEntry } from '../storage/types';
+import { BUILTIN_BANK_PROFILES, addImportedTransactions, parseBankStatement, parseCsv } from './csvImport';
+
+const GENERIC = BUILTIN_BANK_PROFILES.find((profile) => profile.id === 'generic')!;
+
+describe('parseCsv', () => {
+  it('skips blank rows but keeps the line numbers of the file', () => {
+    const rows = parseCsv('a;b\n\n"multi\nline";c\r\n\r\nd;e');
+    expect(rows).toEqual([
+      { line: 1, cells: ['a', 'b'] },
+      { line: 3, cells: ['multi\nline', 'c'] },
+      { line: 6, cells: ['d', 'e'] },
+    ]);
+  });
+});
+
+describe('parseBankStatement', () => {
+  it('reports errors with the line number in the file', () => {
+    const text = 'Kontoauszug\n\nDatum;Betrag;Empfänger;Verwendungszweck\n01.02.2024;-3,50;Café;\n\nkaputt;x;;\n';
+    const result = parseBankStatement(text, GENERIC);
+    expect(result.transactions.map((transaction) => transaction.line)).toEqual([4]);
+    expect(result.errors).toEqual(['Line 6: could not read date or amount.']);
+  });
+});
+
+describe('addImportedTransactions', () => {
+  it('creates missing months oldest first so recurring entries carry over in order', () => {
+    const rent: FinancialEntry = {
+      id: 'rent',
+      month: '2024-01',
+      category: 'Rent',
+      amount: { cents: 80000, currency: 'EUR' },
+      purpose: '',
+      recurrence: { interval: 'monthly', dueDay: 1 },
+    };
+    const periods: BudgetPeriod[] = [{ month: '2024-01', createdAt: '2024-01-01T00:00:00.000Z' }];
+    const selection = (date: string) => ({
+      transaction: { line: 1, date, amount: -500, payee: 'Shop', note: '' },
+      category: 'Groceries',
+    });
+
+    const result = addImportedTransactions(
+      [selection('2024-03-05'), selection('2024-02-05')],
+      { periods, incomes: [], expenses: [rent] },
+      'EUR'
+    );
+
+    expect(result.periods.map((period) => period.month)).toEqual(['2024-01', '2024-02', '2024-03']);
+    const rentSeries = result.expenses.filter((entry) => entry.category === 'Rent');
+    expect(rentSeries.map((entry) => [entry.month, entry.seriesId])).toEqual([
+      ['2024-01', undefined],
+      ['2024-02', 'rent'],
+      ['2024-03', 'rent'],
+    ]);
+  });
+});
@@ -0,0 +1,286 @@
+import type { BankProfile, BudgetPeriod, CategoryRule, CurrencyCode, FinancialEntry } from '../storage/types';
+import { createEntryId, createPeriod } from './periods';
+import { parseMoney, toMoney } from '../utils/money';
+
+// --------------------------------------------------------
+//    CSV-Import von Kontoauszügen (deutsches Format)
+// --------------------------------------------------------
+// Semikolon als Trenner, Komma als Dezimalzeichen, Datum als dd.mm.yyyy.
+// Die Spalten werden über ihre Überschrift gefunden; die Zuordnung ist pro
+// Bankprofil einstellbar.
+
+export const BUILTIN_BANK_PROFILES: BankProfile[] = [
+  {
+    id: 'sparkasse',
+    name: 'Sparkasse (CSV-CAMT)',
+    delimiter: ';',
+    encoding: 'windows-1252',
+    columns: {
+      date: 'Buchungstag',
+      amount: 'Betrag',
+      payee: 'Beguenstigter/Zahlungspflichtiger',
+      note: 'Verwendungszweck',
+    },
+  },
+  {
+    id: 'ing',
+    name: 'ING',
+    delimiter: ';',
+    encoding: 'windows-1252',
+    columns: {
+      date: 'Buchung',
+      amount: 'Betrag',
+      payee: 'Auftraggeber/Empfänger',
+      note: 'Verwendungszweck',
+    },
+  },
+  {
+    id: 'dkb',
+    name: 'DKB',
+    delimiter: ';',
+    encoding: 'utf-8',
+    columns: {
+      date: 'Buchungsdatum',
+      amount: 'Betrag (€)',
+      payee: 'Zahlungsempfänger*in',
+      note: 'Verwendungszweck',
+    },
+  },
+  {
+    id: 'generic',
+    name: 'Other bank',
+    delimiter: ';',
+    encoding: 'utf-8',
+    columns: {
+      date: 'Datum',
+      amount: 'Betrag',
+      payee: 'Empfänger',
+      note: 'Verwendungszweck',
+    },
+  },
+];
+
+export interface ImportedTransaction {
+  // Zeilennummer in der Datei (1-basiert), für Fehlermeldungen und als React-Key
+  line: number;
+  date: string;
+  // In Cent; negativ = Ausgabe, positiv = Eingang
+  amount: number;
+  payee: string;
+  note: string;
+}
+
+export interface ParseResult {
+  headers: string[];
+  transactions: ImportedTransaction[];
+  errors: string[];
+}
+
+export interface CsvRow {
+  // Zeilennummer in der Datei (1-basiert), bei mehrzeiligen Zellen die erste Zeile
+  line: number;
+  cells: string[];
+}
+
+// Zerlegt CSV-Text in Zeilen und Zellen; Anführungszeichen ("a;b", "say ""hi""") werden beachtet.
+// Leerzeilen werden übersprungen, zählen aber für die Zeilennummern mit.
+export function parseCsv(text: string, delimiter = ';'): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const isLineBreak = char === '\n' || char === '\r';
+    if (isLineBreak && char === '\r' && text[i + 1] === '\n') i++;
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += isLineBreak ? '\n' : char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (isLineBreak) {
+      row.push(cell);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      cell = '';
+      rowLine = line + 1;
+    } else {
+      cell += char;
+    }
+    if (isLineBreak) line++;
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push({ line: rowLine, cells: row });
+  }
+
+  return rows
+    .map((csvRow) => ({ ...csvRow, cells: csvRow.cells.map((value) => value.trim()) }))
+    .filter((csvRow) => csvRow.cells.some((value) => value !== ''));
+}
+
+// "-1.234,56 €" -> -123456 (Cent); null, wenn der Betrag nicht lesbar ist
+export function parseGermanAmount(value: string): number | null {
+  const parsed = parseMoney(value, 'de-DE');
+  return parsed.ok ? parsed.cents : null;
+}
+
+// "31.01.2026" oder "31.01.26" -> "2026-01-31"; null bei ungültigem Datum
+export function parseGermanDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/);
+  if (!match) return null;
+  const [, day, month, rawYear] = match;
+  const year = rawYear.length === 2 ? `20${rawYear}` : rawYear;
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  if (date.getMonth() !== Number(month) - 1) return null;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase();
+
+// Viele Banken stellen Kontoinformationen vor die eigentliche Tabelle –
+// die Kopfzeile ist die erste Zeile, die die Datumsspalte enthält
+export function findHeaderRow(rows: string[][], profile: BankProfile): number {
+  const dateHeader = normalizeHeader(profile.columns.date);
+  const index = rows.findIndex((cells) => cells.some((cell) => normalizeHeader(cell) === dateHeader));
+  if (index !== -1) return index;
+  // Sonst die erste Zeile mit der vollen Spaltenzahl
+  const maxCells = Math.max(0, ...rows.map((cells) => cells.length));
+  return Math.max(0, rows.findIndex((cells) => cells.length === maxCells));
+}
+
+export function parseBankStatement(text: string, profile: BankProfile): ParseResult {
+  const csvRows = parseCsv(text, profile.delimiter);
+  if (csvRows.length === 0) return { headers: [], transactions: [], errors: ['The file is empty.'] };
+
+  const rows = csvRows.map((row) => row.cells);
+  const headerIndex = findHeaderRow(rows, profile);
+  const headers = rows[headerIndex];
+  const columnIndex = (header: string) =>
+    header ? headers.findIndex((cell) => normalizeHeader(cell) === normalizeHeader(header)) : -1;
+  const dateColumn = columnIndex(profile.columns.date);
+  const amountColumn = columnIndex(profile.columns.amount);
+  const payeeColumn = columnIndex(profile.columns.payee);
+  const noteColumn = columnIndex(profile.columns.note);
+
+  const errors: string[] = [];
+  if (dateColumn === -1) errors.push(`Column "${profile.columns.date}" (date) not found.`);
+  if (amountColumn === -1) errors.push(`Column "${profile.columns.amount}" (amount) not found.`);
+  if (errors.length > 0) return { headers, transactions: [], errors };
+
+  const transactions: ImportedTransaction[] = [];
+  csvRows.slice(headerIndex + 1).forEach(({ line, cells }) => {
+    const date = parseGermanDate(cells[dateColumn] ?? '');
+    const amount = parseGermanAmount(cells[amountColumn] ?? '');
+    if (!date || amount === null) {
+      errors.push(`Line ${line}: could not read date or amount.`);
+      return;
+    }
+    transactions.push({
+      line,
+      date,
+      amount,
+      payee: payeeColumn === -1 ? '' : cells[payeeColumn] ?? '',
+      note: noteColumn === -1 ? '' : cells[noteColumn] ?? '',
+    });
+  });
+
+  return { headers, transactions, errors };
+}
+
+// Gleiche Buchung = gleiches Datum, gleicher Betrag (Cent), gleicher Empfänger
+export function getDuplicateKey(date: string, amount: number, payee: string): string {
+  return `${date}|${Math.abs(amount)}|${payee.trim().toLowerCase()}`;
+}
+
+// Anzahl der schon gespeicherten Buchungen je Schlüssel. Jede vorhandene Buchung
+// markiert höchstens eine importierte Zeile als Duplikat – zwei gleiche Einkäufe
+// am selben Tag in derselben Datei bleiben so beide importierbar.
+export function countExistingTransactions(expenses: FinancialEntry[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  expenses.forEach((entry) =>
+    (entry.transactions ?? []).forEach((transaction) => {
+      const key = getDuplicateKey(transaction.date, transaction.amount.cents, transaction.payee);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    })
+  );
+  return counts;
+}
+
+// Erste passende Regel gewinnt
+export function categorize(transaction: ImportedTransaction, rules: CategoryRule[]): string | undefined {
+  const rule = rules.find((candidate) => {
+    const pattern = candidate.pattern.trim().toLowerCase();
+    if (!pattern) return false;
+    const fields =
+      candidate.field === 'any'
+        ? [transaction.payee, transaction.note]
+        : [candidate.field === 'payee' ? transaction.payee : transaction.note];
+    return fields.some((field) => field.toLowerCase().includes(pattern));
+  });
+  return rule?.category;
+}
+
+export interface ImportSelection {
+  transaction: ImportedTransaction;
+  category: string;
+}
+
+// Hängt die ausgewählten Buchungen an die Ausgabenkategorie ihres Monats an.
+// Fehlende Monate werden wie gewohnt angelegt, fehlende Kategorien mit Limit 0.
+export function addImportedTransactions(
+  selections: ImportSelection[],
+  state: { periods: BudgetPeriod[]; incomes: FinancialEntry[]; expenses: FinancialEntry[] },
+  currency: CurrencyCode
+) {
+  // Älteste Monate zuerst, damit wiederkehrende Einträge der Reihe nach übernommen werden
+  const months = new Set(selections.map(({ transaction }) => transaction.date.slice(0, 7)));
+  const next = Array.from(months)
+    .sort()
+    .reduce(
+      (current, month) => createPeriod(month, current.periods, current.incomes, current.expenses),
+      state
+    );
+
+  let expenses = next.expenses;
+  selections.forEach(({ transaction, category }) => {
+    const month = transaction.date.slice(0, 7);
+    let entry = expenses.find((candidate) => candidate.month === month && candidate.category === category);
+    if (!entry) {
+      entry = { id: createEntryId(), month, category, amount: toMoney(0, currency), purpose: '' };
+      expenses = [...expenses, entry];
+    }
+    const targetId = entry.id;
+    const imported = {
+      id: createEntryId(),
+      date: transaction.date,
+      amount: toMoney(Math.abs(transaction.amount), currency),
+      payee: transaction.payee,
+      note: transaction.note,
+    };
+    expenses = expenses.map((candidate) =>
+      candidate.id === targetId
+        ? {
+            ...candidate,
+            transactions: [...(candidate.transactions ?? []), imported].sort((a, b) =>
+              b.date.localeCompare(a.date)
+            ),
+          }
+        : candidate
+    );
+  });
+
+  return { ...next, expenses };
+}
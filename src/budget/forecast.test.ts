@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { FinancialEntry } from '../storage/types';
+import { createScenario, getScenarioBaseline, projectBudget, scaleEntry } from './forecast';
+import { calculateTotals } from './totals';
+
+const groceries: FinancialEntry = {
+  id: 'groceries',
+  month: '2024-02',
+  category: 'Groceries',
+  amount: { cents: 40000, currency: 'EUR' },
+  purpose: '',
+  recurrence: { interval: 'monthly', dueDay: 1 },
+  transactions: [{ id: 't1', date: '2024-02-03', amount: { cents: 5000, currency: 'EUR' }, payee: 'Shop', note: '' }],
+};
+
+const salary: FinancialEntry = {
+  id: 'salary',
+  month: '2024-02',
+  category: 'Salary',
+  amount: { cents: 300000, currency: 'EUR' },
+  purpose: '',
+  recurrence: { interval: 'monthly', dueDay: 1 },
+};
+
+describe('scenarios', () => {
+  it('match the baseline as long as they are unchanged', () => {
+    const scenario = createScenario('Copy', '2024-02', [salary], [groceries]);
+    const baseline = getScenarioBaseline('2024-02', [salary], [groceries]);
+
+    const scenarioTotals = calculateTotals(scenario.incomes, scenario.expenses);
+    expect(scenarioTotals).toEqual(calculateTotals(baseline.incomes, baseline.expenses));
+    // Tatsächliche Ausgaben (Buchungen) statt des geplanten Betrags
+    expect(scenarioTotals.totalExpenses).toBe(5000);
+
+    expect(projectBudget(scenario.incomes, scenario.expenses, '2024-02')).toEqual(
+      projectBudget(baseline.incomes, baseline.expenses, '2024-02')
+    );
+  });
+});
+
+describe('projectBudget', () => {
+  it('counts the spending so far in the base month and the planned amount afterwards', () => {
+    const baseline = getScenarioBaseline('2024-02', [salary], [groceries]);
+    const projection = projectBudget(baseline.incomes, baseline.expenses, '2024-02', 3);
+    expect(projection.map((month) => month.totalExpenses)).toEqual([5000, 40000, 40000]);
+    expect(projection.map((month) => month.balance)).toEqual([295000, 260000, 260000]);
+    expect(projection[2].cumulativeBalance).toBe(815000);
+  });
+
+  it('rolls entries without transactions forward unchanged', () => {
+    const rent = { ...salary, id: 'rent', category: 'Rent', amount: { cents: 90000, currency: 'EUR' as const } };
+    const projection = projectBudget([], [rent], '2024-02', 2);
+    expect(projection.map((month) => month.totalExpenses)).toEqual([90000, 90000]);
+  });
+
+  it('uses entries that already exist in later months as recorded', () => {
+    const march: FinancialEntry = {
+      ...groceries,
+      id: 'groceries-march',
+      month: '2024-03',
+      seriesId: 'groceries',
+      amount: { cents: 30000, currency: 'EUR' },
+      transactions: undefined,
+    };
+    const projection = projectBudget([], [groceries, march], '2024-02', 3);
+    expect(projection.map((month) => month.totalExpenses)).toEqual([5000, 30000, 30000]);
+  });
+});
+
+describe('scaleEntry', () => {
+  it('scales the planned amount and the transactions of the base month', () => {
+    const halved = scaleEntry(groceries, -50);
+    expect(halved.amount.cents).toBe(20000);
+    expect(halved.transactions?.[0].amount.cents).toBe(2500);
+    expect(projectBudget([], [halved], '2024-02', 2).map((month) => month.totalExpenses)).toEqual([2500, 20000]);
+  });
+});
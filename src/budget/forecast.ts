@@ -0,0 +1,103 @@
+import type { BudgetScenario, FinancialEntry } from '../storage/types';
+import { addMonths } from '../utils/dates';
+import { createEntryId, getDueRecurringEntries, getEntriesForMonth } from './periods';
+import { calculateTotals } from './totals';
+
+// --------------------------------------------------------
+//    Prognose und Was-wäre-wenn-Szenarien
+// --------------------------------------------------------
+
+export const FORECAST_MONTHS = 12;
+
+// Beträge in Cent
+export interface ProjectedMonth {
+  month: string;
+  totalIncome: number;
+  totalExpenses: number;
+  balance: number;
+  // Summe der Salden seit dem ersten Prognosemonat
+  cumulativeBalance: number;
+}
+
+// Rechnet ab fromMonth monatsweise weiter. Monate, für die es schon Einträge
+// gibt, zählen wie erfasst; für alle anderen werden – wie beim Anlegen eines
+// neuen Monats – die fälligen wiederkehrenden Einträge übernommen.
+export function projectBudget(
+  incomes: FinancialEntry[],
+  expenses: FinancialEntry[],
+  fromMonth: string,
+  months = FORECAST_MONTHS
+): ProjectedMonth[] {
+  let projectedIncomes = incomes;
+  let projectedExpenses = expenses;
+  let cumulativeBalance = 0;
+
+  return Array.from({ length: months }, (_, index) => {
+    const month = addMonths(fromMonth, index);
+    let monthIncomes = getEntriesForMonth(projectedIncomes, month);
+    let monthExpenses = getEntriesForMonth(projectedExpenses, month);
+    if (monthIncomes.length === 0 && monthExpenses.length === 0) {
+      monthIncomes = getDueRecurringEntries(projectedIncomes, month);
+      monthExpenses = getDueRecurringEntries(projectedExpenses, month);
+      projectedIncomes = [...projectedIncomes, ...monthIncomes];
+      projectedExpenses = [...projectedExpenses, ...monthExpenses];
+    }
+    const totals = calculateTotals(monthIncomes, monthExpenses);
+    cumulativeBalance += totals.balance;
+    return { month, ...totals, cumulativeBalance };
+  });
+}
+
+// Kopie der Einträge eines Monats. Neue ids, damit sich die Kopien nicht mit
+// den echten Einträgen überschneiden; die Serien bleiben erhalten. Die Buchungen
+// bleiben dabei: Der Ausgangsmonat zählt mit den tatsächlichen Ausgaben, die
+// Folgemonate übernehmen wie createPeriod den geplanten Betrag.
+function copyEntries(entries: FinancialEntry[]): FinancialEntry[] {
+  return entries.map((entry) => ({
+    ...entry,
+    id: createEntryId(),
+    seriesId: entry.seriesId ?? entry.id,
+  }));
+}
+
+// Vergleichswert für Szenarien: der Ausgangsmonat so, wie ihn ein unverändertes
+// Szenario enthält. Auch die Prognose rechnet nur von diesem Monat aus weiter.
+export function getScenarioBaseline(
+  baseMonth: string,
+  incomes: FinancialEntry[],
+  expenses: FinancialEntry[]
+): Pick<BudgetScenario, 'incomes' | 'expenses'> {
+  return {
+    incomes: copyEntries(getEntriesForMonth(incomes, baseMonth)),
+    expenses: copyEntries(getEntriesForMonth(expenses, baseMonth)),
+  };
+}
+
+export function createScenario(
+  name: string,
+  baseMonth: string,
+  incomes: FinancialEntry[],
+  expenses: FinancialEntry[]
+): BudgetScenario {
+  return {
+    id: createEntryId(),
+    name,
+    baseMonth,
+    ...getScenarioBaseline(baseMonth, incomes, expenses),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// Ändert den Betrag eines Eintrags um percent Prozent (z. B. 8 oder -50) – den
+// geplanten Betrag und die Buchungen, damit Ausgangs- und Folgemonate mitgehen
+export function scaleEntry(entry: FinancialEntry, percent: number): FinancialEntry {
+  const scale = (cents: number) => Math.max(0, Math.round((cents * (100 + percent)) / 100));
+  return {
+    ...entry,
+    amount: { ...entry.amount, cents: scale(entry.amount.cents) },
+    transactions: entry.transactions?.map((transaction) => ({
+      ...transaction,
+      amount: { ...transaction.amount, cents: scale(transaction.amount.cents) },
+    })),
+  };
+}
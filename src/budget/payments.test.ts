@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { FinancialEntry } from '../storage/types';
+import { getDueDate, getDuePayments } from './payments';
+
+const createExpense = (id: string, dueDay: number | null, changes: Partial<FinancialEntry> = {}): FinancialEntry => ({
+  id,
+  month: '2024-02',
+  category: id,
+  amount: { cents: 1000, currency: 'EUR' },
+  purpose: '',
+  recurrence: dueDay === null ? undefined : { interval: 'monthly', dueDay },
+  ...changes,
+});
+
+describe('getDueDate', () => {
+  it('moves due days after the end of the month to its last day', () => {
+    expect(getDueDate('2024-02', 31)).toBe('2024-02-29');
+    expect(getDueDate('2024-03', 5)).toBe('2024-03-05');
+  });
+});
+
+describe('getDuePayments', () => {
+  const today = new Date(2024, 1, 10);
+
+  it('lists only recurring entries, ordered by due day', () => {
+    const payments = getDuePayments(
+      [createExpense('Rent', 15), createExpense('Coffee', null), createExpense('Insurance', 1)],
+      '2024-02',
+      today
+    );
+    expect(payments.map((payment) => payment.entry.id)).toEqual(['Insurance', 'Rent']);
+  });
+
+  it('flags payments as overdue, due soon, upcoming or paid', () => {
+    const payments = getDuePayments(
+      [
+        createExpense('Insurance', 1),
+        createExpense('Phone', 3, {
+          transactions: [{ id: 't1', date: '2024-02-03', amount: { cents: 1000, currency: 'EUR' }, payee: '', note: '' }],
+        }),
+        createExpense('Rent', 15),
+        createExpense('Gym', 28),
+      ],
+      '2024-02',
+      today
+    );
+    expect(payments.map(({ status, daysLeft }) => [status, daysLeft])).toEqual([
+      ['overdue', -9],
+      ['paid', -7],
+      ['due-soon', 5],
+      ['upcoming', 18],
+    ]);
+  });
+});
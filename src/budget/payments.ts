@@ -0,0 +1,46 @@
+import type { FinancialEntry } from '../storage/types';
+import { DAY_MS, getDateKey, getDaysInMonth, parseDateKey } from '../utils/dates';
+
+// --------------------------------------------------------
+//    Fällige wiederkehrende Zahlungen eines Monats
+// --------------------------------------------------------
+// Eine Ausgabe gilt als bezahlt, sobald im Monat eine Buchung dazu existiert.
+
+export type PaymentStatus = 'paid' | 'overdue' | 'due-soon' | 'upcoming';
+
+// Zahlungen innerhalb dieser Anzahl Tage werden hervorgehoben
+export const DUE_SOON_DAYS = 7;
+
+export interface DuePayment {
+  entry: FinancialEntry;
+  // YYYY-MM-DD
+  dueDate: string;
+  // Ganze Tage ab heute (negativ = überfällig)
+  daysLeft: number;
+  status: PaymentStatus;
+}
+
+// Fälligkeitstage nach dem Monatsende (z. B. 31 im Februar) fallen auf den letzten Tag
+export function getDueDate(month: string, dueDay: number): string {
+  const day = Math.min(dueDay, getDaysInMonth(month));
+  return `${month}-${String(day).padStart(2, '0')}`;
+}
+
+function getPaymentStatus(entry: FinancialEntry, daysLeft: number): PaymentStatus {
+  if (entry.transactions?.length) return 'paid';
+  if (daysLeft < 0) return 'overdue';
+  return daysLeft <= DUE_SOON_DAYS ? 'due-soon' : 'upcoming';
+}
+
+// Wiederkehrende Einträge des Monats nach Fälligkeitstag sortiert
+export function getDuePayments(monthEntries: FinancialEntry[], month: string, today: Date = new Date()): DuePayment[] {
+  const todayTime = parseDateKey(getDateKey(today)).getTime();
+  return monthEntries
+    .filter((entry) => entry.month === month && entry.recurrence)
+    .map((entry) => {
+      const dueDate = getDueDate(month, entry.recurrence!.dueDay);
+      const daysLeft = Math.round((parseDateKey(dueDate).getTime() - todayTime) / DAY_MS);
+      return { entry, dueDate, daysLeft, status: getPaymentStatus(entry, daysLeft) };
+    })
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.entry.category.localeCompare(b.entry.category));
+}
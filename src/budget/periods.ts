@@ -0,0 +1,111 @@
+import type { BudgetPeriod, FinancialEntry, RecurrenceInterval } from '../storage/types';
+import { monthsBetween } from '../utils/dates';
+import { calculateTotals } from './totals';
+
+// --------------------------------------------------------
+//    Monatliche Budget-Perioden und wiederkehrende Einträge
+// --------------------------------------------------------
+
+export const RECURRENCE_STEPS: Record<RecurrenceInterval, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+export function createEntryId(): string {
+  return `entry-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function getEntriesForMonth(entries: FinancialEntry[], month: string): FinancialEntry[] {
+  return entries.filter((entry) => entry.month === month);
+}
+
+// Kopien aller wiederkehrenden Einträge, die im Monat fällig sind. Maßgeblich ist
+// jeweils der letzte Eintrag einer Serie vor diesem Monat – wer dort die
+// Wiederholung entfernt oder den Betrag ändert, beeinflusst damit alle folgenden Monate.
+export function getDueRecurringEntries(entries: FinancialEntry[], month: string): FinancialEntry[] {
+  const latestBySeries = new Map<string, FinancialEntry>();
+  const seriesInMonth = new Set<string>();
+
+  entries.forEach((entry) => {
+    const seriesId = entry.seriesId ?? entry.id;
+    if (entry.month === month) seriesInMonth.add(seriesId);
+    if (monthsBetween(entry.month, month) <= 0) return;
+    const latest = latestBySeries.get(seriesId);
+    if (!latest || monthsBetween(latest.month, entry.month) > 0) latestBySeries.set(seriesId, entry);
+  });
+
+  return Array.from(latestBySeries, ([seriesId, latest]) => ({ seriesId, latest }))
+    .filter(({ seriesId, latest }) => {
+      if (!latest.recurrence || seriesInMonth.has(seriesId)) return false;
+      return monthsBetween(latest.month, month) % RECURRENCE_STEPS[latest.recurrence.interval] === 0;
+    })
+    // Buchungen gehören nur zum jeweiligen Monat und werden nicht übernommen
+    .map(({ seriesId, latest }) => ({
+      ...latest,
+      id: createEntryId(),
+      month,
+      seriesId,
+      transactions: undefined,
+    }));
+}
+
+// Legt eine Periode an und übernimmt die fälligen wiederkehrenden Einträge.
+// Existiert der Monat schon, bleibt alles unverändert – gelöschte Einträge
+// kommen so nicht zurück.
+export function createPeriod(
+  month: string,
+  periods: BudgetPeriod[],
+  incomes: FinancialEntry[],
+  expenses: FinancialEntry[]
+) {
+  if (hasPeriod(periods, month)) {
+    return { periods, incomes, expenses };
+  }
+  return {
+    periods: addPeriod(periods, month),
+    incomes: addDueRecurringEntries(incomes, month),
+    expenses: addDueRecurringEntries(expenses, month),
+  };
+}
+
+export function hasPeriod(periods: BudgetPeriod[], month: string): boolean {
+  return periods.some((period) => period.month === month);
+}
+
+// Einzelschritte von createPeriod, für Stores, die getrennt aktualisiert werden
+export function addPeriod(periods: BudgetPeriod[], month: string): BudgetPeriod[] {
+  if (hasPeriod(periods, month)) return periods;
+  return [...periods, { month, createdAt: new Date().toISOString() }].sort((a, b) => a.month.localeCompare(b.month));
+}
+
+export function addDueRecurringEntries(entries: FinancialEntry[], month: string): FinancialEntry[] {
+  return [...entries, ...getDueRecurringEntries(entries, month)];
+}
+
+// Beträge in Cent
+export interface MonthSummary {
+  month: string;
+  totalIncome: number;
+  totalExpenses: number;
+  balance: number;
+}
+
+// Summen pro Monat, neuester zuerst
+export function getMonthlyHistory(
+  periods: BudgetPeriod[],
+  incomes: FinancialEntry[],
+  expenses: FinancialEntry[]
+): MonthSummary[] {
+  const months = new Set([
+    ...periods.map((period) => period.month),
+    ...incomes.map((entry) => entry.month),
+    ...expenses.map((entry) => entry.month),
+  ]);
+  return Array.from(months)
+    .sort((a, b) => b.localeCompare(a))
+    .map((month) => ({
+      month,
+      ...calculateTotals(getEntriesForMonth(incomes, month), getEntriesForMonth(expenses, month)),
+    }));
+}
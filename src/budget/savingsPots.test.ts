@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { SavingsPot, WishlistItem } from '../storage/types';
+import {
+  addAllocation,
+  getAffordableItemIds,
+  getMonthlyNeeded,
+  getSuggestedAllocation,
+  isPotFull,
+} from './savingsPots';
+
+const createPot = (target: number, targetDate: string, changes: Partial<SavingsPot> = {}): SavingsPot => ({
+  id: 'pot-1',
+  name: 'Bike',
+  target: { cents: target, currency: 'EUR' },
+  targetDate,
+  allocations: [],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  ...changes,
+});
+
+const createItem = (id: string, price: number | null, targetDate = ''): WishlistItem => ({
+  id,
+  name: id,
+  description: '',
+  priority: 'mittel',
+  price: price === null ? null : { cents: price, currency: 'EUR' },
+  url: '',
+  category: '',
+  targetDate,
+  createdAt: 0,
+});
+
+describe('getMonthlyNeeded', () => {
+  it('spreads the target over the months up to and including the target month', () => {
+    expect(getMonthlyNeeded(createPot(30000, '2024-07-20'), [], '2024-05')).toBe(10000);
+  });
+
+  it('rounds the monthly rate up and leaves the remainder to the last month', () => {
+    let pot = createPot(1000, '2024-07-01');
+    expect(getMonthlyNeeded(pot, [], '2024-05')).toBe(334);
+    pot = addAllocation(pot, '2024-05', 334, 'EUR');
+    expect(getMonthlyNeeded(pot, [], '2024-06')).toBe(333);
+    pot = addAllocation(pot, '2024-06', 334, 'EUR');
+    expect(getMonthlyNeeded(pot, [], '2024-07')).toBe(332);
+  });
+
+  it('asks for the whole rest when the target month is current or past', () => {
+    const pot = addAllocation(createPot(1000, '2024-05-31'), '2024-04', 400, 'EUR');
+    expect(getMonthlyNeeded(pot, [], '2024-05')).toBe(600);
+    expect(getMonthlyNeeded(pot, [], '2024-09')).toBe(600);
+  });
+
+  it('does not change through allocations made in the month itself', () => {
+    const pot = addAllocation(createPot(1200, '2024-07-01'), '2024-05', 100, 'EUR');
+    expect(getMonthlyNeeded(pot, [], '2024-05')).toBe(400);
+  });
+
+  it('returns null without a target date and uses the linked item otherwise', () => {
+    expect(getMonthlyNeeded(createPot(1000, ''), [], '2024-05')).toBeNull();
+    const linked = createPot(1000, '', { wishlistItemId: 'bike' });
+    expect(getMonthlyNeeded(linked, [createItem('bike', 60000, '2024-06-15')], '2024-05')).toBe(30000);
+  });
+});
+
+describe('getSuggestedAllocation', () => {
+  const pot = createPot(1000, '2024-07-01');
+
+  it('suggests the open monthly rate', () => {
+    expect(getSuggestedAllocation(pot, [], '2024-05', 5000)).toBe(334);
+    const partly = addAllocation(pot, '2024-05', 300, 'EUR');
+    expect(getSuggestedAllocation(partly, [], '2024-05', 5000)).toBe(34);
+  });
+
+  it('never suggests more than the unallocated balance or the rest of the target', () => {
+    expect(getSuggestedAllocation(pot, [], '2024-05', 100)).toBe(100);
+    expect(getSuggestedAllocation(createPot(1000, ''), [], '2024-05', 5000)).toBe(1000);
+    const full = addAllocation(pot, '2024-04', 1000, 'EUR');
+    expect(getSuggestedAllocation(full, [], '2024-05', 5000)).toBe(0);
+  });
+});
+
+describe('isPotFull', () => {
+  it('is full once the saved amount reaches the target', () => {
+    const pot = createPot(1000, '');
+    expect(isPotFull(pot, [])).toBe(false);
+    expect(isPotFull(addAllocation(pot, '2024-05', 1000, 'EUR'), [])).toBe(true);
+  });
+
+  it('is never full without a target', () => {
+    expect(isPotFull(createPot(0, ''), [])).toBe(false);
+  });
+});
+
+describe('getAffordableItemIds', () => {
+  it('lists the items whose linked pot is full', () => {
+    const wishlist = [createItem('bike', 1000), createItem('book', 2000), createItem('lamp', null)];
+    const pots = [
+      addAllocation(createPot(0, '', { id: 'p1', wishlistItemId: 'bike' }), '2024-05', 1000, 'EUR'),
+      addAllocation(createPot(0, '', { id: 'p2', wishlistItemId: 'book' }), '2024-05', 1000, 'EUR'),
+      // Ohne Preis gilt der Zielbetrag des Topfs
+      addAllocation(createPot(500, '', { id: 'p3', wishlistItemId: 'lamp' }), '2024-05', 500, 'EUR'),
+      addAllocation(createPot(500, '', { id: 'p4' }), '2024-05', 500, 'EUR'),
+    ];
+    expect(getAffordableItemIds(pots, wishlist)).toEqual(new Set(['bike', 'lamp']));
+  });
+});
@@ -0,0 +1,101 @@
+import type { CurrencyCode, SavingsPot, WishlistItem } from '../storage/types';
+import { getMonthKey, monthsBetween } from '../utils/dates';
+import { toMoney } from '../utils/money';
+import { createEntryId } from './periods';
+
+// --------------------------------------------------------
+//    Spartöpfe
+// --------------------------------------------------------
+// Ein Topf wird jeden Monat mit einem Teil des positiven Saldos befüllt.
+// Ist er mit einem Wunsch verknüpft, gelten dessen Preis und Zieldatum.
+
+export interface PotGoal {
+  // Zielbetrag in Cent
+  target: number;
+  targetDate: string;
+}
+
+export function getLinkedItem(pot: SavingsPot, wishlist: WishlistItem[]): WishlistItem | undefined {
+  return pot.wishlistItemId ? wishlist.find((item) => item.id === pot.wishlistItemId) : undefined;
+}
+
+export function getPotGoal(pot: SavingsPot, wishlist: WishlistItem[]): PotGoal {
+  const item = getLinkedItem(pot, wishlist);
+  return {
+    target: item?.price?.cents ?? pot.target.cents,
+    targetDate: item?.targetDate || pot.targetDate,
+  };
+}
+
+const sumAllocations = (pot: SavingsPot, include: (month: string) => boolean) =>
+  pot.allocations
+    .filter((allocation) => include(allocation.month))
+    .reduce((sum, allocation) => sum + allocation.amount.cents, 0);
+
+export function getPotSaved(pot: SavingsPot): number {
+  return sumAllocations(pot, () => true);
+}
+
+export function isPotFull(pot: SavingsPot, wishlist: WishlistItem[]): boolean {
+  const { target } = getPotGoal(pot, wishlist);
+  return target > 0 && getPotSaved(pot) >= target;
+}
+
+// Monatliche Rate, um das Ziel bis zum Zieldatum zu erreichen – gerechnet ab dem
+// Stand zu Monatsbeginn, damit sie sich durch Zuteilungen im Monat nicht ändert.
+// Der Monat des Zieldatums zählt mit; ist er schon vorbei, wird der ganze Rest
+// sofort fällig. null, wenn es kein Zieldatum gibt.
+export function getMonthlyNeeded(
+  pot: SavingsPot,
+  wishlist: WishlistItem[],
+  month = getMonthKey(new Date())
+): number | null {
+  const { target, targetDate } = getPotGoal(pot, wishlist);
+  if (!targetDate) return null;
+  const remaining = Math.max(0, target - sumAllocations(pot, (allocationMonth) => allocationMonth < month));
+  const monthsLeft = Math.max(1, monthsBetween(month, targetDate.slice(0, 7)) + 1);
+  return Math.ceil(remaining / monthsLeft);
+}
+
+export function getPotAllocatedInMonth(pot: SavingsPot, month: string): number {
+  return sumAllocations(pot, (allocationMonth) => allocationMonth === month);
+}
+
+export function getAllocatedInMonth(pots: SavingsPot[], month: string): number {
+  return pots.reduce((sum, pot) => sum + getPotAllocatedInMonth(pot, month), 0);
+}
+
+// Noch verteilbarer Überschuss eines Monats
+export function getUnallocatedBalance(balance: number, pots: SavingsPot[], month: string): number {
+  return Math.max(0, balance - getAllocatedInMonth(pots, month));
+}
+
+// Vorschlag für die Zuteilung im Monat: die noch offene Monatsrate (ohne
+// Zieldatum der ganze Rest), höchstens der freie Überschuss
+export function getSuggestedAllocation(
+  pot: SavingsPot,
+  wishlist: WishlistItem[],
+  month: string,
+  unallocated: number
+): number {
+  const remaining = Math.max(0, getPotGoal(pot, wishlist).target - getPotSaved(pot));
+  const needed = getMonthlyNeeded(pot, wishlist, month);
+  const openRate = needed === null ? remaining : Math.max(0, needed - getPotAllocatedInMonth(pot, month));
+  return Math.min(openRate, remaining, unallocated);
+}
+
+export function addAllocation(pot: SavingsPot, month: string, cents: number, currency: CurrencyCode): SavingsPot {
+  return {
+    ...pot,
+    allocations: [...pot.allocations, { id: createEntryId(), month, amount: toMoney(cents, currency) }],
+  };
+}
+
+// Wünsche, deren verknüpfter Topf voll ist
+export function getAffordableItemIds(pots: SavingsPot[], wishlist: WishlistItem[]): Set<string> {
+  return new Set(
+    pots
+      .filter((pot) => pot.wishlistItemId && isPotFull(pot, wishlist))
+      .map((pot) => pot.wishlistItemId as string)
+  );
+}
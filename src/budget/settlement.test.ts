@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import type { CostSplit, FinancialEntry, HouseholdMember } from '../storage/types';
+import { calculateSettlement, getSplitWeights, splitCents } from './settlement';
+
+const MEMBERS: HouseholdMember[] = [
+  { id: 'anna', name: 'Anna' },
+  { id: 'ben', name: 'Ben' },
+  { id: 'cem', name: 'Cem' },
+];
+
+const createEntry = (id: string, cents: number, payerId?: string, split?: CostSplit): FinancialEntry => ({
+  id,
+  month: '2024-05',
+  category: id,
+  amount: { cents, currency: 'EUR' },
+  purpose: '',
+  payerId,
+  split,
+});
+
+describe('splitCents', () => {
+  it('gives the remaining cents to the largest fractions without losing any', () => {
+    const parts = splitCents(100, { anna: 1 / 3, ben: 1 / 3, cem: 1 / 3 });
+    expect(Object.values(parts).reduce((sum, part) => sum + part, 0)).toBe(100);
+    expect(Object.values(parts).sort()).toEqual([33, 33, 34]);
+    expect(splitCents(1001, { anna: 0.7, ben: 0.2, cem: 0.1 })).toEqual({ anna: 701, ben: 200, cem: 100 });
+  });
+
+  it('gives nothing to members with a weight of zero', () => {
+    expect(splitCents(999, { anna: 0.5, ben: 0, cem: 0.5 })).toEqual({ anna: 500, ben: 0, cem: 499 });
+  });
+});
+
+describe('getSplitWeights', () => {
+  it('uses custom shares and ignores negative ones', () => {
+    const split: CostSplit = { mode: 'custom', shares: { anna: 3, ben: 1, cem: -2 } };
+    expect(getSplitWeights(split, MEMBERS, {})).toEqual({ anna: 0.75, ben: 0.25, cem: 0 });
+  });
+
+  it('weights by income', () => {
+    expect(getSplitWeights({ mode: 'income' }, MEMBERS, { anna: 3000, ben: 1000, cem: 0 })).toEqual({
+      anna: 0.75,
+      ben: 0.25,
+      cem: 0,
+    });
+  });
+
+  it('falls back to equal shares when all weights are zero', () => {
+    const third = 1 / 3;
+    expect(getSplitWeights({ mode: 'income' }, MEMBERS, {})).toEqual({ anna: third, ben: third, cem: third });
+    expect(getSplitWeights({ mode: 'custom', shares: {} }, MEMBERS, {})).toEqual({
+      anna: third,
+      ben: third,
+      cem: third,
+    });
+  });
+});
+
+describe('calculateSettlement', () => {
+  it('lets everyone pay back their share when one member paid everything', () => {
+    const expenses = [createEntry('rent', 90000, 'anna'), createEntry('food', 30000, 'anna')];
+    const settlement = calculateSettlement([], expenses, MEMBERS);
+    expect(settlement.balances).toEqual([
+      { memberId: 'anna', paid: 120000, share: 40000, net: 80000 },
+      { memberId: 'ben', paid: 0, share: 40000, net: -40000 },
+      { memberId: 'cem', paid: 0, share: 40000, net: -40000 },
+    ]);
+    expect(settlement.transfers).toEqual([
+      { fromId: 'ben', toId: 'anna', amount: 40000 },
+      { fromId: 'cem', toId: 'anna', amount: 40000 },
+    ]);
+  });
+
+  it('keeps every cent when amounts do not divide evenly', () => {
+    const { balances, transfers } = calculateSettlement([], [createEntry('coffee', 1000, 'ben')], MEMBERS);
+    expect(balances.reduce((sum, balance) => sum + balance.share, 0)).toBe(1000);
+    expect(balances.reduce((sum, balance) => sum + balance.net, 0)).toBe(0);
+    expect(transfers.reduce((sum, transfer) => sum + transfer.amount, 0)).toBe(
+      balances.find((balance) => balance.memberId === 'ben')?.net
+    );
+  });
+
+  it('skips expenses without a known payer and counts them', () => {
+    const settlement = calculateSettlement(
+      [],
+      [createEntry('gift', 5000), createEntry('fuel', 3000, 'unknown'), createEntry('empty', 0)],
+      MEMBERS
+    );
+    expect(settlement.unassignedCount).toBe(2);
+    expect(settlement.transfers).toEqual([]);
+  });
+
+  it('splits by income from the members’ incomes', () => {
+    const incomes = [createEntry('salary', 300000, 'anna'), createEntry('job', 100000, 'ben')];
+    const expenses = [createEntry('rent', 100000, 'cem', { mode: 'income' })];
+    const { balances } = calculateSettlement(incomes, expenses, MEMBERS);
+    expect(balances.map((balance) => balance.share)).toEqual([75000, 25000, 0]);
+    expect(balances.map((balance) => balance.net)).toEqual([-75000, -25000, 100000]);
+  });
+});
@@ -0,0 +1,140 @@
+import type { CostSplit, FinancialEntry, HouseholdMember } from '../storage/types';
+import { getEntryAmount } from './totals';
+
+// --------------------------------------------------------
+//    Kostenaufteilung im Haushalt
+// --------------------------------------------------------
+// Jede Ausgabe mit Zahler wird nach ihrer Aufteilung auf die Mitglieder
+// verteilt. Wer mehr bezahlt hat, als sein Anteil ausmacht, bekommt die
+// Differenz von den anderen zurück.
+
+export const SPLIT_LABELS: Record<CostSplit['mode'], string> = {
+  equal: 'Equal shares',
+  income: 'By income',
+  custom: 'Custom',
+};
+
+export interface MemberBalance {
+  memberId: string;
+  // Alle Beträge in Cent
+  paid: number;
+  share: number;
+  // Positiv = bekommt Geld, negativ = schuldet Geld
+  net: number;
+}
+
+export interface Transfer {
+  fromId: string;
+  toId: string;
+  amount: number;
+}
+
+export interface Settlement {
+  balances: MemberBalance[];
+  transfers: Transfer[];
+  // Ausgaben ohne (bekannten) Zahler fließen nicht in die Abrechnung ein
+  unassignedCount: number;
+}
+
+// Einnahmen pro Mitglied (über payerId zugeordnet)
+export function getIncomeByMember(incomes: FinancialEntry[], members: HouseholdMember[]): Record<string, number> {
+  return Object.fromEntries(
+    members.map((member) => [
+      member.id,
+      incomes
+        .filter((entry) => entry.payerId === member.id)
+        .reduce((sum, entry) => sum + getEntryAmount(entry), 0),
+    ])
+  );
+}
+
+// Gewichte pro Mitglied; ohne verwertbare Angaben zu gleichen Teilen
+export function getSplitWeights(
+  split: CostSplit | undefined,
+  members: HouseholdMember[],
+  incomeByMember: Record<string, number>
+): Record<string, number> {
+  const raw =
+    split?.mode === 'custom'
+      ? members.map((member) => Math.max(0, split.shares[member.id] ?? 0))
+      : split?.mode === 'income'
+      ? members.map((member) => Math.max(0, incomeByMember[member.id] ?? 0))
+      : members.map(() => 1);
+  const total = raw.reduce((sum, weight) => sum + weight, 0);
+  return Object.fromEntries(
+    members.map((member, index) => [member.id, total > 0 ? raw[index] / total : 1 / members.length])
+  );
+}
+
+// Teilt einen Centbetrag nach Gewichten auf, ohne dass durch Rundung Cent verloren gehen
+// (Restcents gehen an die größten Nachkommaanteile)
+export function splitCents(cents: number, weights: Record<string, number>): Record<string, number> {
+  const ids = Object.keys(weights);
+  const exact = ids.map((id) => cents * weights[id]);
+  const result = exact.map(Math.floor);
+  let remainder = cents - result.reduce((sum, value) => sum + value, 0);
+  ids
+    .map((_, index) => index)
+    .sort((a, b) => exact[b] - result[b] - (exact[a] - result[a]))
+    .forEach((index) => {
+      if (remainder > 0) {
+        result[index] += 1;
+        remainder -= 1;
+      }
+    });
+  return Object.fromEntries(ids.map((id, index) => [id, result[index]]));
+}
+
+export function calculateSettlement(
+  incomes: FinancialEntry[],
+  expenses: FinancialEntry[],
+  members: HouseholdMember[]
+): Settlement {
+  const paid: Record<string, number> = Object.fromEntries(members.map((member) => [member.id, 0]));
+  const share: Record<string, number> = { ...paid };
+  const incomeByMember = getIncomeByMember(incomes, members);
+  let unassignedCount = 0;
+
+  expenses.forEach((entry) => {
+    const amount = getEntryAmount(entry);
+    if (amount === 0) return;
+    if (!entry.payerId || !(entry.payerId in paid)) {
+      unassignedCount++;
+      return;
+    }
+    paid[entry.payerId] += amount;
+    const parts = splitCents(amount, getSplitWeights(entry.split, members, incomeByMember));
+    members.forEach((member) => {
+      share[member.id] += parts[member.id];
+    });
+  });
+
+  const balances = members.map((member) => ({
+    memberId: member.id,
+    paid: paid[member.id],
+    share: share[member.id],
+    net: paid[member.id] - share[member.id],
+  }));
+
+  // Schuldner zahlen an Gläubiger, jeweils die größten Beträge zuerst –
+  // so kommen höchstens n-1 Überweisungen zustande
+  const creditors = balances.filter((b) => b.net > 0).map((b) => ({ id: b.memberId, open: b.net }));
+  const debtors = balances.filter((b) => b.net < 0).map((b) => ({ id: b.memberId, open: -b.net }));
+  creditors.sort((a, b) => b.open - a.open);
+  debtors.sort((a, b) => b.open - a.open);
+
+  const transfers: Transfer[] = [];
+  let creditorIndex = 0;
+  for (const debtor of debtors) {
+    while (debtor.open > 0 && creditorIndex < creditors.length) {
+      const creditor = creditors[creditorIndex];
+      const amount = Math.min(debtor.open, creditor.open);
+      transfers.push({ fromId: debtor.id, toId: creditor.id, amount });
+      debtor.open -= amount;
+      creditor.open -= amount;
+      if (creditor.open === 0) creditorIndex++;
+    }
+  }
+
+  return { balances, transfers, unassignedCount };
+}
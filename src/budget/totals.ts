@@ -0,0 +1,49 @@
+import type { FinancialEntry, Money } from '../storage/types';
+
+// Alle Beträge in ganzen Cent; ungültige Werte gibt es im Speicher nicht mehr
+const getCents = (amount: Money | undefined) => amount?.cents ?? 0;
+
+// Summe aller Buchungen einer Kategorie
+export function getSpentAmount(entry: FinancialEntry): number {
+  return (entry.transactions ?? []).reduce((sum, transaction) => sum + getCents(transaction.amount), 0);
+}
+
+// Geplanter Betrag der Zeile (Vergleichswert für die Buchungen)
+export function getPlannedAmount(entry: FinancialEntry): number {
+  return getCents(entry.amount);
+}
+
+// Tatsächlicher Betrag: die Buchungen, solange es welche gibt, sonst der geplante Betrag
+export function getEntryAmount(entry: FinancialEntry): number {
+  return entry.transactions?.length ? getSpentAmount(entry) : getPlannedAmount(entry);
+}
+
+// Summen in Cent berechnen (wird auch vom Dashboard und der Monatshistorie verwendet)
+export function calculateTotals(incomes: FinancialEntry[], expenses: FinancialEntry[]) {
+  const totalIncome = incomes.reduce((sum, entry) => sum + getEntryAmount(entry), 0);
+  const totalExpenses = expenses.reduce((sum, entry) => sum + getEntryAmount(entry), 0);
+  const balance = totalIncome - totalExpenses;
+  return { totalIncome, totalExpenses, balance };
+}
+
+export interface CategoryAmount {
+  category: string;
+  cents: number;
+}
+
+// Ausgaben nach Kategorie (gleichnamige Zeilen zusammengefasst), größte zuerst
+export function getCategoryBreakdown(expenses: FinancialEntry[]): CategoryAmount[] {
+  const totals = new Map<string, number>();
+  expenses.forEach((entry) => {
+    const category = entry.category.trim() || 'Uncategorized';
+    totals.set(category, (totals.get(category) ?? 0) + getEntryAmount(entry));
+  });
+  return Array.from(totals, ([category, cents]) => ({ category, cents }))
+    .filter(({ cents }) => cents > 0)
+    .sort((a, b) => b.cents - a.cents);
+}
+
+// Sparquote in Prozent: Anteil des Einkommens, der übrig bleibt; null ohne Einkommen
+export function getSavingsRate(totalIncome: number, balance: number): number | null {
+  return totalIncome > 0 ? (balance / totalIncome) * 100 : null;
+}
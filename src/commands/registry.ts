@@ -0,0 +1,50 @@
+import { useEffect } from 'react';
+import type { Route, TabId } from '../routing/hashRoute';
+
+// --------------------------------------------------------
+//    Befehlsregister für die Befehlspalette (Strg/Cmd+K)
+// --------------------------------------------------------
+// Tracker melden hier ihre Befehle an. Ein Provider wird bei jedem Öffnen der
+// Palette neu aufgerufen und kann so die aktuellen Daten aus den Repositories lesen.
+
+export interface Command {
+  id: string;
+  title: string;
+  // Überschrift der Gruppe in der Palette, z. B. "Mood"
+  section: string;
+  keywords?: string[];
+  // Ist ein prompt gesetzt, fragt die Palette vor dem Ausführen nach einem Text
+  prompt?: string;
+  run: (input?: string) => void | Promise<void>;
+}
+
+export interface CommandContext {
+  navigate: (target: Partial<Route> & { tab: TabId }) => void;
+}
+
+export type CommandProvider = (context: CommandContext) => Command[] | Promise<Command[]>;
+
+const providers = new Map<string, CommandProvider>();
+
+export function registerCommands(source: string, provider: CommandProvider): () => void {
+  providers.set(source, provider);
+  return () => {
+    if (providers.get(source) === provider) providers.delete(source);
+  };
+}
+
+export async function collectCommands(context: CommandContext): Promise<Command[]> {
+  const results = await Promise.allSettled(
+    Array.from(providers.values(), async (provider) => provider(context))
+  );
+  return results.flatMap((result) => {
+    if (result.status === 'fulfilled') return result.value;
+    console.error('Fehler beim Laden von Befehlen', result.reason);
+    return [];
+  });
+}
+
+// Für Befehle, die vom Zustand einer Komponente abhängen
+export function useRegisterCommands(source: string, provider: CommandProvider) {
+  useEffect(() => registerCommands(source, provider), [source, provider]);
+}
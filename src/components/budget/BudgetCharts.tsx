@@ -0,0 +1,162 @@
+import React from 'react';
+import {
+  PieChart,
+  Pie,
+  Cell,
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import type { FinancialEntry } from '../../storage/types';
+import type { MonthSummary } from '../../budget/periods';
+import { getCategoryBreakdown, getSavingsRate } from '../../budget/totals';
+import { formatMonth } from '../../utils/dates';
+
+interface BudgetChartsProps {
+  selectedMonth: string;
+  monthExpenses: FinancialEntry[];
+  history: MonthSummary[];
+  // Cent -> Anzeige in der gewählten Währung
+  formatAmount: (cents: number) => string;
+}
+
+// Wie viele Monate der Verlauf zurückreicht
+const TREND_MONTHS = 12;
+
+const CATEGORY_COLORS = ['#3b82f6', '#22c55e', '#eab308', '#ef4444', '#a855f7', '#14b8a6', '#f97316', '#ec4899'];
+
+const AXIS_TICK = { fill: '#9CA3AF', fontSize: 12 };
+const TOOLTIP_STYLE = { backgroundColor: '#1f2937', border: 'none', borderRadius: '0.5rem', color: '#fff' };
+
+const ChartCard: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="bg-gray-700 p-3 sm:p-4 rounded">
+    <h3 className="text-base sm:text-lg font-semibold text-white mb-2">{title}</h3>
+    {children}
+  </div>
+);
+
+const EmptyChart: React.FC<{ text: string }> = ({ text }) => (
+  <div className="h-64 flex items-center justify-center text-sm text-gray-400">{text}</div>
+);
+
+// Diagramme zum Budget; werden aus den aktuellen Einträgen berechnet und
+// aktualisieren sich daher bei jeder Eingabe mit
+const BudgetCharts: React.FC<BudgetChartsProps> = ({ selectedMonth, monthExpenses, history, formatAmount }) => {
+  const breakdown = getCategoryBreakdown(monthExpenses);
+
+  // Verlauf bis einschließlich des ausgewählten Monats, älteste links
+  const trend = history
+    .filter((summary) => summary.month <= selectedMonth)
+    .slice(0, TREND_MONTHS)
+    .reverse()
+    .map((summary) => ({
+      month: formatMonth(summary.month, 'short'),
+      income: summary.totalIncome,
+      expenses: summary.totalExpenses,
+      savingsRate: getSavingsRate(summary.totalIncome, summary.balance),
+    }));
+  const hasSavingsRate = trend.some((point) => point.savingsRate !== null);
+
+  const formatTooltipAmount = (value: number) => formatAmount(value);
+
+  return (
+    <div className="mt-4 sm:mt-6 bg-gray-800 rounded-lg p-3 sm:p-4">
+      <h2 className="text-lg sm:text-xl font-bold text-white mb-2 sm:mb-4">Charts</h2>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-2 sm:gap-4">
+        <ChartCard title={`Expenses by category · ${formatMonth(selectedMonth, 'short')}`}>
+          {breakdown.length === 0 ? (
+            <EmptyChart text="No expenses this month." />
+          ) : (
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie
+                    data={breakdown}
+                    dataKey="cents"
+                    nameKey="category"
+                    innerRadius="55%"
+                    outerRadius="80%"
+                    paddingAngle={2}
+                    isAnimationActive={false}
+                  >
+                    {breakdown.map((item, index) => (
+                      <Cell key={item.category} fill={CATEGORY_COLORS[index % CATEGORY_COLORS.length]} stroke="none" />
+                    ))}
+                  </Pie>
+                  <Tooltip formatter={formatTooltipAmount} contentStyle={TOOLTIP_STYLE} itemStyle={{ color: '#fff' }} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </ChartCard>
+
+        <ChartCard title="Income vs. expenses">
+          {trend.length === 0 ? (
+            <EmptyChart text="No months recorded yet." />
+          ) : (
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={trend}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" />
+                  <XAxis dataKey="month" tick={AXIS_TICK} />
+                  <YAxis tick={AXIS_TICK} tickFormatter={(value: number) => String(Math.round(value / 100))} width={48} />
+                  <Tooltip
+                    formatter={formatTooltipAmount}
+                    contentStyle={TOOLTIP_STYLE}
+                    cursor={{ fill: 'rgba(255, 255, 255, 0.05)' }}
+                  />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Bar dataKey="income" name="Income" fill="#22c55e" isAnimationActive={false} />
+                  <Bar dataKey="expenses" name="Expenses" fill="#ef4444" isAnimationActive={false} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </ChartCard>
+
+        <div className="lg:col-span-2">
+          <ChartCard title="Savings rate">
+            {!hasSavingsRate ? (
+              <EmptyChart text="Add income to see the savings rate." />
+            ) : (
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={trend}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" />
+                    <XAxis dataKey="month" tick={AXIS_TICK} />
+                    <YAxis tick={AXIS_TICK} tickFormatter={(value: number) => `${value}%`} width={48} />
+                    <ReferenceLine y={0} stroke="#9CA3AF" />
+                    <Tooltip
+                      formatter={(value: number) => `${value.toFixed(1)}%`}
+                      contentStyle={TOOLTIP_STYLE}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="savingsRate"
+                      name="Savings rate"
+                      stroke="#3b82f6"
+                      strokeWidth={2}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </ChartCard>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetCharts;
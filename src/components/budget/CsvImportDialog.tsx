@@ -0,0 +1,399 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { FileUp, Plus, Save, X } from 'lucide-react';
+import { useIndexedDB } from '../../storage/useIndexedDB';
+import { useSettings } from '../../hooks/useSettings';
+import type { BankProfile, BudgetPeriod, CategoryRule, FinancialEntry } from '../../storage/types';
+import {
+  BUILTIN_BANK_PROFILES,
+  ImportedTransaction,
+  addImportedTransactions,
+  categorize,
+  countExistingTransactions,
+  getDuplicateKey,
+  parseBankStatement,
+} from '../../budget/csvImport';
+import { createEntryId } from '../../budget/periods';
+import { formatMoney, toMoney } from '../../utils/money';
+
+interface BudgetState {
+  periods: BudgetPeriod[];
+  incomes: FinancialEntry[];
+  expenses: FinancialEntry[];
+}
+
+interface CsvImportDialogProps extends BudgetState {
+  onImport: (next: BudgetState, count: number) => void;
+  onClose: () => void;
+}
+
+type RowStatus = 'new' | 'duplicate' | 'income';
+
+// Ohne passende Regel oder Auswahl landen Buchungen hier
+const FALLBACK_CATEGORY = 'Uncategorized';
+
+const COLUMN_LABELS: Record<keyof BankProfile['columns'], string> = {
+  date: 'Date',
+  amount: 'Amount',
+  payee: 'Payee',
+  note: 'Note',
+};
+
+const STATUS_LABELS: Record<RowStatus, string> = {
+  new: 'New',
+  duplicate: 'Duplicate',
+  income: 'Incoming – skipped',
+};
+
+const readFile = (file: File, encoding: string) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file, encoding);
+  });
+
+const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ periods, incomes, expenses, onImport, onClose }) => {
+  const [savedProfiles, setSavedProfiles] = useIndexedDB('bankProfiles', []);
+  const [rules, setRules] = useIndexedDB('categoryRules', []);
+  const [{ currency, locale }] = useSettings();
+
+  // Gespeicherte Profile überschreiben eingebaute mit derselben id
+  const profiles = useMemo(
+    () => [
+      ...BUILTIN_BANK_PROFILES.filter((builtin) => !savedProfiles.some((saved) => saved.id === builtin.id)),
+      ...savedProfiles,
+    ],
+    [savedProfiles]
+  );
+  const [profile, setProfile] = useState<BankProfile>(BUILTIN_BANK_PROFILES[0]);
+  const [file, setFile] = useState<File | null>(null);
+  const [text, setText] = useState('');
+  const [excluded, setExcluded] = useState<number[]>([]);
+  const [categoryOverrides, setCategoryOverrides] = useState<Record<number, string>>({});
+  const [newRule, setNewRule] = useState<Omit<CategoryRule, 'id'>>({ pattern: '', field: 'any', category: '' });
+
+  // Kodierung gehört zum Profil – bei einem Wechsel die Datei neu einlesen
+  useEffect(() => {
+    if (!file) return;
+    readFile(file, profile.encoding)
+      .then(setText)
+      .catch((error) => {
+        console.error('Fehler beim Lesen der Datei', error);
+        alert('Could not read file');
+      });
+  }, [file, profile.encoding]);
+
+  const parsed = useMemo(() => (text ? parseBankStatement(text, profile) : null), [text, profile]);
+
+  const categories = useMemo(
+    () =>
+      Array.from(new Set(expenses.map((entry) => entry.category.trim()).filter(Boolean))).sort((a, b) =>
+        a.localeCompare(b)
+      ),
+    [expenses]
+  );
+
+  // Status je Zeile: Eingänge werden übersprungen, vor dem Import schon gespeicherte Buchungen
+  // als Duplikat markiert
+  const rows = useMemo(() => {
+    const existing = countExistingTransactions(expenses);
+    return (parsed?.transactions ?? []).map((transaction) => {
+      const key = getDuplicateKey(transaction.date, transaction.amount, transaction.payee);
+      const remaining = existing.get(key) ?? 0;
+      const isDuplicate = transaction.amount < 0 && remaining > 0;
+      if (isDuplicate) existing.set(key, remaining - 1);
+      const status: RowStatus = transaction.amount >= 0 ? 'income' : isDuplicate ? 'duplicate' : 'new';
+      return { transaction, status };
+    });
+  }, [parsed, expenses]);
+
+  const getCategory = (transaction: ImportedTransaction) =>
+    categoryOverrides[transaction.line] ?? categorize(transaction, rules) ?? FALLBACK_CATEGORY;
+  const isSelected = (line: number, status: RowStatus) =>
+    status === 'new' ? !excluded.includes(line) : excluded.includes(line);
+  const toggleRow = (line: number) =>
+    setExcluded((prev) => (prev.includes(line) ? prev.filter((l) => l !== line) : [...prev, line]));
+
+  const selectedRows = rows.filter(
+    ({ transaction, status }) => status !== 'income' && isSelected(transaction.line, status)
+  );
+
+  const selectProfile = (id: string) => {
+    const next = profiles.find((candidate) => candidate.id === id);
+    if (next) setProfile(next);
+  };
+
+  const updateColumn = (column: keyof BankProfile['columns'], header: string) =>
+    setProfile((prev) => ({ ...prev, columns: { ...prev.columns, [column]: header } }));
+
+  const saveProfile = () => {
+    const isBuiltin = BUILTIN_BANK_PROFILES.some((builtin) => builtin.id === profile.id);
+    const name = window.prompt('Profile name', isBuiltin ? `${profile.name} (custom)` : profile.name);
+    if (!name?.trim()) return;
+    const saved: BankProfile = { ...profile, id: isBuiltin ? `profile-${Date.now()}` : profile.id, name: name.trim() };
+    setSavedProfiles((prev) => [...prev.filter((candidate) => candidate.id !== saved.id), saved]);
+    setProfile(saved);
+  };
+
+  const addRule = () => {
+    if (!newRule.pattern.trim() || !newRule.category.trim()) return;
+    setRules((prev) => [...prev, { ...newRule, id: createEntryId(), pattern: newRule.pattern.trim() }]);
+    setNewRule({ pattern: '', field: 'any', category: '' });
+  };
+
+  const handleImport = () => {
+    if (selectedRows.length === 0) return;
+    const next = addImportedTransactions(
+      selectedRows.map(({ transaction }) => ({ transaction, category: getCategory(transaction) })),
+      { periods, incomes, expenses },
+      currency
+    );
+    onImport(next, selectedRows.length);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-start justify-center p-4 overflow-y-auto" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl bg-gray-800 rounded-lg shadow-xl text-white"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Import bank statement"
+      >
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 className="text-lg sm:text-xl font-bold">Import bank statement (CSV)</h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-700 rounded" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Datei und Bankprofil */}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <label className="flex items-center gap-2 bg-blue-500 hover:bg-blue-600 px-3 py-2 rounded cursor-pointer text-sm">
+              <FileUp className="w-4 h-4" />
+              {file ? file.name : 'Choose CSV file'}
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null);
+                  setExcluded([]);
+                  setCategoryOverrides({});
+                }}
+              />
+            </label>
+            <select
+              value={profile.id}
+              onChange={(e) => selectProfile(e.target.value)}
+              className="bg-gray-700 rounded p-2 text-sm"
+              aria-label="Bank profile"
+            >
+              {profiles.map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={profile.encoding}
+              onChange={(e) =>
+                setProfile((prev) => ({ ...prev, encoding: e.target.value as BankProfile['encoding'] }))
+              }
+              className="bg-gray-700 rounded p-2 text-sm"
+              aria-label="File encoding"
+            >
+              <option value="utf-8">UTF-8</option>
+              <option value="windows-1252">Windows-1252 (ISO-8859-1)</option>
+            </select>
+          </div>
+
+          {/* Spaltenzuordnung */}
+          {parsed && (
+            <div className="bg-gray-700/50 rounded p-3 space-y-2">
+              <div className="flex justify-between items-center">
+                <h3 className="font-semibold text-sm">Column mapping</h3>
+                <button
+                  onClick={saveProfile}
+                  className="flex items-center gap-1 text-xs px-2 py-1 bg-gray-600 rounded hover:bg-gray-500"
+                >
+                  <Save className="w-3 h-3" /> Save as profile
+                </button>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {(Object.keys(COLUMN_LABELS) as (keyof BankProfile['columns'])[]).map((column) => (
+                  <label key={column} className="text-xs text-gray-300 space-y-1">
+                    <span>{COLUMN_LABELS[column]}</span>
+                    <select
+                      value={profile.columns[column]}
+                      onChange={(e) => updateColumn(column, e.target.value)}
+                      className="w-full bg-gray-700 rounded p-1 text-sm text-white"
+                    >
+                      <option value="">–</option>
+                      {!parsed.headers.includes(profile.columns[column]) && profile.columns[column] && (
+                        <option value={profile.columns[column]}>{profile.columns[column]} (missing)</option>
+                      )}
+                      {parsed.headers.filter(Boolean).map((header) => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {parsed && parsed.errors.length > 0 && (
+            <ul className="bg-red-600/20 text-red-200 rounded p-3 text-xs space-y-1 max-h-24 overflow-y-auto">
+              {parsed.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          {/* Vorschau */}
+          {rows.length > 0 && (
+            <div className="max-h-[40vh] overflow-auto rounded border border-gray-700">
+              <table className="w-full text-xs sm:text-sm">
+                <thead className="bg-gray-700 sticky top-0">
+                  <tr className="text-left">
+                    <th className="p-2" />
+                    <th className="p-2">Date</th>
+                    <th className="p-2">Payee / note</th>
+                    <th className="p-2 text-right">Amount</th>
+                    <th className="p-2">Category</th>
+                    <th className="p-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(({ transaction, status }) => (
+                    <tr
+                      key={transaction.line}
+                      className={`border-t border-gray-700 ${status === 'new' ? '' : 'text-gray-400'}`}
+                    >
+                      <td className="p-2">
+                        <input
+                          type="checkbox"
+                          checked={status !== 'income' && isSelected(transaction.line, status)}
+                          disabled={status === 'income'}
+                          onChange={() => toggleRow(transaction.line)}
+                          aria-label={`Import line ${transaction.line}`}
+                        />
+                      </td>
+                      <td className="p-2 whitespace-nowrap">{transaction.date}</td>
+                      <td className="p-2 max-w-[16rem]">
+                        <div className="truncate">{transaction.payee || '–'}</div>
+                        <div className="truncate text-xs text-gray-400">{transaction.note}</div>
+                      </td>
+                      <td className="p-2 text-right whitespace-nowrap">
+                        {formatMoney(toMoney(transaction.amount, currency), locale)}
+                      </td>
+                      <td className="p-2">
+                        {status !== 'income' && (
+                          <select
+                            value={getCategory(transaction)}
+                            onChange={(e) =>
+                              setCategoryOverrides((prev) => ({ ...prev, [transaction.line]: e.target.value }))
+                            }
+                            className="bg-gray-700 rounded p-1 max-w-[10rem]"
+                          >
+                            {[...new Set([...categories, getCategory(transaction), FALLBACK_CATEGORY])].map(
+                              (category) => (
+                                <option key={category} value={category}>
+                                  {category}
+                                </option>
+                              )
+                            )}
+                          </select>
+                        )}
+                      </td>
+                      <td className={`p-2 whitespace-nowrap ${status === 'duplicate' ? 'text-yellow-400' : ''}`}>
+                        {STATUS_LABELS[status]}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Regeln für die automatische Zuordnung */}
+          <details className="bg-gray-700/50 rounded p-3">
+            <summary className="cursor-pointer font-semibold text-sm">
+              Categorisation rules ({rules.length})
+            </summary>
+            <div className="mt-2 space-y-2 text-sm">
+              {rules.map((rule) => (
+                <div key={rule.id} className="flex items-center gap-2">
+                  <span className="flex-1 truncate">
+                    {rule.field === 'any' ? 'Payee or note' : COLUMN_LABELS[rule.field]} contains "{rule.pattern}" →{' '}
+                    <span className="font-medium">{rule.category}</span>
+                  </span>
+                  <button
+                    onClick={() => setRules((prev) => prev.filter((candidate) => candidate.id !== rule.id))}
+                    className="p-1 hover:bg-gray-600 rounded"
+                    aria-label="Delete rule"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <div className="flex flex-wrap gap-2">
+                <select
+                  value={newRule.field}
+                  onChange={(e) => setNewRule((prev) => ({ ...prev, field: e.target.value as CategoryRule['field'] }))}
+                  className="bg-gray-700 rounded p-1"
+                  aria-label="Rule field"
+                >
+                  <option value="any">Payee or note</option>
+                  <option value="payee">Payee</option>
+                  <option value="note">Note</option>
+                </select>
+                <input
+                  type="text"
+                  value={newRule.pattern}
+                  onChange={(e) => setNewRule((prev) => ({ ...prev, pattern: e.target.value }))}
+                  placeholder="contains, e.g. REWE"
+                  className="flex-1 min-w-[8rem] bg-gray-700 rounded p-1"
+                />
+                <input
+                  type="text"
+                  list="csv-import-categories"
+                  value={newRule.category}
+                  onChange={(e) => setNewRule((prev) => ({ ...prev, category: e.target.value }))}
+                  placeholder="Category"
+                  className="flex-1 min-w-[8rem] bg-gray-700 rounded p-1"
+                />
+                <datalist id="csv-import-categories">
+                  {categories.map((category) => (
+                    <option key={category} value={category} />
+                  ))}
+                </datalist>
+                <button onClick={addRule} className="p-1 bg-green-500 rounded hover:bg-green-600" aria-label="Add rule">
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </details>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-700">
+          <button onClick={onClose} className="px-3 py-2 bg-gray-600 rounded hover:bg-gray-500 text-sm">
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={selectedRows.length === 0}
+            className="px-3 py-2 bg-green-500 rounded hover:bg-green-600 text-sm disabled:opacity-50"
+          >
+            Import {selectedRows.length} transactions
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportDialog;
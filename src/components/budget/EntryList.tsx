@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { Repeat, Receipt, Users } from 'lucide-react';
+import TransactionLedger, { SpentBar } from './TransactionLedger';
+import MoneyInput from '../shared/MoneyInput';
+import type { AppSettings, CostSplit, FinancialEntry, HouseholdMember, RecurrenceInterval } from '../../storage/types';
+import { getItemElementId } from '../../routing/hashRoute';
+import { SPLIT_LABELS } from '../../budget/settlement';
+
+interface EntryListProps {
+  title: string;
+  addLabel: string;
+  entries: FinancialEntry[];
+  onAdd: () => void;
+  onUpdate: (id: string, changes: Partial<FinancialEntry>) => void;
+  onDelete: (id: string) => void;
+  settings: AppSettings;
+  // Zahler und Aufteilung gibt es erst ab zwei Mitgliedern
+  members?: HouseholdMember[];
+  // Ausgaben: Buchungen erfassen, amount bleibt der geplante Betrag
+  withLedger?: boolean;
+}
+
+const RECURRENCE_LABELS: Record<RecurrenceInterval, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
+
+// Eigene Anteile starten gleichmäßig verteilt
+const createSplit = (mode: CostSplit['mode'], members: HouseholdMember[]): CostSplit =>
+  mode === 'custom'
+    ? {
+        mode,
+        shares: Object.fromEntries(members.map((member) => [member.id, Math.round(100 / members.length)])),
+      }
+    : { mode };
+
+interface HouseholdAssignmentProps {
+  entry: FinancialEntry;
+  members: HouseholdMember[];
+  isExpense: boolean;
+  onUpdate: (changes: Partial<FinancialEntry>) => void;
+}
+
+const HouseholdAssignment: React.FC<HouseholdAssignmentProps> = ({ entry, members, isExpense, onUpdate }) => {
+  const customShares = entry.split?.mode === 'custom' ? entry.split.shares : null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-300">
+      <Users className={`w-3 h-3 ${entry.payerId ? 'text-blue-400' : 'text-gray-500'}`} />
+      <select
+        value={entry.payerId ?? ''}
+        onChange={(e) => onUpdate({ payerId: e.target.value || undefined })}
+        className="bg-gray-700 rounded p-1"
+        aria-label={isExpense ? 'Paid by' : 'Received by'}
+      >
+        <option value="">{isExpense ? 'Paid by…' : 'Received by…'}</option>
+        {members.map((member) => (
+          <option key={member.id} value={member.id}>
+            {member.name}
+          </option>
+        ))}
+      </select>
+      {isExpense && (
+        <select
+          value={entry.split?.mode ?? 'equal'}
+          onChange={(e) => onUpdate({ split: createSplit(e.target.value as CostSplit['mode'], members) })}
+          className="bg-gray-700 rounded p-1"
+          aria-label="Split"
+        >
+          {Object.entries(SPLIT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      )}
+      {isExpense &&
+        customShares &&
+        members.map((member) => (
+          <label key={member.id} className="flex items-center gap-1">
+            {member.name}
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={customShares[member.id] ?? 0}
+              onChange={(e) =>
+                onUpdate({
+                  split: {
+                    mode: 'custom',
+                    shares: {
+                      ...customShares,
+                      [member.id]: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)),
+                    },
+                  },
+                })
+              }
+              className="w-14 bg-gray-700 rounded p-1"
+            />
+            %
+          </label>
+        ))}
+    </div>
+  );
+};
+
+// Eine Spalte (Einnahmen oder Ausgaben) des ausgewählten Monats
+const EntryList: React.FC<EntryListProps> = ({
+  title,
+  addLabel,
+  entries,
+  onAdd,
+  onUpdate,
+  onDelete,
+  settings,
+  members = [],
+  withLedger = false,
+}) => {
+  const [openLedgers, setOpenLedgers] = useState<string[]>([]);
+  const toggleLedger = (id: string) =>
+    setOpenLedgers((prev) => (prev.includes(id) ? prev.filter((openId) => openId !== id) : [...prev, id]));
+
+  return (
+    <div>
+      <h2 className="text-lg sm:text-xl font-bold text-white mb-2 sm:mb-4">{title}</h2>
+      <div className="bg-gray-800 rounded-lg p-3 sm:p-4">
+        {entries.map((entry) => (
+          <div
+            key={entry.id}
+            id={getItemElementId('budget', entry.id)}
+            className="mb-2 sm:mb-4 space-y-2 rounded"
+          >
+            <div className="flex flex-col sm:flex-row sm:items-start space-y-2 sm:space-y-0 sm:space-x-2">
+              <input
+                type="text"
+                value={entry.category}
+                onChange={(e) => onUpdate(entry.id, { category: e.target.value })}
+                className="w-full sm:w-1/3 p-2 bg-gray-700 text-white rounded text-sm"
+                placeholder="Category"
+              />
+              <MoneyInput
+                value={entry.amount}
+                currency={settings.currency}
+                locale={settings.locale}
+                onChange={(amount) => amount && onUpdate(entry.id, { amount })}
+                className="w-full sm:w-1/3"
+                placeholder={withLedger ? 'Planned' : 'Amount'}
+                title={withLedger ? 'Planned amount' : undefined}
+              />
+              <input
+                type="text"
+                value={entry.purpose}
+                onChange={(e) => onUpdate(entry.id, { purpose: e.target.value })}
+                className="w-full sm:w-1/3 p-2 bg-gray-700 text-white rounded text-sm"
+                placeholder="Purpose"
+              />
+              <button
+                onClick={() => onDelete(entry.id)}
+                className="bg-red-500 text-white px-3 py-2 rounded self-start"
+              >
+                X
+              </button>
+            </div>
+
+            {/* Wiederholung */}
+            <div className="flex items-center gap-2 text-xs text-gray-300">
+              <Repeat className={`w-3 h-3 ${entry.recurrence ? 'text-blue-400' : 'text-gray-500'}`} />
+              <select
+                value={entry.recurrence?.interval ?? 'none'}
+                onChange={(e) =>
+                  onUpdate(entry.id, {
+                    recurrence:
+                      e.target.value === 'none'
+                        ? undefined
+                        : {
+                            interval: e.target.value as RecurrenceInterval,
+                            dueDay: entry.recurrence?.dueDay ?? 1,
+                          },
+                  })
+                }
+                className="bg-gray-700 rounded p-1"
+                aria-label="Recurrence"
+              >
+                <option value="none">One-off</option>
+                {Object.entries(RECURRENCE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {entry.recurrence && (
+                <label className="flex items-center gap-1">
+                  due on day
+                  <input
+                    type="number"
+                    min={1}
+                    max={31}
+                    value={entry.recurrence.dueDay}
+                    onChange={(e) =>
+                      onUpdate(entry.id, {
+                        recurrence: {
+                          ...entry.recurrence!,
+                          dueDay: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)),
+                        },
+                      })
+                    }
+                    className="w-14 bg-gray-700 rounded p-1"
+                  />
+                </label>
+              )}
+              {withLedger && (
+                <button
+                  onClick={() => toggleLedger(entry.id)}
+                  className={`ml-auto flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-600 ${
+                    openLedgers.includes(entry.id) ? 'bg-gray-700' : ''
+                  }`}
+                  aria-expanded={openLedgers.includes(entry.id)}
+                >
+                  <Receipt className="w-3 h-3" />
+                  {entry.transactions?.length ?? 0} transactions
+                </button>
+              )}
+            </div>
+
+            {/* Zahler und Aufteilung im Haushalt */}
+            {members.length > 1 && (
+              <HouseholdAssignment
+                entry={entry}
+                members={members}
+                isExpense={withLedger}
+                onUpdate={(changes) => onUpdate(entry.id, changes)}
+              />
+            )}
+
+            {withLedger && <SpentBar entry={entry} settings={settings} />}
+            {withLedger && openLedgers.includes(entry.id) && (
+              <TransactionLedger
+                entry={entry}
+                settings={settings}
+                onChange={(transactions) => onUpdate(entry.id, { transactions })}
+              />
+            )}
+          </div>
+        ))}
+        <button
+          onClick={onAdd}
+          className="bg-green-500 text-white px-3 py-2 rounded hover:bg-green-600 text-sm"
+        >
+          {addLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EntryList;
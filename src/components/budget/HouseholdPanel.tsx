@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { ArrowRight, Users, X } from 'lucide-react';
+import type { FinancialEntry, HouseholdMember } from '../../storage/types';
+import { calculateSettlement } from '../../budget/settlement';
+import { formatMonth } from '../../utils/dates';
+
+interface HouseholdPanelProps {
+  members: HouseholdMember[];
+  selectedMonth: string;
+  monthIncomes: FinancialEntry[];
+  monthExpenses: FinancialEntry[];
+  onAddMember: (name: string) => void;
+  onRenameMember: (id: string, name: string) => void;
+  onDeleteMember: (member: HouseholdMember) => void;
+  // Cent -> Anzeige in der gewählten Währung
+  formatAmount: (cents: number) => string;
+}
+
+// Haushaltsmitglieder und Abrechnung des ausgewählten Monats: wer schuldet wem wie viel
+const HouseholdPanel: React.FC<HouseholdPanelProps> = ({
+  members,
+  selectedMonth,
+  monthIncomes,
+  monthExpenses,
+  onAddMember,
+  onRenameMember,
+  onDeleteMember,
+  formatAmount,
+}) => {
+  const [newMember, setNewMember] = useState('');
+  const settlement = calculateSettlement(monthIncomes, monthExpenses, members);
+  const getName = (id: string) => members.find((member) => member.id === id)?.name ?? '?';
+
+  const addMember = () => {
+    if (!newMember.trim()) return;
+    onAddMember(newMember.trim());
+    setNewMember('');
+  };
+
+  return (
+    <div className="mt-4 sm:mt-6 bg-gray-800 rounded-lg p-3 sm:p-4 text-white">
+      <h2 className="text-lg sm:text-xl font-bold flex items-center gap-2 mb-2 sm:mb-4">
+        <Users className="w-5 h-5" /> Household
+      </h2>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {members.map((member) => (
+          <div key={member.id} className="flex items-center bg-gray-700 rounded">
+            <input
+              type="text"
+              value={member.name}
+              onChange={(e) => onRenameMember(member.id, e.target.value)}
+              className="bg-transparent p-2 text-sm w-32"
+              aria-label="Member name"
+            />
+            <button
+              onClick={() => onDeleteMember(member)}
+              className="p-2 hover:bg-gray-600 rounded"
+              aria-label={`Remove ${member.name}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        <input
+          type="text"
+          value={newMember}
+          onChange={(e) => setNewMember(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addMember()}
+          className="p-2 bg-gray-700 rounded text-sm w-36"
+          placeholder="New member"
+        />
+        <button onClick={addMember} className="bg-green-500 px-3 py-2 rounded hover:bg-green-600 text-sm">
+          + Add
+        </button>
+      </div>
+
+      {members.length < 2 ? (
+        <p className="text-sm text-gray-400">
+          Add at least two members to assign payers and split expenses.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <h3 className="text-base font-semibold">Settlement for {formatMonth(selectedMonth)}</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400">
+                  <th className="py-2 pr-4 font-medium">Member</th>
+                  <th className="py-2 pr-4 font-medium text-right">Paid</th>
+                  <th className="py-2 pr-4 font-medium text-right">Share</th>
+                  <th className="py-2 font-medium text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {settlement.balances.map((balance) => (
+                  <tr key={balance.memberId} className="border-t border-gray-700">
+                    <td className="py-2 pr-4">{getName(balance.memberId)}</td>
+                    <td className="py-2 pr-4 text-right">{formatAmount(balance.paid)}</td>
+                    <td className="py-2 pr-4 text-right">{formatAmount(balance.share)}</td>
+                    <td
+                      className={`py-2 text-right font-semibold ${
+                        balance.net > 0 ? 'text-green-400' : balance.net < 0 ? 'text-red-400' : ''
+                      }`}
+                    >
+                      {formatAmount(balance.net)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {settlement.transfers.length === 0 ? (
+            <p className="text-sm text-gray-300">Everyone is settled up.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {settlement.transfers.map((transfer) => (
+                <li key={`${transfer.fromId}-${transfer.toId}`} className="flex items-center gap-2">
+                  <span className="font-semibold">{getName(transfer.fromId)}</span>
+                  <ArrowRight className="w-4 h-4 text-gray-400" />
+                  <span className="font-semibold">{getName(transfer.toId)}</span>
+                  <span className="ml-auto">{formatAmount(transfer.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {settlement.unassignedCount > 0 && (
+            <p className="text-xs text-yellow-400">
+              {settlement.unassignedCount} expense{settlement.unassignedCount === 1 ? ' has' : 's have'} no payer and
+              {settlement.unassignedCount === 1 ? ' is' : ' are'} not included.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HouseholdPanel;
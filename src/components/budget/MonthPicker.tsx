@@ -0,0 +1,45 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { addMonths, formatMonth } from '../../utils/dates';
+
+interface MonthPickerProps {
+  month: string;
+  currentMonth: string;
+  onChange: (month: string) => void;
+}
+
+const MonthPicker: React.FC<MonthPickerProps> = ({ month, currentMonth, onChange }) => (
+  <div className="flex items-center gap-2">
+    <button
+      onClick={() => onChange(addMonths(month, -1))}
+      className="p-2 bg-gray-700 rounded hover:bg-gray-600"
+      aria-label="Previous month"
+    >
+      <ChevronLeft className="w-4 h-4" />
+    </button>
+    <input
+      type="month"
+      value={month}
+      onChange={(e) => e.target.value && onChange(e.target.value)}
+      className="bg-gray-700 text-white rounded p-2 text-sm"
+      aria-label={formatMonth(month)}
+    />
+    <button
+      onClick={() => onChange(addMonths(month, 1))}
+      className="p-2 bg-gray-700 rounded hover:bg-gray-600"
+      aria-label="Next month"
+    >
+      <ChevronRight className="w-4 h-4" />
+    </button>
+    {month !== currentMonth && (
+      <button
+        onClick={() => onChange(currentMonth)}
+        className="px-3 py-2 bg-gray-700 rounded hover:bg-gray-600 text-sm"
+      >
+        Today
+      </button>
+    )}
+  </div>
+);
+
+export default MonthPicker;
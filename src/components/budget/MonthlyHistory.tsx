@@ -0,0 +1,56 @@
+import React from 'react';
+import type { MonthSummary } from '../../budget/periods';
+import { formatMonth } from '../../utils/dates';
+
+interface MonthlyHistoryProps {
+  history: MonthSummary[];
+  selectedMonth: string;
+  onSelect: (month: string) => void;
+  // Cent -> Anzeige in der gewählten Währung
+  formatAmount: (cents: number) => string;
+}
+
+const balanceColor = (balance: number) =>
+  balance > 0 ? 'text-green-400' : balance < 0 ? 'text-red-400' : 'text-white';
+
+const MonthlyHistory: React.FC<MonthlyHistoryProps> = ({ history, selectedMonth, onSelect, formatAmount }) => (
+  <div className="mt-4 sm:mt-6 bg-gray-800 rounded-lg p-3 sm:p-4">
+    <h2 className="text-lg sm:text-xl font-bold text-white mb-2 sm:mb-4">History</h2>
+    {history.length === 0 ? (
+      <p className="text-sm text-gray-400">No months recorded yet.</p>
+    ) : (
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-white">
+          <thead>
+            <tr className="text-left text-gray-400">
+              <th className="py-2 pr-4 font-medium">Month</th>
+              <th className="py-2 pr-4 font-medium text-right">Income</th>
+              <th className="py-2 pr-4 font-medium text-right">Expenses</th>
+              <th className="py-2 font-medium text-right">Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history.map((summary) => (
+              <tr
+                key={summary.month}
+                onClick={() => onSelect(summary.month)}
+                className={`cursor-pointer border-t border-gray-700 ${
+                  summary.month === selectedMonth ? 'bg-blue-500/20' : 'hover:bg-gray-700'
+                }`}
+              >
+                <td className="py-2 pr-4">{formatMonth(summary.month)}</td>
+                <td className="py-2 pr-4 text-right">{formatAmount(summary.totalIncome)}</td>
+                <td className="py-2 pr-4 text-right">{formatAmount(summary.totalExpenses)}</td>
+                <td className={`py-2 text-right font-semibold ${balanceColor(summary.balance)}`}>
+                  {formatAmount(summary.balance)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+  </div>
+);
+
+export default MonthlyHistory;
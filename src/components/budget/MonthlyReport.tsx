@@ -0,0 +1,269 @@
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Download, Printer, X } from 'lucide-react';
+import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, Legend } from 'recharts';
+import type { AppSettings, FinancialEntry, HouseholdMember } from '../../storage/types';
+import type { MonthSummary } from '../../budget/periods';
+import {
+  calculateTotals,
+  getCategoryBreakdown,
+  getEntryAmount,
+  getPlannedAmount,
+  getSavingsRate,
+} from '../../budget/totals';
+import { formatMonth } from '../../utils/dates';
+import { formatMoney, toMoney } from '../../utils/money';
+
+interface MonthlyReportProps {
+  month: string;
+  monthIncomes: FinancialEntry[];
+  monthExpenses: FinancialEntry[];
+  history: MonthSummary[];
+  members: HouseholdMember[];
+  settings: AppSettings;
+  onExportCsv: () => void;
+  onClose: () => void;
+}
+
+// Monate im Verlaufsdiagramm des Berichts
+const REPORT_TREND_MONTHS = 6;
+
+const CHART_COLORS = ['#1d4ed8', '#15803d', '#a16207', '#b91c1c', '#7e22ce', '#0f766e', '#c2410c', '#be185d'];
+
+// Ausgaben nach Kategorie gruppiert, Reihenfolge wie im Budget
+function groupByCategory(entries: FinancialEntry[]): [string, FinancialEntry[]][] {
+  const groups = new Map<string, FinancialEntry[]>();
+  entries.forEach((entry) => {
+    const category = entry.category.trim() || 'Uncategorized';
+    groups.set(category, [...(groups.get(category) ?? []), entry]);
+  });
+  return Array.from(groups);
+}
+
+// Druckansicht eines Monats (z. B. für die Steuerberatung). Wird per Portal
+// direkt in <body> gerendert; beim Drucken blendet index.css alles andere aus.
+const MonthlyReport: React.FC<MonthlyReportProps> = ({
+  month,
+  monthIncomes,
+  monthExpenses,
+  history,
+  members,
+  settings,
+  onExportCsv,
+  onClose,
+}) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const formatAmount = (cents: number) => formatMoney(toMoney(cents, settings.currency), settings.locale);
+  const memberName = (id?: string) => members.find((member) => member.id === id)?.name ?? '';
+  const showMembers = members.length > 1;
+
+  const { totalIncome, totalExpenses, balance } = calculateTotals(monthIncomes, monthExpenses);
+  const savingsRate = getSavingsRate(totalIncome, balance);
+  const breakdown = getCategoryBreakdown(monthExpenses);
+  const trend = history
+    .filter((summary) => summary.month <= month)
+    .slice(0, REPORT_TREND_MONTHS)
+    .reverse()
+    .map((summary) => ({
+      month: formatMonth(summary.month, 'short'),
+      income: summary.totalIncome / 100,
+      expenses: summary.totalExpenses / 100,
+    }));
+  const notes = [...monthIncomes, ...monthExpenses].filter((entry) => entry.purpose.trim());
+
+  return createPortal(
+    <div className="print-report fixed inset-0 z-50 overflow-y-auto bg-white text-gray-900">
+      <div className="max-w-3xl mx-auto p-6 sm:p-10 space-y-8 text-sm">
+        {/* Aktionen – nicht im Ausdruck */}
+        <div className="flex flex-wrap justify-end gap-2 print:hidden">
+          <button
+            onClick={() => window.print()}
+            className="bg-blue-500 text-white px-3 py-2 rounded hover:bg-blue-600 flex items-center gap-2"
+          >
+            <Printer className="w-4 h-4" /> Print / Save as PDF
+          </button>
+          <button
+            onClick={onExportCsv}
+            className="bg-gray-200 px-3 py-2 rounded hover:bg-gray-300 flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" /> CSV
+          </button>
+          <button onClick={onClose} className="p-2 rounded hover:bg-gray-200" aria-label="Close report">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <header className="border-b border-gray-300 pb-4">
+          <h1 className="text-2xl font-bold">Household budget · {formatMonth(month)}</h1>
+          <p className="text-gray-500">
+            Created {new Date().toLocaleDateString(settings.locale)} · Amounts in {settings.currency}
+          </p>
+        </header>
+
+        {/* Summen */}
+        <section className="grid grid-cols-4 gap-4">
+          {[
+            ['Income', formatAmount(totalIncome)],
+            ['Expenses', formatAmount(totalExpenses)],
+            ['Balance', formatAmount(balance)],
+            ['Savings rate', savingsRate === null ? '–' : `${savingsRate.toFixed(1)}%`],
+          ].map(([label, value]) => (
+            <div key={label} className="border border-gray-300 rounded p-3">
+              <div className="text-gray-500">{label}</div>
+              <div className="text-lg font-bold">{value}</div>
+            </div>
+          ))}
+        </section>
+
+        {/* Einnahmen */}
+        <section className="break-inside-avoid">
+          <h2 className="text-lg font-bold mb-2">Income</h2>
+          <table className="w-full">
+            <thead>
+              <tr className="text-left border-b border-gray-400">
+                <th className="py-1 pr-2">Category</th>
+                <th className="py-1 pr-2">Purpose</th>
+                {showMembers && <th className="py-1 pr-2">Received by</th>}
+                <th className="py-1 text-right">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {monthIncomes.map((entry) => (
+                <tr key={entry.id} className="border-b border-gray-200">
+                  <td className="py-1 pr-2">{entry.category}</td>
+                  <td className="py-1 pr-2">{entry.purpose}</td>
+                  {showMembers && <td className="py-1 pr-2">{memberName(entry.payerId)}</td>}
+                  <td className="py-1 text-right">{formatAmount(getEntryAmount(entry))}</td>
+                </tr>
+              ))}
+              <tr className="font-bold">
+                <td className="py-1" colSpan={showMembers ? 3 : 2}>
+                  Total income
+                </td>
+                <td className="py-1 text-right">{formatAmount(totalIncome)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </section>
+
+        {/* Ausgaben nach Kategorie */}
+        <section>
+          <h2 className="text-lg font-bold mb-2">Expenses by category</h2>
+          <table className="w-full">
+            <thead>
+              <tr className="text-left border-b border-gray-400">
+                <th className="py-1 pr-2">Category / item</th>
+                <th className="py-1 pr-2">Purpose</th>
+                {showMembers && <th className="py-1 pr-2">Paid by</th>}
+                <th className="py-1 pr-2 text-right">Planned</th>
+                <th className="py-1 text-right">Actual</th>
+              </tr>
+            </thead>
+            {groupByCategory(monthExpenses).map(([category, entries]) => (
+              <tbody key={category} className="break-inside-avoid">
+                {entries.map((entry) => (
+                  <React.Fragment key={entry.id}>
+                    <tr className="border-b border-gray-200">
+                      <td className="py-1 pr-2 font-semibold">{category}</td>
+                      <td className="py-1 pr-2">{entry.purpose}</td>
+                      {showMembers && <td className="py-1 pr-2">{memberName(entry.payerId)}</td>}
+                      <td className="py-1 pr-2 text-right">{formatAmount(getPlannedAmount(entry))}</td>
+                      <td className="py-1 text-right">{formatAmount(getEntryAmount(entry))}</td>
+                    </tr>
+                    {(entry.transactions ?? []).map((transaction) => (
+                      <tr key={transaction.id} className="text-xs text-gray-600">
+                        <td className="py-0.5 pr-2 pl-4">{transaction.date}</td>
+                        <td className="py-0.5 pr-2" colSpan={showMembers ? 3 : 2}>
+                          {[transaction.payee, transaction.note].filter(Boolean).join(' · ')}
+                        </td>
+                        <td className="py-0.5 text-right">{formatMoney(transaction.amount, settings.locale)}</td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+                {entries.length > 1 && (
+                  <tr className="text-gray-600 italic">
+                    <td className="py-1" colSpan={showMembers ? 4 : 3}>
+                      Subtotal {category}
+                    </td>
+                    <td className="py-1 text-right">
+                      {formatAmount(entries.reduce((sum, entry) => sum + getEntryAmount(entry), 0))}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            ))}
+            <tbody>
+              <tr className="font-bold border-t border-gray-400">
+                <td className="py-1" colSpan={showMembers ? 4 : 3}>
+                  Total expenses
+                </td>
+                <td className="py-1 text-right">{formatAmount(totalExpenses)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </section>
+
+        {/* Diagramme mit fester Größe, damit sie im Ausdruck nicht neu vermessen werden */}
+        <section className="grid grid-cols-2 gap-4 break-inside-avoid">
+          <div>
+            <h2 className="text-lg font-bold mb-2">Expense breakdown</h2>
+            {breakdown.length === 0 ? (
+              <p className="text-gray-500">No expenses.</p>
+            ) : (
+              <PieChart width={320} height={260}>
+                <Pie
+                  data={breakdown.map((item) => ({ ...item, value: item.cents / 100 }))}
+                  dataKey="value"
+                  nameKey="category"
+                  innerRadius={50}
+                  outerRadius={90}
+                  isAnimationActive={false}
+                >
+                  {breakdown.map((item, index) => (
+                    <Cell key={item.category} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+                  ))}
+                </Pie>
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+              </PieChart>
+            )}
+          </div>
+          <div>
+            <h2 className="text-lg font-bold mb-2">Income vs. expenses</h2>
+            <BarChart width={320} height={260} data={trend}>
+              <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+              <YAxis tick={{ fontSize: 11 }} width={50} />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <Bar dataKey="income" name="Income" fill="#15803d" isAnimationActive={false} />
+              <Bar dataKey="expenses" name="Expenses" fill="#b91c1c" isAnimationActive={false} />
+            </BarChart>
+          </div>
+        </section>
+
+        {/* Notizen aus den Verwendungszwecken */}
+        {notes.length > 0 && (
+          <section className="break-inside-avoid">
+            <h2 className="text-lg font-bold mb-2">Notes</h2>
+            <ul className="list-disc pl-5 space-y-1">
+              {notes.map((entry) => (
+                <li key={entry.id}>
+                  <span className="font-semibold">{entry.category}:</span> {entry.purpose}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default MonthlyReport;
@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { CheckCircle, Link, PiggyBank, X } from 'lucide-react';
+import MoneyInput from '../shared/MoneyInput';
+import { useIndexedDB } from '../../storage/useIndexedDB';
+import type { AppSettings, Money, SavingsPot } from '../../storage/types';
+import { createEntryId } from '../../budget/periods';
+import {
+  addAllocation,
+  getLinkedItem,
+  getMonthlyNeeded,
+  getPotGoal,
+  getPotSaved,
+  getSuggestedAllocation,
+  getUnallocatedBalance,
+  isPotFull,
+} from '../../budget/savingsPots';
+import { formatMonth } from '../../utils/dates';
+import { formatMoney, toMoney } from '../../utils/money';
+
+interface SavingsPotsProps {
+  selectedMonth: string;
+  // Saldo des ausgewählten Monats in Cent
+  balance: number;
+  settings: AppSettings;
+  onNotify: (message: string, type: 'success' | 'error') => void;
+}
+
+const emptyForm = { name: '', wishlistItemId: '', target: null as Money | null, targetDate: '' };
+
+const SavingsPots: React.FC<SavingsPotsProps> = ({ selectedMonth, balance, settings, onNotify }) => {
+  const [pots, setPots] = useIndexedDB('savingsPots', []);
+  const [wishlist] = useIndexedDB('wishlist', []);
+  const [form, setForm] = useState(emptyForm);
+  const [isTargetValid, setIsTargetValid] = useState(true);
+  // Eingegebener Zuteilungsbetrag pro Topf
+  const [allocationInputs, setAllocationInputs] = useState<Record<string, Money | null>>({});
+
+  const formatAmount = (cents: number) => formatMoney(toMoney(cents, settings.currency), settings.locale);
+  const unallocated = getUnallocatedBalance(balance, pots, selectedMonth);
+  const linkedItem = wishlist.find((item) => item.id === form.wishlistItemId);
+  // Bereits verknüpfte Wünsche nicht ein zweites Mal anbieten
+  const linkableItems = wishlist.filter((item) => !pots.some((pot) => pot.wishlistItemId === item.id));
+
+  const addPot = () => {
+    const name = form.name.trim() || linkedItem?.name || '';
+    const target = linkedItem?.price ?? form.target;
+    if (!name || !target || !isTargetValid) {
+      onNotify('A savings pot needs a name and a target amount.', 'error');
+      return;
+    }
+    const pot: SavingsPot = {
+      id: createEntryId(),
+      name,
+      target,
+      targetDate: linkedItem?.targetDate || form.targetDate,
+      wishlistItemId: linkedItem?.id,
+      allocations: [],
+      createdAt: new Date().toISOString(),
+    };
+    setPots((prev) => [...prev, pot]);
+    setForm(emptyForm);
+  };
+
+  const deletePot = (pot: SavingsPot) => {
+    if (!window.confirm(`Delete the savings pot "${pot.name}"? Its allocations return to the balance.`)) return;
+    setPots((prev) => prev.filter((candidate) => candidate.id !== pot.id));
+  };
+
+  const allocate = (pot: SavingsPot, cents: number) => {
+    if (cents <= 0) return;
+    if (cents > unallocated) {
+      onNotify(`Only ${formatAmount(unallocated)} of ${formatMonth(selectedMonth)} is left to allocate.`, 'error');
+      return;
+    }
+    setPots((prev) =>
+      prev.map((candidate) =>
+        candidate.id === pot.id ? addAllocation(candidate, selectedMonth, cents, settings.currency) : candidate
+      )
+    );
+    setAllocationInputs((prev) => ({ ...prev, [pot.id]: null }));
+    if (isPotFull(addAllocation(pot, selectedMonth, cents, settings.currency), wishlist)) {
+      onNotify(`"${pot.name}" is full.`, 'success');
+    }
+  };
+
+  const removeAllocation = (potId: string, allocationId: string) => {
+    setPots((prev) =>
+      prev.map((pot) =>
+        pot.id === potId
+          ? { ...pot, allocations: pot.allocations.filter((allocation) => allocation.id !== allocationId) }
+          : pot
+      )
+    );
+  };
+
+  return (
+    <div className="mt-4 sm:mt-6 bg-gray-800 rounded-lg p-3 sm:p-4 text-white">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-1 mb-2 sm:mb-4">
+        <h2 className="text-lg sm:text-xl font-bold flex items-center gap-2">
+          <PiggyBank className="w-5 h-5" /> Savings pots
+        </h2>
+        <span className="text-sm text-gray-300">
+          Left to allocate in {formatMonth(selectedMonth)}: <strong>{formatAmount(unallocated)}</strong>
+        </span>
+      </div>
+
+      {pots.length === 0 && <p className="text-sm text-gray-400 mb-4">No savings pots yet.</p>}
+
+      <div className="space-y-3">
+        {pots.map((pot) => {
+          const { target, targetDate } = getPotGoal(pot, wishlist);
+          const saved = getPotSaved(pot);
+          const percentage = target > 0 ? Math.min(100, (saved / target) * 100) : 0;
+          const full = isPotFull(pot, wishlist);
+          const needed = getMonthlyNeeded(pot, wishlist, selectedMonth);
+          const suggested = getSuggestedAllocation(pot, wishlist, selectedMonth, unallocated);
+          const item = getLinkedItem(pot, wishlist);
+
+          return (
+            <div key={pot.id} className="bg-gray-700 rounded p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <div className="font-semibold flex items-center gap-2">
+                    {pot.name}
+                    {full && (
+                      <span className="flex items-center gap-1 text-xs bg-green-600 px-2 py-0.5 rounded-full">
+                        <CheckCircle className="w-3 h-3" /> Full
+                      </span>
+                    )}
+                  </div>
+                  {item && (
+                    <div className="text-xs text-gray-400 flex items-center gap-1">
+                      <Link className="w-3 h-3" /> Wishlist: {item.name}
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => deletePot(pot)}
+                  className="p-1 hover:bg-gray-600 rounded"
+                  aria-label={`Delete savings pot ${pot.name}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="flex justify-between text-xs text-gray-300">
+                <span>
+                  {formatAmount(saved)} of {formatAmount(target)}
+                </span>
+                <span>{Math.round(percentage)}%</span>
+              </div>
+              <div
+                className="h-2 bg-gray-800 rounded-full overflow-hidden"
+                role="progressbar"
+                aria-valuenow={Math.round(percentage)}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              >
+                <div
+                  className={`h-full rounded-full transition-all ${full ? 'bg-green-500' : 'bg-blue-500'}`}
+                  style={{ width: `${percentage}%` }}
+                />
+              </div>
+
+              <div className="text-xs text-gray-300">
+                {targetDate
+                  ? full
+                    ? `Target date ${new Date(targetDate).toLocaleDateString()}`
+                    : `Needs ${formatAmount(needed ?? 0)} per month until ${new Date(targetDate).toLocaleDateString()}`
+                  : 'No target date'}
+              </div>
+
+              {!full && (
+                <div className="flex flex-wrap items-start gap-2">
+                  <MoneyInput
+                    value={allocationInputs[pot.id] ?? null}
+                    currency={settings.currency}
+                    locale={settings.locale}
+                    onChange={(amount) => setAllocationInputs((prev) => ({ ...prev, [pot.id]: amount }))}
+                    onEnter={() => allocate(pot, allocationInputs[pot.id]?.cents ?? 0)}
+                    allowEmpty
+                    className="w-28"
+                    inputClassName="p-1 bg-gray-800 rounded text-sm"
+                    placeholder="Amount"
+                  />
+                  <button
+                    onClick={() => allocate(pot, allocationInputs[pot.id]?.cents ?? 0)}
+                    disabled={!allocationInputs[pot.id]?.cents}
+                    className="bg-blue-500 px-2 py-1 rounded text-sm hover:bg-blue-600 disabled:opacity-50"
+                  >
+                    Allocate
+                  </button>
+                  {suggested > 0 && (
+                    <button
+                      onClick={() => allocate(pot, suggested)}
+                      className="bg-green-500 px-2 py-1 rounded text-sm hover:bg-green-600"
+                    >
+                      Allocate {formatAmount(suggested)}
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {pot.allocations.length > 0 && (
+                <details className="text-xs text-gray-300">
+                  <summary className="cursor-pointer">{pot.allocations.length} allocations</summary>
+                  <ul className="mt-1 space-y-1">
+                    {pot.allocations.map((allocation) => (
+                      <li key={allocation.id} className="flex items-center gap-2">
+                        <span className="w-20">{formatMonth(allocation.month, 'short')}</span>
+                        <span className="flex-1">{formatMoney(allocation.amount, settings.locale)}</span>
+                        <button
+                          onClick={() => removeAllocation(pot.id, allocation.id)}
+                          className="p-1 hover:bg-gray-600 rounded"
+                          aria-label="Remove allocation"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Neuer Topf */}
+      <div className="mt-4 pt-4 border-t border-gray-700 flex flex-col sm:flex-row sm:items-start gap-2 text-sm">
+        <select
+          value={form.wishlistItemId}
+          onChange={(e) => setForm((prev) => ({ ...prev, wishlistItemId: e.target.value }))}
+          className="bg-gray-700 rounded p-2"
+          aria-label="Link wishlist item"
+        >
+          <option value="">No wishlist item</option>
+          {linkableItems.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={form.name}
+          onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+          className="flex-1 p-2 bg-gray-700 rounded"
+          placeholder={linkedItem?.name ?? 'Name'}
+        />
+        {linkedItem?.price ? (
+          <span className="p-2 text-gray-300">{formatMoney(linkedItem.price, settings.locale)}</span>
+        ) : (
+          <MoneyInput
+            value={form.target}
+            currency={settings.currency}
+            locale={settings.locale}
+            onChange={(target) => setForm((prev) => ({ ...prev, target }))}
+            onValidityChange={setIsTargetValid}
+            allowEmpty
+            className="sm:w-32"
+            placeholder="Target"
+          />
+        )}
+        {!linkedItem?.targetDate && (
+          <input
+            type="date"
+            value={form.targetDate}
+            onChange={(e) => setForm((prev) => ({ ...prev, targetDate: e.target.value }))}
+            className="p-2 bg-gray-700 rounded"
+            aria-label="Target date"
+          />
+        )}
+        <button onClick={addPot} className="bg-green-500 px-3 py-2 rounded hover:bg-green-600">
+          + Add pot
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SavingsPots;
@@ -0,0 +1,320 @@
+import React, { useState } from 'react';
+import { FlaskConical, Pencil, Trash2 } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import EntryList from './EntryList';
+import { useIndexedDB } from '../../storage/useIndexedDB';
+import type { AppSettings, BudgetScenario, FinancialEntry } from '../../storage/types';
+import { createEntryId } from '../../budget/periods';
+import { calculateTotals, getSavingsRate } from '../../budget/totals';
+import { FORECAST_MONTHS, createScenario, getScenarioBaseline, projectBudget, scaleEntry } from '../../budget/forecast';
+import { formatMonth } from '../../utils/dates';
+import { formatMoney, toMoney } from '../../utils/money';
+
+interface ScenarioPanelProps {
+  selectedMonth: string;
+  // Echte Daten (Baseline)
+  incomes: FinancialEntry[];
+  expenses: FinancialEntry[];
+  settings: AppSettings;
+}
+
+type EntryKind = 'incomes' | 'expenses';
+
+const AXIS_TICK = { fill: '#9CA3AF', fontSize: 12 };
+const TOOLTIP_STYLE = { backgroundColor: '#1f2937', border: 'none', borderRadius: '0.5rem', color: '#fff' };
+
+// Was-wäre-wenn: Szenarien sind Kopien eines Monats, die unabhängig von den
+// echten Zahlen bearbeitet und mit ihnen verglichen werden
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ selectedMonth, incomes, expenses, settings }) => {
+  const [scenarios, setScenarios] = useIndexedDB('budgetScenarios', []);
+  const [activeId, setActiveId] = useState<string>('');
+  const [adjustTarget, setAdjustTarget] = useState('');
+  const [adjustPercent, setAdjustPercent] = useState('');
+
+  const scenario = scenarios.find((candidate) => candidate.id === activeId);
+  const formatAmount = (cents: number) => formatMoney(toMoney(cents, settings.currency), settings.locale);
+
+  const updateScenario = (update: (scenario: BudgetScenario) => BudgetScenario) => {
+    setScenarios((prev) => prev.map((candidate) => (candidate.id === activeId ? update(candidate) : candidate)));
+  };
+
+  const updateEntries = (kind: EntryKind, update: (entries: FinancialEntry[]) => FinancialEntry[]) => {
+    updateScenario((current) => ({ ...current, [kind]: update(current[kind]) }));
+  };
+
+  const addScenario = () => {
+    const name = window.prompt(
+      `Name of the scenario (copy of ${formatMonth(selectedMonth)}):`,
+      `Scenario ${scenarios.length + 1}`
+    );
+    if (!name?.trim()) return;
+    const created = createScenario(name.trim(), selectedMonth, incomes, expenses);
+    setScenarios((prev) => [...prev, created]);
+    setActiveId(created.id);
+  };
+
+  const renameScenario = () => {
+    if (!scenario) return;
+    const name = window.prompt('New name of the scenario:', scenario.name);
+    if (name?.trim()) updateScenario((current) => ({ ...current, name: name.trim() }));
+  };
+
+  const deleteScenario = () => {
+    if (!scenario || !window.confirm(`Delete the scenario "${scenario.name}"?`)) return;
+    setScenarios((prev) => prev.filter((candidate) => candidate.id !== scenario.id));
+    setActiveId('');
+  };
+
+  const applyAdjustment = () => {
+    const percent = parseFloat(adjustPercent.replace(',', '.'));
+    if (!adjustTarget || Number.isNaN(percent)) return;
+    const [kind, id] = adjustTarget.split(':') as [EntryKind, string];
+    updateEntries(kind, (entries) => entries.map((entry) => (entry.id === id ? scaleEntry(entry, percent) : entry)));
+    setAdjustPercent('');
+  };
+
+  const renderComparison = (current: BudgetScenario) => {
+    const base = getScenarioBaseline(current.baseMonth, incomes, expenses);
+    const baseline = calculateTotals(base.incomes, base.expenses);
+    const variant = calculateTotals(current.incomes, current.expenses);
+    const baselineRate = getSavingsRate(baseline.totalIncome, baseline.balance);
+    const variantRate = getSavingsRate(variant.totalIncome, variant.balance);
+    const formatRate = (rate: number | null) => (rate === null ? '–' : `${rate.toFixed(1)}%`);
+    const formatDiff = (diff: number) => `${diff > 0 ? '+' : ''}${formatAmount(diff)}`;
+    const diffColor = (diff: number, higherIsBetter: boolean) =>
+      diff === 0 ? '' : diff > 0 === higherIsBetter ? 'text-green-400' : 'text-red-400';
+
+    const rows: [string, string, string, string, string][] = [
+      [
+        'Income',
+        formatAmount(baseline.totalIncome),
+        formatAmount(variant.totalIncome),
+        formatDiff(variant.totalIncome - baseline.totalIncome),
+        diffColor(variant.totalIncome - baseline.totalIncome, true),
+      ],
+      [
+        'Expenses',
+        formatAmount(baseline.totalExpenses),
+        formatAmount(variant.totalExpenses),
+        formatDiff(variant.totalExpenses - baseline.totalExpenses),
+        diffColor(variant.totalExpenses - baseline.totalExpenses, false),
+      ],
+      [
+        'Balance',
+        formatAmount(baseline.balance),
+        formatAmount(variant.balance),
+        formatDiff(variant.balance - baseline.balance),
+        diffColor(variant.balance - baseline.balance, true),
+      ],
+      ['Savings rate', formatRate(baselineRate), formatRate(variantRate), '', ''],
+    ];
+
+    return (
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400">
+              <th className="py-2 pr-4 font-medium">{formatMonth(current.baseMonth)}</th>
+              <th className="py-2 pr-4 font-medium text-right">Baseline</th>
+              <th className="py-2 pr-4 font-medium text-right">{current.name}</th>
+              <th className="py-2 font-medium text-right">Difference</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(([label, baselineValue, variantValue, diff, color]) => (
+              <tr key={label} className="border-t border-gray-700">
+                <td className="py-2 pr-4">{label}</td>
+                <td className="py-2 pr-4 text-right">{baselineValue}</td>
+                <td className="py-2 pr-4 text-right">{variantValue}</td>
+                <td className={`py-2 text-right font-semibold ${color}`}>{diff}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const renderProjection = (current: BudgetScenario) => {
+    const base = getScenarioBaseline(current.baseMonth, incomes, expenses);
+    const baseline = projectBudget(base.incomes, base.expenses, current.baseMonth);
+    const variant = projectBudget(current.incomes, current.expenses, current.baseMonth);
+    const data = baseline.map((month, index) => ({
+      month: formatMonth(month.month, 'short'),
+      baseline: month.cumulativeBalance,
+      scenario: variant[index].cumulativeBalance,
+    }));
+    const last = data[data.length - 1];
+
+    return (
+      <div>
+        <h3 className="text-base font-semibold mb-1">{FORECAST_MONTHS}-month projection</h3>
+        <p className="text-xs text-gray-400 mb-2">
+          Cumulative balance including recurring entries. After {FORECAST_MONTHS} months: baseline{' '}
+          {formatAmount(last.baseline)}, {current.name} {formatAmount(last.scenario)}.
+        </p>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" />
+              <XAxis dataKey="month" tick={AXIS_TICK} />
+              <YAxis tick={AXIS_TICK} tickFormatter={(value: number) => String(Math.round(value / 100))} width={56} />
+              <ReferenceLine y={0} stroke="#9CA3AF" />
+              <Tooltip formatter={(value: number) => formatAmount(value)} contentStyle={TOOLTIP_STYLE} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Line
+                type="monotone"
+                dataKey="baseline"
+                name="Baseline"
+                stroke="#9CA3AF"
+                strokeWidth={2}
+                isAnimationActive={false}
+              />
+              <Line
+                type="monotone"
+                dataKey="scenario"
+                name={current.name}
+                stroke="#3b82f6"
+                strokeWidth={2}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-4 sm:mt-6 bg-gray-800 rounded-lg p-3 sm:p-4 text-white space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <h2 className="text-lg sm:text-xl font-bold flex items-center gap-2">
+          <FlaskConical className="w-5 h-5" /> What-if scenarios
+        </h2>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            value={activeId}
+            onChange={(e) => setActiveId(e.target.value)}
+            className="bg-gray-700 rounded p-2"
+            aria-label="Scenario"
+          >
+            <option value="">No scenario</option>
+            {scenarios.map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.name} ({formatMonth(candidate.baseMonth, 'short')})
+              </option>
+            ))}
+          </select>
+          {scenario && (
+            <>
+              <button onClick={renameScenario} className="p-2 hover:bg-gray-700 rounded" aria-label="Rename scenario">
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button onClick={deleteScenario} className="p-2 hover:bg-gray-700 rounded" aria-label="Delete scenario">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </>
+          )}
+          <button onClick={addScenario} className="bg-green-500 px-3 py-2 rounded hover:bg-green-600">
+            + New from {formatMonth(selectedMonth, 'short')}
+          </button>
+        </div>
+      </div>
+
+      {!scenario ? (
+        <p className="text-sm text-gray-400">
+          Copy a month into a scenario to try out changes without touching your real budget.
+        </p>
+      ) : (
+        <>
+          {renderComparison(scenario)}
+
+          {/* Schnelle Anpassung, z. B. Miete +8 % oder Gehalt -50 % */}
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select
+              value={adjustTarget}
+              onChange={(e) => setAdjustTarget(e.target.value)}
+              className="bg-gray-700 rounded p-2"
+              aria-label="Entry to adjust"
+            >
+              <option value="">Adjust entry…</option>
+              {(['incomes', 'expenses'] as const).map((kind) =>
+                scenario[kind].map((entry) => (
+                  <option key={entry.id} value={`${kind}:${entry.id}`}>
+                    {kind === 'incomes' ? 'Income' : 'Expense'}: {entry.category || '(no category)'}
+                  </option>
+                ))
+              )}
+            </select>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={adjustPercent}
+              onChange={(e) => setAdjustPercent(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && applyAdjustment()}
+              className="w-20 p-2 bg-gray-700 rounded"
+              placeholder="+8 / -50"
+              aria-label="Change in percent"
+            />
+            <span>%</span>
+            <button onClick={applyAdjustment} className="bg-blue-500 px-3 py-2 rounded hover:bg-blue-600">
+              Apply
+            </button>
+          </div>
+
+          <details>
+            <summary className="cursor-pointer text-sm text-gray-300">Edit scenario entries</summary>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+              {(['incomes', 'expenses'] as const).map((kind) => (
+                <EntryList
+                  key={kind}
+                  title={kind === 'incomes' ? 'Income' : 'Expenses'}
+                  addLabel={kind === 'incomes' ? '+ Add Income' : '+ Add Expense'}
+                  entries={scenario[kind]}
+                  settings={settings}
+                  onAdd={() =>
+                    updateEntries(kind, (entries) => [
+                      ...entries,
+                      {
+                        id: createEntryId(),
+                        month: scenario.baseMonth,
+                        category: kind === 'incomes' ? 'New Income' : 'New Expense',
+                        amount: toMoney(0, settings.currency),
+                        purpose: '',
+                      },
+                    ])
+                  }
+                  onUpdate={(id, changes) =>
+                    updateEntries(kind, (entries) =>
+                      entries.map((entry) => {
+                        if (entry.id !== id) return entry;
+                        // Ein eingegebener Betrag ersetzt im Szenario die Buchungen des Ausgangsmonats
+                        const transactions = changes.amount ? undefined : entry.transactions;
+                        return { ...entry, ...changes, transactions };
+                      })
+                    )
+                  }
+                  onDelete={(id) => updateEntries(kind, (entries) => entries.filter((entry) => entry.id !== id))}
+                />
+              ))}
+            </div>
+          </details>
+
+          {renderProjection(scenario)}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioPanel;
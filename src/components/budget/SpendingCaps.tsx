@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { Gauge, X } from 'lucide-react';
+import MoneyInput from '../shared/MoneyInput';
+import { useIndexedDB } from '../../storage/useIndexedDB';
+import { useSettings } from '../../hooks/useSettings';
+import type { FinancialEntry, LimitThresholds, Money } from '../../storage/types';
+import { createEntryId } from '../../budget/periods';
+import { CapStatus, formatUsagePercent, getCategoryUsage, getOverspentCategories } from '../../budget/caps';
+import { formatMonth } from '../../utils/dates';
+
+interface SpendingCapsProps {
+  selectedMonth: string;
+  currentMonth: string;
+  monthExpenses: FinancialEntry[];
+  // Cent -> Anzeige in der gewählten Währung
+  formatAmount: (cents: number) => string;
+}
+
+const STATUS_COLORS: Record<CapStatus, { bar: string; text: string }> = {
+  ok: { bar: 'bg-green-500', text: 'text-gray-300' },
+  warning: { bar: 'bg-yellow-500', text: 'text-yellow-400' },
+  critical: { bar: 'bg-red-500', text: 'text-red-400' },
+};
+
+// Monatliche Ausgabenobergrenzen pro Kategorie, Warnschwellen und Monatsabschluss.
+// Gezählt werden nur Buchungen, nicht die geplanten Beträge der Zeilen.
+const SpendingCaps: React.FC<SpendingCapsProps> = ({ selectedMonth, currentMonth, monthExpenses, formatAmount }) => {
+  const [caps, setCaps] = useIndexedDB('categoryLimits', []);
+  const [settings, updateSettings] = useSettings();
+  const [newCategory, setNewCategory] = useState('');
+  const [newCap, setNewCap] = useState<Money | null>(null);
+  const [isNewCapValid, setIsNewCapValid] = useState(true);
+  // Eingaben der Schwellen während der Bearbeitung; null = gespeicherte Werte
+  const [thresholdInputs, setThresholdInputs] = useState<Record<keyof LimitThresholds, string> | null>(null);
+  const [thresholdError, setThresholdError] = useState('');
+
+  const thresholds = settings.limitThresholds;
+  const inputs = thresholdInputs ?? { warning: String(thresholds.warning), critical: String(thresholds.critical) };
+  const usage = getCategoryUsage(monthExpenses, caps, thresholds);
+  const overspent = getOverspentCategories(usage);
+  const isMonthOver = selectedMonth < currentMonth;
+  // Kategorien des Monats, die noch keine Obergrenze haben
+  const suggestions = Array.from(new Set(monthExpenses.map((entry) => entry.category.trim()).filter(Boolean))).filter(
+    (category) => !caps.some((categoryCap) => categoryCap.category.trim().toLowerCase() === category.toLowerCase())
+  );
+
+  const addCap = () => {
+    if (!newCategory.trim() || !newCap || !isNewCapValid) return;
+    setCaps((prev) => [...prev, { id: createEntryId(), category: newCategory.trim(), cap: newCap }]);
+    setNewCategory('');
+    setNewCap(null);
+  };
+
+  const updateCap = (id: string, changes: { category?: string; cap?: Money }) => {
+    setCaps((prev) => prev.map((categoryCap) => (categoryCap.id === id ? { ...categoryCap, ...changes } : categoryCap)));
+  };
+
+  const changeThreshold = (key: keyof LimitThresholds, value: string) => {
+    setThresholdInputs({ ...inputs, [key]: value });
+    setThresholdError('');
+  };
+
+  // Geprüft wird erst beim Verlassen des Felds, damit sich beide Schwellen
+  // nacheinander verschieben lassen (Warnung zwischendurch über der Alarmschwelle)
+  const saveThresholds = () => {
+    if (!thresholdInputs) return;
+    const warning = Number(thresholdInputs.warning);
+    const critical = Number(thresholdInputs.critical);
+    if (![warning, critical].every((percent) => Number.isInteger(percent) && percent >= 1)) {
+      setThresholdError('Thresholds must be whole percentages of at least 1.');
+      return;
+    }
+    if (warning > critical) {
+      setThresholdError('The warning threshold must not be above the alert threshold.');
+      return;
+    }
+    updateSettings({ limitThresholds: { warning, critical } });
+    setThresholdInputs(null);
+  };
+
+  return (
+    <div className="mt-4 sm:mt-6 bg-gray-800 rounded-lg p-3 sm:p-4 text-white">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-2 sm:mb-4">
+        <h2 className="text-lg sm:text-xl font-bold flex items-center gap-2">
+          <Gauge className="w-5 h-5" /> Spending caps
+        </h2>
+        <div className="flex items-center gap-2 text-sm text-gray-300">
+          <label className="flex items-center gap-1">
+            Warn at
+            <input
+              type="number"
+              min={1}
+              value={inputs.warning}
+              onChange={(e) => changeThreshold('warning', e.target.value)}
+              onBlur={saveThresholds}
+              onKeyDown={(e) => e.key === 'Enter' && saveThresholds()}
+              className={`w-16 p-1 bg-gray-700 rounded ${thresholdError ? 'ring-2 ring-red-500' : ''}`}
+              aria-invalid={!!thresholdError}
+            />
+            %
+          </label>
+          <label className="flex items-center gap-1">
+            Alert at
+            <input
+              type="number"
+              min={1}
+              value={inputs.critical}
+              onChange={(e) => changeThreshold('critical', e.target.value)}
+              onBlur={saveThresholds}
+              onKeyDown={(e) => e.key === 'Enter' && saveThresholds()}
+              className={`w-16 p-1 bg-gray-700 rounded ${thresholdError ? 'ring-2 ring-red-500' : ''}`}
+              aria-invalid={!!thresholdError}
+            />
+            %
+          </label>
+        </div>
+      </div>
+      {thresholdError && (
+        <p className="text-xs text-red-400 mb-2 sm:text-right" role="alert">
+          {thresholdError}
+        </p>
+      )}
+
+      {caps.length === 0 ? (
+        <p className="text-sm text-gray-400 mb-3">
+          No caps yet. Caps apply to every month and count only booked transactions.
+        </p>
+      ) : (
+        <div className="space-y-3 mb-4">
+          {caps.map((categoryCap) => {
+            const item = usage.find((candidate) => candidate.capId === categoryCap.id);
+            const colors = STATUS_COLORS[item?.status ?? 'ok'];
+            return (
+              <div key={categoryCap.id} className="space-y-1">
+                <div className="flex flex-wrap items-start gap-2">
+                  <input
+                    type="text"
+                    value={categoryCap.category}
+                    onChange={(e) => updateCap(categoryCap.id, { category: e.target.value })}
+                    className="flex-1 min-w-[8rem] p-2 bg-gray-700 rounded text-sm"
+                    aria-label="Category"
+                  />
+                  <MoneyInput
+                    value={categoryCap.cap}
+                    currency={settings.currency}
+                    locale={settings.locale}
+                    onChange={(value) => value && updateCap(categoryCap.id, { cap: value })}
+                    inputClassName="w-28 p-2 bg-gray-700 rounded text-sm"
+                    title="Monthly spending cap"
+                  />
+                  <button
+                    onClick={() => setCaps((prev) => prev.filter((candidate) => candidate.id !== categoryCap.id))}
+                    className="p-2 hover:bg-gray-700 rounded"
+                    aria-label={`Remove cap for ${categoryCap.category}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                {item && (
+                  <>
+                    <div className="flex justify-between text-xs text-gray-300">
+                      <span>
+                        {formatAmount(item.spent)} spent of {formatAmount(item.cap)}
+                      </span>
+                      <span className={colors.text}>{formatUsagePercent(item.percent)}</span>
+                    </div>
+                    <div
+                      className="h-2 bg-gray-700 rounded-full overflow-hidden"
+                      role="progressbar"
+                      aria-valuenow={Math.round(Math.min(item.percent, 100))}
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                    >
+                      <div
+                        className={`h-full rounded-full transition-all ${colors.bar}`}
+                        style={{ width: `${Math.min(100, item.percent)}%` }}
+                      />
+                    </div>
+                    {/* Geplante Beträge zählen nicht, eine Planung über der Obergrenze fällt aber auf */}
+                    {item.planned > item.cap && (
+                      <p className="text-xs text-yellow-400">
+                        Planned {formatAmount(item.planned)} is above the cap.
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-start gap-2 mb-4">
+        <input
+          type="text"
+          list="cap-category-suggestions"
+          value={newCategory}
+          onChange={(e) => setNewCategory(e.target.value)}
+          className="flex-1 min-w-[8rem] p-2 bg-gray-700 rounded text-sm"
+          placeholder="Category"
+        />
+        <datalist id="cap-category-suggestions">
+          {suggestions.map((category) => (
+            <option key={category} value={category} />
+          ))}
+        </datalist>
+        <MoneyInput
+          value={newCap}
+          currency={settings.currency}
+          locale={settings.locale}
+          onChange={setNewCap}
+          allowEmpty
+          inputClassName="w-28 p-2 bg-gray-700 rounded text-sm"
+          placeholder="Cap"
+          onEnter={addCap}
+          onValidityChange={setIsNewCapValid}
+        />
+        <button
+          onClick={addCap}
+          disabled={!newCategory.trim() || !newCap || !isNewCapValid}
+          className="bg-green-500 px-3 py-2 rounded hover:bg-green-600 text-sm disabled:opacity-50"
+        >
+          + Add cap
+        </button>
+      </div>
+
+      {/* Monatsabschluss: welche Kategorien über der Obergrenze lagen */}
+      {caps.length > 0 && (
+        <div className="border-t border-gray-700 pt-3 text-sm">
+          <h3 className="font-semibold mb-1">
+            {isMonthOver ? 'Month-end summary' : 'So far'} · {formatMonth(selectedMonth)}
+          </h3>
+          {overspent.length === 0 ? (
+            <p className="text-gray-300">
+              {isMonthOver ? 'All categories stayed within their caps.' : 'No category is over its cap.'}
+            </p>
+          ) : (
+            <>
+              <p className="text-gray-300 mb-1">
+                {overspent.length} of {usage.length} categories {isMonthOver ? 'went' : 'are'} over the cap:
+              </p>
+              <ul className="space-y-1">
+                {overspent.map((item) => (
+                  <li key={item.capId} className="flex justify-between gap-2">
+                    <span>{item.category}</span>
+                    <span className="text-red-400">
+                      +{formatAmount(item.spent - item.cap)} ({formatUsagePercent(item.percent)})
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpendingCaps;
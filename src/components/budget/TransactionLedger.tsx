@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import MoneyInput from '../shared/MoneyInput';
+import type { AppSettings, FinancialEntry, Money, Transaction } from '../../storage/types';
+import { getPlannedAmount, getSpentAmount } from '../../budget/totals';
+import { createEntryId } from '../../budget/periods';
+import { formatMoney, toMoney } from '../../utils/money';
+import { getDateKey, getDaysInMonth } from '../../utils/dates';
+
+interface TransactionLedgerProps {
+  entry: FinancialEntry;
+  settings: AppSettings;
+  onChange: (transactions: Transaction[]) => void;
+}
+
+// Standarddatum für neue Buchungen: heute, wenn es im Monat der Kategorie liegt
+const getDefaultDate = (month: string) => {
+  const todayKey = getDateKey(new Date());
+  return todayKey.startsWith(month) ? todayKey : `${month}-01`;
+};
+
+// Verbraucht vs. geplant: grün, ab 80 % gelb, ab 100 % rot
+const getBarColor = (percentage: number) =>
+  percentage >= 100 ? 'bg-red-500' : percentage >= 80 ? 'bg-yellow-500' : 'bg-green-500';
+
+export const SpentBar: React.FC<{ entry: FinancialEntry; settings: AppSettings }> = ({ entry, settings }) => {
+  const spent = getSpentAmount(entry);
+  const planned = getPlannedAmount(entry);
+  const percentage = planned > 0 ? (spent / planned) * 100 : spent > 0 ? 100 : 0;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-gray-300">
+        <span>
+          {formatMoney(toMoney(spent, settings.currency), settings.locale)} of{' '}
+          {formatMoney(toMoney(planned, settings.currency), settings.locale)}
+        </span>
+        <span className={percentage >= 100 ? 'text-red-400' : ''}>{Math.round(percentage)}%</span>
+      </div>
+      <div
+        className="h-2 bg-gray-700 rounded-full overflow-hidden"
+        role="progressbar"
+        aria-valuenow={Math.round(percentage)}
+        aria-valuemin={0}
+        aria-valuemax={100}
+      >
+        <div
+          className={`h-full rounded-full transition-all ${getBarColor(percentage)}`}
+          style={{ width: `${Math.min(100, percentage)}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+const TransactionLedger: React.FC<TransactionLedgerProps> = ({ entry, settings, onChange }) => {
+  const transactions = entry.transactions ?? [];
+  const [date, setDate] = useState(() => getDefaultDate(entry.month));
+  const [amount, setAmount] = useState<Money | null>(null);
+  const [isAmountValid, setIsAmountValid] = useState(true);
+  const [payee, setPayee] = useState('');
+  const [note, setNote] = useState('');
+
+  // Buchungen zählen zum Monat der Kategorie und müssen darin liegen
+  const firstDay = `${entry.month}-01`;
+  const lastDay = `${entry.month}-${String(getDaysInMonth(entry.month)).padStart(2, '0')}`;
+  const isDateValid = date >= firstDay && date <= lastDay;
+
+  const addTransaction = () => {
+    if (!amount || !isAmountValid || !isDateValid) return;
+    const transaction: Transaction = {
+      id: createEntryId(),
+      date,
+      amount,
+      payee: payee.trim(),
+      note: note.trim(),
+    };
+    // Neueste Buchung oben
+    onChange([...transactions, transaction].sort((a, b) => b.date.localeCompare(a.date)));
+    setAmount(null);
+    setPayee('');
+    setNote('');
+  };
+
+  return (
+    <div className="bg-gray-900/50 rounded p-2 space-y-2 text-sm">
+      {transactions.length === 0 && <p className="text-xs text-gray-400">No transactions yet.</p>}
+      {transactions.map((transaction) => (
+        <div key={transaction.id} className="flex items-center gap-2 text-gray-200">
+          <span className="text-xs text-gray-400 w-20 shrink-0">{transaction.date}</span>
+          <span className="flex-1 truncate" title={transaction.note}>
+            {transaction.payee || '–'}
+            {transaction.note && <span className="text-xs text-gray-400"> · {transaction.note}</span>}
+          </span>
+          <span className="whitespace-nowrap">{formatMoney(transaction.amount, settings.locale)}</span>
+          <button
+            onClick={() => onChange(transactions.filter((t) => t.id !== transaction.id))}
+            className="p-1 hover:bg-gray-600 rounded"
+            aria-label="Delete transaction"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+
+      {/* Neue Buchung */}
+      <div className="flex flex-wrap items-start gap-2 pt-2 border-t border-gray-700">
+        <input
+          type="date"
+          value={date}
+          min={firstDay}
+          max={lastDay}
+          onChange={(e) => setDate(e.target.value)}
+          className={`p-1 bg-gray-700 text-white rounded text-xs ${isDateValid ? '' : 'ring-2 ring-red-500'}`}
+          aria-label="Date"
+          aria-invalid={!isDateValid}
+          title={isDateValid ? undefined : 'The date must lie in this month.'}
+        />
+        <MoneyInput
+          value={amount}
+          currency={settings.currency}
+          locale={settings.locale}
+          onChange={setAmount}
+          onEnter={addTransaction}
+          allowEmpty
+          className="w-24"
+          inputClassName="p-1 bg-gray-700 rounded text-xs"
+          onValidityChange={setIsAmountValid}
+          placeholder="Amount"
+        />
+        <input
+          type="text"
+          value={payee}
+          onChange={(e) => setPayee(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addTransaction()}
+          className="flex-1 min-w-[6rem] p-1 bg-gray-700 text-white rounded text-xs"
+          placeholder="Payee"
+        />
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addTransaction()}
+          className="flex-1 min-w-[6rem] p-1 bg-gray-700 text-white rounded text-xs"
+          placeholder="Note"
+        />
+        <button
+          onClick={addTransaction}
+          disabled={!amount || !isAmountValid || !isDateValid}
+          className="p-1 bg-green-500 rounded hover:bg-green-600 disabled:opacity-50"
+          aria-label="Add transaction"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TransactionLedger;
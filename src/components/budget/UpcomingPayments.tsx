@@ -0,0 +1,61 @@
+import React from 'react';
+import { CalendarClock } from 'lucide-react';
+import type { FinancialEntry } from '../../storage/types';
+import { formatRoute } from '../../routing/hashRoute';
+import { getPlannedAmount } from '../../budget/totals';
+import { DuePayment, PaymentStatus, getDuePayments } from '../../budget/payments';
+import { parseDateKey } from '../../utils/dates';
+
+interface UpcomingPaymentsProps {
+  selectedMonth: string;
+  monthExpenses: FinancialEntry[];
+  // Cent -> Anzeige in der gewählten Währung
+  formatAmount: (cents: number) => string;
+}
+
+const STATUS_COLORS: Record<PaymentStatus, string> = {
+  paid: 'text-green-400',
+  overdue: 'text-red-400',
+  'due-soon': 'text-yellow-400',
+  upcoming: 'text-gray-300',
+};
+
+const describeStatus = ({ status, daysLeft }: DuePayment) => {
+  if (status === 'paid') return 'Paid';
+  if (daysLeft < 0) return `${-daysLeft} day${daysLeft === -1 ? '' : 's'} overdue`;
+  if (daysLeft === 0) return 'Due today';
+  return `Due in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+};
+
+// Wiederkehrende Ausgaben des Monats in der Reihenfolge ihrer Fälligkeit
+const UpcomingPayments: React.FC<UpcomingPaymentsProps> = ({ selectedMonth, monthExpenses, formatAmount }) => {
+  const payments = getDuePayments(monthExpenses, selectedMonth);
+  if (payments.length === 0) return null;
+
+  return (
+    <div className="mt-4 sm:mt-6 bg-gray-800 rounded-lg p-3 sm:p-4 text-white">
+      <h2 className="text-lg sm:text-xl font-bold flex items-center gap-2 mb-2 sm:mb-4">
+        <CalendarClock className="w-5 h-5" /> Recurring payments
+      </h2>
+      <ul className="space-y-1 text-sm">
+        {payments.map((payment) => (
+          <li key={payment.entry.id}>
+            <a
+              href={formatRoute({ tab: 'budget', itemId: payment.entry.id, params: { month: selectedMonth } })}
+              className="flex items-center gap-3 p-2 rounded hover:bg-gray-700"
+            >
+              <span className="w-14 text-gray-400">
+                {parseDateKey(payment.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+              </span>
+              <span className="flex-1 truncate">{payment.entry.category || 'Untitled'}</span>
+              <span>{formatAmount(getPlannedAmount(payment.entry))}</span>
+              <span className={`w-32 text-right ${STATUS_COLORS[payment.status]}`}>{describeStatus(payment)}</span>
+            </a>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default UpcomingPayments;
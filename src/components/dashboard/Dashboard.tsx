@@ -0,0 +1,280 @@
+import React from 'react';
+import { ArrowRight } from 'lucide-react';
+import { RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar, ResponsiveContainer } from 'recharts';
+import { useIndexedDB } from '../../storage/useIndexedDB';
+import {
+  DEFAULT_EXPENSES,
+  DEFAULT_INCOMES,
+  DEFAULT_LIFE_EQ_CATEGORIES,
+  DEFAULT_PROJECTS,
+  DEFAULT_TODO_GROUPS,
+} from '../../storage/defaults';
+import { useSettings } from '../../hooks/useSettings';
+import { TabId, formatRoute } from '../../routing/hashRoute';
+import { calculateTotals } from '../../budget/totals';
+import { getEntriesForMonth } from '../../budget/periods';
+import { formatUsagePercent, getCategoryUsage, getOverspentCategories } from '../../budget/caps';
+import { DEFAULT_MOOD_SCALE, getEntryLevel, getScale, getScaledValue } from '../../mood/scales';
+import { getPriorityRank } from '../../todos/priority';
+import { DAY_MS, addMonths, daysUntil, formatDayTitle, formatMonth, getMonthKey } from '../../utils/dates';
+import { formatMoney, toMoney } from '../../utils/money';
+
+const MAX_ITEMS = 5;
+
+const priorityLabels = { high: 'High', medium: 'Medium', low: 'Low', none: '' };
+const wishlistPriorityRank = { hoch: 3, mittel: 2, niedrig: 1 };
+
+interface DashboardCardProps {
+  title: string;
+  tab: TabId;
+  children: React.ReactNode;
+}
+
+const DashboardCard: React.FC<DashboardCardProps> = ({ title, tab, children }) => (
+  <div className="bg-gray-700/50 rounded-lg p-4 flex flex-col">
+    <div className="flex justify-between items-center mb-3">
+      <h3 className="text-base sm:text-lg font-semibold">{title}</h3>
+      <a
+        href={formatRoute({ tab })}
+        className="p-1 hover:bg-gray-600 rounded text-gray-300"
+        title={`Open ${title}`}
+        aria-label={`Open ${title}`}
+      >
+        <ArrowRight className="w-4 h-4" />
+      </a>
+    </div>
+    <div className="flex-1">{children}</div>
+  </div>
+);
+
+const EmptyHint: React.FC<{ text: string }> = ({ text }) => (
+  <p className="text-sm text-gray-400">{text}</p>
+);
+
+const formatDaysLeft = (days: number) => {
+  if (days < 0) return `${-days} day${days === -1 ? '' : 's'} overdue`;
+  if (days === 0) return 'due today';
+  return `in ${days} day${days === 1 ? '' : 's'}`;
+};
+
+const Dashboard: React.FC = () => {
+  const [projects] = useIndexedDB('projects', DEFAULT_PROJECTS);
+  const [todoGroups] = useIndexedDB('todoGroups', DEFAULT_TODO_GROUPS);
+  const [moodEntries] = useIndexedDB('moodEntries', []);
+  const [moodScales] = useIndexedDB('moodScales', [DEFAULT_MOOD_SCALE]);
+  const [lifeEqCategories] = useIndexedDB('lifeEqCategories', DEFAULT_LIFE_EQ_CATEGORIES);
+  const [incomes] = useIndexedDB('incomes', DEFAULT_INCOMES);
+  const [expenses] = useIndexedDB('expenses', DEFAULT_EXPENSES);
+  const [wishlist] = useIndexedDB('wishlist', []);
+  const [caps] = useIndexedDB('categoryLimits', []);
+  const [settings] = useSettings();
+  const formatAmount = (cents: number) => formatMoney(toMoney(cents, settings.currency), settings.locale);
+
+  // Projekte: offene, nicht archivierte nach Deadline
+  const upcomingProjects = projects
+    .filter(project => !project.archived && project.status !== 'Done')
+    .sort((a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime())
+    .slice(0, MAX_ITEMS);
+
+  // Todos: Gruppe von heute, sonst die neueste Gruppe
+  const todayGroup =
+    todoGroups.find(group => group.title === formatDayTitle(new Date())) ?? todoGroups[0];
+  const openTodos = (todayGroup?.todos ?? [])
+    .filter(todo => !todo.completed && !todo.archived)
+    .sort((a, b) => getPriorityRank(b.priority) - getPriorityRank(a.priority));
+
+  // Stimmung: letzter Eintrag und Durchschnitt der letzten 7 Tage
+  const sortedMoods = [...moodEntries].sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+  const latestMood = sortedMoods[0];
+  const latestLevel = latestMood && getEntryLevel(latestMood, moodScales);
+  const moodScale = getScale(moodScales, settings.moodScaleId);
+  const weekAgo = Date.now() - 7 * DAY_MS;
+  const weekMoods = sortedMoods.filter(entry => new Date(entry.timestamp).getTime() >= weekAgo);
+  const weekAverage = weekMoods.length
+    ? weekMoods.reduce((sum, entry) => sum + getScaledValue(entry, moodScales, moodScale), 0) / weekMoods.length
+    : null;
+
+  // Budget: nur der aktuelle Monat
+  const currentMonth = getMonthKey(new Date());
+  const { totalIncome, totalExpenses, balance } = calculateTotals(
+    getEntriesForMonth(incomes, currentMonth),
+    getEntriesForMonth(expenses, currentMonth)
+  );
+
+  // Ausgabenobergrenzen: Warnungen im aktuellen Monat, Überschreitungen im Vormonat
+  const capAlerts = getCategoryUsage(
+    getEntriesForMonth(expenses, currentMonth),
+    caps,
+    settings.limitThresholds
+  ).filter(usage => usage.status !== 'ok');
+  const lastMonth = addMonths(currentMonth, -1);
+  const lastMonthOverspent = getOverspentCategories(
+    getCategoryUsage(getEntriesForMonth(expenses, lastMonth), caps, settings.limitThresholds)
+  );
+
+  const topWishes = [...wishlist]
+    .sort((a, b) => wishlistPriorityRank[b.priority] - wishlistPriorityRank[a.priority] || b.createdAt - a.createdAt)
+    .slice(0, MAX_ITEMS);
+
+  return (
+    <div className="w-full space-y-6 p-4">
+      <h2 className="text-xl sm:text-2xl font-bold">Dashboard</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        <DashboardCard title="Projects near deadline" tab="projects">
+          {upcomingProjects.length === 0 ? (
+            <EmptyHint text="No open projects." />
+          ) : (
+            <ul className="space-y-2">
+              {upcomingProjects.map(project => {
+                const days = daysUntil(project.deadline);
+                return (
+                  <li key={project.id}>
+                    <a
+                      href={formatRoute({ tab: 'projects', itemId: String(project.id) })}
+                      className="flex justify-between gap-2 text-sm hover:text-blue-300"
+                    >
+                      <span className="truncate">{project.name}</span>
+                      <span className={`whitespace-nowrap ${days < 0 ? 'text-red-400' : days <= 7 ? 'text-yellow-400' : 'text-gray-400'}`}>
+                        {formatDaysLeft(days)}
+                      </span>
+                    </a>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </DashboardCard>
+
+        <DashboardCard title="Today's todos" tab="todos">
+          {openTodos.length === 0 ? (
+            <EmptyHint text="Nothing left to do today." />
+          ) : (
+            <a
+              href={formatRoute({ tab: 'todos', itemId: String(todayGroup.id) })}
+              className="block hover:text-blue-300"
+            >
+              <ul className="space-y-1">
+                {openTodos.slice(0, MAX_ITEMS).map(todo => (
+                  <li key={todo.id} className="flex justify-between gap-2 text-sm">
+                    <span className="truncate">{todo.text}</span>
+                    <span className="text-gray-400 text-xs">{priorityLabels[todo.priority]}</span>
+                  </li>
+                ))}
+              </ul>
+              {openTodos.length > MAX_ITEMS && (
+                <p className="text-xs text-gray-400 mt-2">+{openTodos.length - MAX_ITEMS} more</p>
+              )}
+            </a>
+          )}
+        </DashboardCard>
+
+        <DashboardCard title="Mood" tab="mood">
+          {!latestMood ? (
+            <EmptyHint text="No mood entries yet." />
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-3xl">{latestLevel.emoji}</span>
+                <div>
+                  <div className="font-medium">{latestLevel.label}</div>
+                  <div className="text-xs text-gray-400">
+                    {new Date(latestMood.timestamp).toLocaleString()}
+                  </div>
+                </div>
+              </div>
+              <div className="text-sm text-gray-300">
+                7-day average:{' '}
+                <span className="font-semibold">
+                  {weekAverage !== null ? `${weekAverage.toFixed(1)} / ${moodScale.levels.length}` : '–'}
+                </span>
+              </div>
+            </div>
+          )}
+        </DashboardCard>
+
+        <DashboardCard title="Life balance" tab="lifeEQ">
+          {lifeEqCategories.length === 0 ? (
+            <EmptyHint text="No LifeEQ categories yet." />
+          ) : (
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <RadarChart data={lifeEqCategories}>
+                  <PolarGrid strokeDasharray="3 3" />
+                  <PolarAngleAxis dataKey="name" tick={{ fill: '#9CA3AF', fontSize: '11px' }} />
+                  <PolarRadiusAxis domain={[0, 10]} tick={false} axisLine={false} />
+                  <Radar dataKey="value" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.6} />
+                </RadarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </DashboardCard>
+
+        <DashboardCard title="Budget" tab="budget">
+          <div className="space-y-1 text-sm">
+            <div className="text-xs text-gray-400">{formatMonth(currentMonth)}</div>
+            <div className="flex justify-between">
+              <span className="text-gray-300">Income</span>
+              <span>{formatAmount(totalIncome)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-300">Expenses</span>
+              <span>{formatAmount(totalExpenses)}</span>
+            </div>
+            <div className="flex justify-between font-semibold text-base pt-1 border-t border-gray-600">
+              <span>Balance</span>
+              <span className={balance > 0 ? 'text-green-400' : balance < 0 ? 'text-red-400' : ''}>
+                {formatAmount(balance)}
+              </span>
+            </div>
+            {capAlerts.length > 0 && (
+              <ul className="pt-2 space-y-1">
+                {capAlerts.map(usage => (
+                  <li key={usage.capId} className="flex justify-between gap-2">
+                    <span className="truncate">{usage.category}</span>
+                    <span className={usage.status === 'critical' ? 'text-red-400' : 'text-yellow-400'}>
+                      {formatUsagePercent(usage.percent)} of cap
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {lastMonthOverspent.length > 0 && (
+              <p className="pt-1 text-xs text-gray-400">
+                {formatMonth(lastMonth)}: over the cap in {lastMonthOverspent.map(usage => usage.category).join(', ')}
+              </p>
+            )}
+          </div>
+        </DashboardCard>
+
+        <DashboardCard title="Top wishes" tab="wishlist">
+          {topWishes.length === 0 ? (
+            <EmptyHint text="Your wishlist is empty." />
+          ) : (
+            <ul className="space-y-2">
+              {topWishes.map(item => (
+                <li key={item.id}>
+                  <a
+                    href={formatRoute({ tab: 'wishlist', itemId: item.id })}
+                    className="flex justify-between gap-2 text-sm hover:text-blue-300"
+                  >
+                    <span className="truncate">{item.name}</span>
+                    {item.price && (
+                      <span className="whitespace-nowrap text-gray-400">
+                        {formatMoney(item.price, settings.locale)}
+                      </span>
+                    )}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </DashboardCard>
+      </div>
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import type { MoodEntry } from '../../storage/types';
+import type { MoodGranularity } from '../../mood/aggregation';
+import { MOOD_DIMENSIONS, aggregateDimension, formatDimensionValue } from '../../mood/dimensions';
+
+interface MoodDimensionChartsProps {
+  // Bereits auf den Zeitraum gefilterte Einträge
+  entries: MoodEntry[];
+  granularity: MoodGranularity;
+}
+
+const AXIS_TICK = { fill: '#9CA3AF', fontSize: 12 };
+const TOOLTIP_STYLE = { backgroundColor: '#1f2937', border: 'none', borderRadius: '0.5rem', color: '#fff' };
+
+// Ein kleines Diagramm pro Dimension; Dimensionen ohne Angaben im Zeitraum werden ausgeblendet
+const MoodDimensionCharts: React.FC<MoodDimensionChartsProps> = ({ entries, granularity }) => {
+  const series = MOOD_DIMENSIONS.map((config) => ({
+    config,
+    data: aggregateDimension(entries, config.key, granularity).map((bucket) => ({
+      label: bucket.label,
+      average: Math.round(bucket.average * 10) / 10,
+    })),
+  })).filter(({ data }) => data.length > 0);
+
+  if (series.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {series.map(({ config, data }) => (
+        <div key={config.key} className="bg-gray-700 rounded p-3">
+          <h4 className="text-sm font-semibold mb-2">
+            {config.emoji} {config.label}
+          </h4>
+          <div className="h-40">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" />
+                <XAxis dataKey="label" tick={AXIS_TICK} />
+                <YAxis domain={[config.min, config.max]} tick={AXIS_TICK} width={32} allowDecimals={false} />
+                <Tooltip
+                  contentStyle={TOOLTIP_STYLE}
+                  formatter={(value: number) => [formatDimensionValue(config, value), config.label]}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="average"
+                  stroke={config.color}
+                  strokeWidth={2}
+                  dot={data.length < 60}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MoodDimensionCharts;
@@ -0,0 +1,57 @@
+import React from 'react';
+import type { MoodDimensions } from '../../storage/types';
+import { DimensionConfig, MOOD_DIMENSIONS } from '../../mood/dimensions';
+
+interface MoodDimensionsFormProps {
+  value: MoodDimensions;
+  onChange: (value: MoodDimensions) => void;
+}
+
+// Kompakte Zusatzangaben für den nächsten Check-in; alles optional
+const MoodDimensionsForm: React.FC<MoodDimensionsFormProps> = ({ value, onChange }) => {
+  const update = (config: DimensionConfig, text: string) => {
+    const number = parseFloat(text.replace(',', '.'));
+    onChange({
+      ...value,
+      [config.key]: Number.isNaN(number) ? undefined : Math.min(config.max, Math.max(config.min, number)),
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2 text-sm">
+      {MOOD_DIMENSIONS.map((config) => (
+        <label key={config.key} className="flex items-center gap-1 bg-gray-800 rounded px-2 py-1" title={config.label}>
+          <span>{config.emoji}</span>
+          <span className="text-gray-400">{config.label}</span>
+          {config.unit ? (
+            <input
+              type="number"
+              min={config.min}
+              max={config.max}
+              step={config.step}
+              value={value[config.key] ?? ''}
+              onChange={(e) => update(config, e.target.value)}
+              className="w-16 p-1 bg-gray-700 rounded"
+              placeholder={config.unit}
+            />
+          ) : (
+            <select
+              value={value[config.key] ?? ''}
+              onChange={(e) => update(config, e.target.value)}
+              className="p-1 bg-gray-700 rounded"
+            >
+              <option value="">–</option>
+              {Array.from({ length: config.max - config.min + 1 }, (_, index) => config.min + index).map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          )}
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default MoodDimensionsForm;
@@ -0,0 +1,69 @@
+import React from 'react';
+import type { MoodEntry, MoodScale } from '../../storage/types';
+import { DateRange, MoodValueGetter, getDailyAverages, getWeekStart } from '../../mood/aggregation';
+import { getLevel } from '../../mood/scales';
+import { addDays, parseDateKey } from '../../utils/dates';
+
+interface MoodHeatmapProps {
+  // Bereits auf den Zeitraum gefilterte Einträge
+  entries: MoodEntry[];
+  range: DateRange;
+  scale: MoodScale;
+  getValue: MoodValueGetter;
+}
+
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+
+// Kalender mit einer Spalte pro Woche; jeder Tag in der Farbe seiner Durchschnittsstimmung
+const MoodHeatmap: React.FC<MoodHeatmapProps> = ({ entries, range, scale, getValue }) => {
+  const averages = getDailyAverages(entries, getValue);
+
+  const weeks: string[][] = [];
+  for (let day = getWeekStart(range.from); day <= range.to; day = addDays(day, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, index) => addDays(day, index)));
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1 overflow-x-auto pb-1">
+        <div className="grid grid-rows-7 gap-1 text-[10px] text-gray-400 pr-1">
+          {WEEKDAY_LABELS.map((label, index) => (
+            <span key={index} className="h-3 leading-3">
+              {label}
+            </span>
+          ))}
+        </div>
+        {weeks.map((week) => (
+          <div key={week[0]} className="grid grid-rows-7 gap-1">
+            {week.map((day) => {
+              if (day < range.from || day > range.to) return <span key={day} className="w-3 h-3" />;
+              const bucket = averages.get(day);
+              const date = parseDateKey(day).toLocaleDateString();
+              return (
+                <span
+                  key={day}
+                  className={`w-3 h-3 rounded-sm ${bucket ? '' : 'bg-gray-700'}`}
+                  style={bucket ? { backgroundColor: getLevel(scale, bucket.average).color } : undefined}
+                  title={
+                    bucket
+                      ? `${date}: ${bucket.average.toFixed(1)} (${bucket.count} entr${bucket.count === 1 ? 'y' : 'ies'})`
+                      : `${date}: no entries`
+                  }
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+        {scale.levels.map((level) => (
+          <span key={level.value} className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: level.color }} /> {level.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MoodHeatmap;
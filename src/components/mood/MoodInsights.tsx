@@ -0,0 +1,61 @@
+import React from 'react';
+import type { MoodEntry, MoodTag } from '../../storage/types';
+import type { MoodValueGetter } from '../../mood/aggregation';
+import { MIN_TAGGED_ENTRIES, describeCorrelation, getTagInsights } from '../../mood/insights';
+
+interface MoodInsightsProps {
+  // Bereits auf den Zeitraum gefilterte Einträge
+  entries: MoodEntry[];
+  tags: MoodTag[];
+  getValue: MoodValueGetter;
+}
+
+// Welche Aktivitäten gehen mit besserer oder schlechterer Stimmung einher?
+const MoodInsights: React.FC<MoodInsightsProps> = ({ entries, tags, getValue }) => {
+  const insights = getTagInsights(entries, tags, getValue);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-3 sm:p-4 space-y-3">
+      <h3 className="text-lg font-semibold">Insights</h3>
+      {insights.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          Tag at least {MIN_TAGGED_ENTRIES} entries with an activity in this period to see how it relates to your mood.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {insights.map((insight) => (
+            <li key={insight.tag.id} className="space-y-1 text-sm">
+              <div className="flex justify-between gap-2">
+                <span>
+                  {insight.tag.emoji} {insight.tag.label}
+                  <span className="text-gray-400"> · {insight.count} entries</span>
+                </span>
+                <span
+                  className={
+                    insight.correlation >= 0.1 ? 'text-green-400' : insight.correlation <= -0.1 ? 'text-red-400' : 'text-gray-300'
+                  }
+                >
+                  {describeCorrelation(insight.correlation)}
+                </span>
+              </div>
+              {/* Balken von der Mitte aus: rechts positiv, links negativ */}
+              <div className="relative h-2 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className={`absolute h-full ${insight.correlation >= 0 ? 'bg-green-500 left-1/2' : 'bg-red-500 right-1/2'}`}
+                  style={{ width: `${Math.abs(insight.correlation) * 50}%` }}
+                />
+              </div>
+              <div className="text-xs text-gray-400">
+                Average {insight.averageWith.toFixed(1)} with, {insight.averageWithout.toFixed(1)} without (
+                {insight.difference > 0 ? '+' : ''}
+                {insight.difference.toFixed(1)}) · r = {insight.correlation.toFixed(2)}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MoodInsights;
@@ -0,0 +1,55 @@
+import React from 'react';
+import type { MoodEntry } from '../../storage/types';
+import { DateRange, RANGE_PRESETS, getFullRange, getRecentRange } from '../../mood/aggregation';
+
+interface MoodRangeControlsProps {
+  range: DateRange;
+  // Alle Einträge, für "All" (ab dem ersten Eintrag)
+  entries: MoodEntry[];
+  onChange: (range: DateRange) => void;
+}
+
+// Zeitraum für Verlauf, Kalender und Auswertung
+const MoodRangeControls: React.FC<MoodRangeControlsProps> = ({ range, entries, onChange }) => {
+  // Ungültige Eingaben (Ende vor Anfang) werden ignoriert
+  const updateRange = (changes: Partial<DateRange>) => {
+    const next = { ...range, ...changes };
+    if (next.from && next.to && next.from <= next.to) onChange(next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {RANGE_PRESETS.map((preset) => (
+        <button
+          key={preset.id}
+          onClick={() => onChange(getRecentRange(preset.days))}
+          className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600"
+        >
+          {preset.label}
+        </button>
+      ))}
+      <button onClick={() => onChange(getFullRange(entries))} className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600">
+        All
+      </button>
+      <input
+        type="date"
+        value={range.from}
+        max={range.to}
+        onChange={(e) => updateRange({ from: e.target.value })}
+        className="p-1 bg-gray-700 rounded"
+        aria-label="From"
+      />
+      <span className="text-gray-400">–</span>
+      <input
+        type="date"
+        value={range.to}
+        min={range.from}
+        onChange={(e) => updateRange({ to: e.target.value })}
+        className="p-1 bg-gray-700 rounded"
+        aria-label="To"
+      />
+    </div>
+  );
+};
+
+export default MoodRangeControls;
@@ -0,0 +1,154 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import type { MoodEntry, MoodLevel, MoodScale } from '../../storage/types';
+import {
+  DEFAULT_MOOD_SCALE,
+  MAX_SCALE_LEVELS,
+  MIN_SCALE_LEVELS,
+  addScaleLevel,
+  canRemoveTopLevel,
+  createScale,
+  removeTopLevel,
+} from '../../mood/scales';
+
+interface MoodScaleEditorProps {
+  scales: MoodScale[];
+  activeScale: MoodScale;
+  // Für die Prüfung, ob Stufen oder Skalen noch verwendet werden
+  entries: MoodEntry[];
+  onChangeScales: (scales: MoodScale[]) => void;
+  onSelectScale: (scaleId: string) => void;
+}
+
+// Skalen anlegen und bearbeiten; bestehende Einträge behalten ihre Skala
+const MoodScaleEditor: React.FC<MoodScaleEditorProps> = ({
+  scales,
+  activeScale,
+  entries,
+  onChangeScales,
+  onSelectScale,
+}) => {
+  const updateScale = (changes: Partial<MoodScale>) => {
+    onChangeScales(scales.map((scale) => (scale.id === activeScale.id ? { ...scale, ...changes } : scale)));
+  };
+
+  const updateLevel = (value: number, changes: Partial<MoodLevel>) => {
+    updateScale({
+      levels: activeScale.levels.map((level) => (level.value === value ? { ...level, ...changes } : level)),
+    });
+  };
+
+  const addScale = () => {
+    const name = window.prompt('Name of the new scale:');
+    if (!name?.trim()) return;
+    const count = parseInt(
+      window.prompt(`Number of levels (${MIN_SCALE_LEVELS}–${MAX_SCALE_LEVELS}):`, '5') ?? '',
+      10
+    );
+    if (Number.isNaN(count)) return;
+    const scale = createScale(name.trim(), count);
+    onChangeScales([...scales, scale]);
+    onSelectScale(scale.id);
+  };
+
+  const deleteScale = () => {
+    if (entries.some((entry) => entry.scaleId === activeScale.id)) {
+      alert('This scale is used by existing entries and cannot be deleted.');
+      return;
+    }
+    if (!window.confirm(`Delete the scale "${activeScale.name}"?`)) return;
+    onChangeScales(scales.filter((scale) => scale.id !== activeScale.id));
+    onSelectScale(DEFAULT_MOOD_SCALE.id);
+  };
+
+  const removeLevel = () => {
+    if (!canRemoveTopLevel(activeScale, entries)) {
+      alert('The top level is used by existing entries and cannot be removed.');
+      return;
+    }
+    updateScale(removeTopLevel(activeScale));
+  };
+
+  return (
+    <div className="space-y-3 mt-2 text-left">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={activeScale.id}
+          onChange={(e) => onSelectScale(e.target.value)}
+          className="bg-gray-700 rounded p-2"
+          aria-label="Mood scale"
+        >
+          {scales.map((scale) => (
+            <option key={scale.id} value={scale.id}>
+              {scale.name} ({scale.levels.length})
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={activeScale.name}
+          onChange={(e) => updateScale({ name: e.target.value })}
+          className="p-2 bg-gray-700 rounded flex-1 min-w-[8rem]"
+          aria-label="Scale name"
+        />
+        {activeScale.id !== DEFAULT_MOOD_SCALE.id && (
+          <button onClick={deleteScale} className="p-2 hover:bg-gray-700 rounded" aria-label="Delete scale">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+        <button onClick={addScale} className="bg-green-500 px-3 py-2 rounded hover:bg-green-600">
+          + New scale
+        </button>
+      </div>
+
+      {/* Schlechteste Stufe zuerst */}
+      <div className="space-y-1">
+        {activeScale.levels.map((level) => (
+          <div key={level.value} className="flex items-center gap-2">
+            <span className="w-6 text-right text-gray-400">{level.value}</span>
+            <input
+              type="color"
+              value={level.color}
+              onChange={(e) => updateLevel(level.value, { color: e.target.value })}
+              className="w-8 h-8 bg-transparent rounded cursor-pointer"
+              aria-label={`Color of level ${level.value}`}
+            />
+            <input
+              type="text"
+              value={level.emoji}
+              onChange={(e) => updateLevel(level.value, { emoji: e.target.value })}
+              className="w-12 p-2 bg-gray-700 rounded text-center"
+              aria-label={`Emoji of level ${level.value}`}
+            />
+            <input
+              type="text"
+              value={level.label}
+              onChange={(e) => updateLevel(level.value, { label: e.target.value })}
+              className="flex-1 p-2 bg-gray-700 rounded"
+              aria-label={`Label of level ${level.value}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => updateScale(addScaleLevel(activeScale))}
+          disabled={activeScale.levels.length >= MAX_SCALE_LEVELS}
+          className="px-3 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50"
+        >
+          + Level
+        </button>
+        <button
+          onClick={removeLevel}
+          disabled={activeScale.levels.length <= MIN_SCALE_LEVELS}
+          className="px-3 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50"
+        >
+          − Level
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MoodScaleEditor;
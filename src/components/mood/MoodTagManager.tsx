@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import type { MoodTag } from '../../storage/types';
+
+interface MoodTagManagerProps {
+  tags: MoodTag[];
+  onAdd: (label: string, emoji: string) => void;
+  onUpdate: (id: string, changes: Partial<MoodTag>) => void;
+  onDelete: (tag: MoodTag) => void;
+}
+
+// Aktivitäten umbenennen, ergänzen und löschen
+const MoodTagManager: React.FC<MoodTagManagerProps> = ({ tags, onAdd, onUpdate, onDelete }) => {
+  const [label, setLabel] = useState('');
+  const [emoji, setEmoji] = useState('');
+
+  const addTag = () => {
+    if (!label.trim()) return;
+    onAdd(label.trim(), emoji.trim());
+    setLabel('');
+    setEmoji('');
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-2">
+      {tags.map((tag) => (
+        <div key={tag.id} className="flex items-center bg-gray-700 rounded">
+          <input
+            type="text"
+            value={tag.emoji}
+            onChange={(e) => onUpdate(tag.id, { emoji: e.target.value })}
+            className="bg-transparent p-2 text-sm w-10 text-center"
+            aria-label="Tag emoji"
+          />
+          <input
+            type="text"
+            value={tag.label}
+            onChange={(e) => onUpdate(tag.id, { label: e.target.value })}
+            className="bg-transparent p-2 text-sm w-32"
+            aria-label="Tag name"
+          />
+          <button
+            onClick={() => onDelete(tag)}
+            className="p-2 hover:bg-gray-600 rounded"
+            aria-label={`Delete tag ${tag.label}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      <input
+        type="text"
+        value={emoji}
+        onChange={(e) => setEmoji(e.target.value)}
+        className="p-2 bg-gray-700 rounded text-sm w-12 text-center"
+        placeholder="🙂"
+        aria-label="New tag emoji"
+      />
+      <input
+        type="text"
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && addTag()}
+        className="p-2 bg-gray-700 rounded text-sm w-36"
+        placeholder="New activity"
+      />
+      <button onClick={addTag} className="bg-green-500 px-3 py-2 rounded hover:bg-green-600 text-sm">
+        + Add
+      </button>
+    </div>
+  );
+};
+
+export default MoodTagManager;
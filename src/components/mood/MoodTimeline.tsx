@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import MoodHeatmap from './MoodHeatmap';
+import MoodDimensionCharts from './MoodDimensionCharts';
+import type { MoodEntry, MoodScale } from '../../storage/types';
+import { DateRange, MoodGranularity, MoodValueGetter, aggregateMoods } from '../../mood/aggregation';
+
+interface MoodTimelineProps {
+  // Bereits auf den Zeitraum gefilterte Einträge
+  entries: MoodEntry[];
+  range: DateRange;
+  // Werte werden auf diese Skala umgerechnet
+  scale: MoodScale;
+  getValue: MoodValueGetter;
+}
+
+const GRANULARITY_LABELS: Record<MoodGranularity, string> = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+};
+
+const AXIS_TICK = { fill: '#9CA3AF', fontSize: 12 };
+const TOOLTIP_STYLE = { backgroundColor: '#1f2937', border: 'none', borderRadius: '0.5rem', color: '#fff' };
+
+// Verlauf der Stimmung als Diagramm und Kalender
+const MoodTimeline: React.FC<MoodTimelineProps> = ({ entries, range, scale, getValue }) => {
+  const [granularity, setGranularity] = useState<MoodGranularity>('day');
+
+  const data = aggregateMoods(entries, granularity, getValue).map((bucket) => ({
+    ...bucket,
+    average: Math.round(bucket.average * 10) / 10,
+    // Band zwischen Minimum und Maximum
+    spread: [Math.round(bucket.min * 10) / 10, Math.round(bucket.max * 10) / 10],
+  }));
+  const levelValues = scale.levels.map((level) => level.value);
+  const getLabel = (value: number) => scale.levels.find((level) => level.value === value)?.label ?? String(value);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-3 sm:p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold">Timeline</h3>
+        <div className="flex rounded overflow-hidden text-sm">
+          {(Object.keys(GRANULARITY_LABELS) as MoodGranularity[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setGranularity(option)}
+              className={`px-2 py-1 ${granularity === option ? 'bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+              {GRANULARITY_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {data.length === 0 ? (
+        <div className="h-64 flex items-center justify-center text-sm text-gray-400">
+          No mood entries in this period.
+        </div>
+      ) : (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" />
+              <XAxis dataKey="label" tick={AXIS_TICK} />
+              <YAxis
+                domain={[1, scale.levels.length]}
+                ticks={levelValues}
+                tickFormatter={getLabel}
+                tick={AXIS_TICK}
+                width={72}
+              />
+              <Tooltip
+                contentStyle={TOOLTIP_STYLE}
+                formatter={(value: number | number[], name: string) =>
+                  Array.isArray(value) ? [`${value[0]} – ${value[1]}`, name] : [value, name]
+                }
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Area
+                type="monotone"
+                dataKey="spread"
+                name="Min – max"
+                stroke="none"
+                fill="#3b82f6"
+                fillOpacity={0.2}
+                isAnimationActive={false}
+              />
+              <Line
+                type="monotone"
+                dataKey="average"
+                name="Average"
+                stroke="#3b82f6"
+                strokeWidth={2}
+                dot={data.length < 60}
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <MoodHeatmap entries={entries} range={range} scale={scale} getValue={getValue} />
+
+      {/* Energie, Stress und Schlaf in derselben Zusammenfassung */}
+      <MoodDimensionCharts entries={entries} granularity={granularity} />
+    </div>
+  );
+};
+
+export default MoodTimeline;
@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ChevronRight, Command as CommandIcon } from 'lucide-react';
+import { Command, collectCommands } from '../../commands/registry';
+import { useHashRoute } from '../../routing/hashRoute';
+import { fuzzyScore } from '../../search/searchIndex';
+
+interface CommandPaletteProps {
+  onClose: () => void;
+}
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose }) => {
+  const { navigate } = useHashRoute();
+  const [commands, setCommands] = useState<Command[]>([]);
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  // Befehl, der noch auf seine Eingabe wartet (z. B. Text eines neuen Todos)
+  const [pendingCommand, setPendingCommand] = useState<Command | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    collectCommands({ navigate }).then((loaded) => {
+      if (!cancelled) setCommands(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [navigate]);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, [pendingCommand]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  const filteredCommands = useMemo(() => {
+    if (!query.trim() || pendingCommand) return commands;
+    return commands
+      .map((command) => ({
+        command,
+        score: Math.max(
+          ...[command.title, command.section, ...(command.keywords ?? [])].map(
+            (text) => fuzzyScore(query, text) ?? 0
+          )
+        ),
+      }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map(({ command }) => command);
+  }, [commands, query, pendingCommand]);
+
+  const runCommand = async (command: Command, input?: string) => {
+    setIsRunning(true);
+    try {
+      await command.run(input);
+      onClose();
+    } catch (error) {
+      console.error('Fehler beim Ausführen des Befehls', error);
+      alert(`"${command.title}" failed`);
+      setIsRunning(false);
+    }
+  };
+
+  const selectCommand = (command: Command) => {
+    if (command.prompt) {
+      setPendingCommand(command);
+      setQuery('');
+    } else {
+      runCommand(command);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (isRunning) return;
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      if (pendingCommand) {
+        setPendingCommand(null);
+        setQuery('');
+      } else {
+        onClose();
+      }
+    } else if (pendingCommand) {
+      if (e.key === 'Enter' && query.trim()) {
+        e.preventDefault();
+        runCommand(pendingCommand, query);
+      }
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex((index) => Math.min(index + 1, filteredCommands.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && filteredCommands[selectedIndex]) {
+      e.preventDefault();
+      selectCommand(filteredCommands[selectedIndex]);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 z-50 flex items-start justify-center p-4 pt-[10vh]"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-xl bg-gray-800 rounded-lg shadow-xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-label="Command palette"
+      >
+        <div className="flex items-center gap-2 p-3 border-b border-gray-700">
+          <CommandIcon className="w-5 h-5 text-gray-400" />
+          {pendingCommand && (
+            <span className="flex items-center text-sm text-blue-300 whitespace-nowrap">
+              {pendingCommand.title}
+              <ChevronRight className="w-4 h-4" />
+            </span>
+          )}
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            disabled={isRunning}
+            placeholder={pendingCommand?.prompt ?? 'Type a command...'}
+            className="flex-1 bg-transparent outline-none text-white placeholder-gray-400"
+          />
+        </div>
+
+        {!pendingCommand && (
+          <div className="max-h-[60vh] overflow-y-auto py-1">
+            {filteredCommands.length === 0 && (
+              <p className="p-4 text-sm text-gray-400">No matching commands.</p>
+            )}
+            {filteredCommands.map((command, index) => (
+              <button
+                key={command.id}
+                onClick={() => selectCommand(command)}
+                onMouseEnter={() => setSelectedIndex(index)}
+                className={`w-full flex justify-between gap-2 text-left px-3 py-2 ${index === selectedIndex ? 'bg-blue-500/30' : 'hover:bg-gray-700'}`}
+              >
+                <span className="truncate">{command.title}</span>
+                <span className="text-xs text-gray-400 whitespace-nowrap">{command.section}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="px-3 py-2 border-t border-gray-700 text-xs text-gray-500">
+          {pendingCommand ? 'Enter to confirm · Esc to go back' : '↑↓ to select · Enter to run · Esc to close'}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
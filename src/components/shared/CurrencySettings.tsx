@@ -0,0 +1,54 @@
+import React from 'react';
+import { useSettings } from '../../hooks/useSettings';
+import { changeCurrency } from '../../storage/settings';
+import type { CurrencyCode, NumberLocale } from '../../storage/types';
+import { CURRENCIES, NUMBER_LOCALES } from '../../utils/money';
+
+// Währung und Zahlenformat – gilt für Budget und Wunschliste gemeinsam
+const CurrencySettings: React.FC = () => {
+  const [settings, updateSettings] = useSettings();
+
+  const handleCurrencyChange = (currency: CurrencyCode) => {
+    if (currency === settings.currency) return;
+    const confirmed = window.confirm(
+      `Switch to ${currency}? All budget amounts and wishlist prices will be shown in ${currency}. ` +
+        'Amounts are not converted.'
+    );
+    if (!confirmed) return;
+    changeCurrency(currency).catch((error) => {
+      console.error('Fehler beim Wechseln der Währung', error);
+      alert('Could not change the currency.');
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <select
+        value={settings.currency}
+        onChange={(e) => handleCurrencyChange(e.target.value as CurrencyCode)}
+        className="bg-gray-700 text-white rounded p-2"
+        aria-label="Currency"
+      >
+        {CURRENCIES.map(({ code, label }) => (
+          <option key={code} value={code}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={settings.locale}
+        onChange={(e) => updateSettings({ locale: e.target.value as NumberLocale })}
+        className="bg-gray-700 text-white rounded p-2"
+        aria-label="Number format"
+      >
+        {NUMBER_LOCALES.map(({ code, label, example }) => (
+          <option key={code} value={code}>
+            {label} ({example})
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default CurrencySettings;
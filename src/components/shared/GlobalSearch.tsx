@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, X } from 'lucide-react';
+import { useIndexedDB } from '../../storage/useIndexedDB';
+import {
+  DEFAULT_EXPENSES,
+  DEFAULT_GOALS,
+  DEFAULT_INCOMES,
+  DEFAULT_LIFE_EQ_CATEGORIES,
+  DEFAULT_PROJECTS,
+  DEFAULT_TODO_GROUPS,
+  DEFAULT_WISHLIST_CATEGORIES,
+} from '../../storage/defaults';
+import { useSettings } from '../../hooks/useSettings';
+import { TabId, useHashRoute } from '../../routing/hashRoute';
+import { DEFAULT_MOOD_SCALE } from '../../mood/scales';
+import { buildSearchIndex, groupResults, searchDocuments, SearchResult } from '../../search/searchIndex';
+
+interface GlobalSearchProps {
+  tabNames: Partial<Record<TabId, string>>;
+  onClose: () => void;
+}
+
+// Suchdialog über alle Tracker. Wird nur gerendert, solange er offen ist,
+// damit die Stores erst beim Öffnen geladen werden.
+const GlobalSearch: React.FC<GlobalSearchProps> = ({ tabNames, onClose }) => {
+  const [projects] = useIndexedDB('projects', DEFAULT_PROJECTS);
+  const [goals] = useIndexedDB('goals', DEFAULT_GOALS);
+  const [moodEntries] = useIndexedDB('moodEntries', []);
+  const [moodScales] = useIndexedDB('moodScales', [DEFAULT_MOOD_SCALE]);
+  const [lifeEqCategories] = useIndexedDB('lifeEqCategories', DEFAULT_LIFE_EQ_CATEGORIES);
+  const [todoGroups] = useIndexedDB('todoGroups', DEFAULT_TODO_GROUPS);
+  const [incomes] = useIndexedDB('incomes', DEFAULT_INCOMES);
+  const [expenses] = useIndexedDB('expenses', DEFAULT_EXPENSES);
+  const [wishlist] = useIndexedDB('wishlist', []);
+  const [wishlistCategories] = useIndexedDB('wishlistCategories', DEFAULT_WISHLIST_CATEGORIES);
+  const [settings] = useSettings();
+  const { navigate } = useHashRoute();
+
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const documents = useMemo(
+    () =>
+      buildSearchIndex({
+        projects,
+        goals,
+        moodEntries,
+        moodScales,
+        lifeEqCategories,
+        todoGroups,
+        incomes,
+        expenses,
+        wishlist,
+        wishlistCategories,
+        settings,
+      }),
+    [
+      projects,
+      goals,
+      moodEntries,
+      moodScales,
+      lifeEqCategories,
+      todoGroups,
+      incomes,
+      expenses,
+      wishlist,
+      wishlistCategories,
+      settings,
+    ]
+  );
+  const groups = useMemo(() => groupResults(searchDocuments(documents, query)), [documents, query]);
+  // Flache Liste in Anzeigereihenfolge für die Pfeiltasten
+  const flatResults = useMemo(() => groups.flatMap((group) => group.results), [groups]);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  const openResult = (result: SearchResult) => {
+    const { tab, itemId, params } = result.document;
+    // Gleicher Link erneut gewählt: Hash kurz leeren, damit erneut gescrollt wird
+    if (itemId && window.location.hash.includes(`/${encodeURIComponent(itemId)}`)) {
+      navigate({ tab, params }, { replace: true });
+    }
+    navigate({ tab, itemId, params });
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex((index) => Math.min(index + 1, flatResults.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && flatResults[selectedIndex]) {
+      e.preventDefault();
+      openResult(flatResults[selectedIndex]);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 z-50 flex items-start justify-center p-4 pt-[10vh]"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-xl bg-gray-800 rounded-lg shadow-xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-label="Search all trackers"
+      >
+        <div className="flex items-center gap-2 p-3 border-b border-gray-700">
+          <Search className="w-5 h-5 text-gray-400" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search projects, goals, notes, todos, budget, wishlist..."
+            className="flex-1 bg-transparent outline-none text-white placeholder-gray-400"
+          />
+          <button onClick={onClose} className="p-1 hover:bg-gray-700 rounded" aria-label="Close search">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          {query.trim() && flatResults.length === 0 && (
+            <p className="p-4 text-sm text-gray-400">No results for "{query}".</p>
+          )}
+          {groups.map((group) => (
+            <div key={group.tab}>
+              <div className="px-3 pt-3 pb-1 text-xs uppercase tracking-wide text-gray-400">
+                {tabNames[group.tab] ?? group.tab}
+              </div>
+              {group.results.map((result) => {
+                const index = flatResults.indexOf(result);
+                const { document, matchedText } = result;
+                return (
+                  <button
+                    key={`${document.tab}-${document.itemId ?? document.title}`}
+                    onClick={() => openResult(result)}
+                    onMouseEnter={() => setSelectedIndex(index)}
+                    className={`w-full text-left px-3 py-2 ${index === selectedIndex ? 'bg-blue-500/30' : 'hover:bg-gray-700'}`}
+                  >
+                    <div className="flex justify-between gap-2">
+                      <span className="truncate">{document.title}</span>
+                      {document.subtitle && (
+                        <span className="text-xs text-gray-400 whitespace-nowrap">{document.subtitle}</span>
+                      )}
+                    </div>
+                    {matchedText !== document.title && (
+                      <div className="text-xs text-gray-400 truncate">{matchedText}</div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        <div className="px-3 py-2 border-t border-gray-700 text-xs text-gray-500">
+          ↑↓ to select · Enter to open · Esc to close
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlobalSearch;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { Link2 } from 'lucide-react';
+import { TabId, formatRoute } from '../../routing/hashRoute';
+
+interface ItemLinkProps {
+  tab: TabId;
+  itemId: string | number;
+  title: string;
+  className?: string;
+}
+
+// Deep-Link (#/<tab>/<id>) auf einen einzelnen Eintrag – zum Bookmarken oder Teilen
+const ItemLink: React.FC<ItemLinkProps> = ({ tab, itemId, title, className = 'w-3 h-3 sm:w-4 sm:h-4' }) => (
+  <a
+    href={formatRoute({ tab, itemId: String(itemId) })}
+    className="p-1 hover:bg-gray-600 rounded"
+    title={title}
+    aria-label={title}
+  >
+    <Link2 className={className} />
+  </a>
+);
+
+export default ItemLink;
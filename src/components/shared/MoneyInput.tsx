@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import type { Money, NumberLocale } from '../../storage/types';
+import { formatAmountInput, parseMoney, toMoney } from '../../utils/money';
+
+interface MoneyInputProps {
+  value: Money | null;
+  currency: Money['currency'];
+  locale: NumberLocale;
+  onChange: (value: Money | null) => void;
+  // Leeres Feld erlaubt (z. B. Preis unbekannt) – liefert dann null
+  allowEmpty?: boolean;
+  className?: string;
+  inputClassName?: string;
+  placeholder?: string;
+  title?: string;
+  onEnter?: () => void;
+  // Damit Formulare das Speichern bei ungültiger Eingabe sperren können
+  onValidityChange?: (valid: boolean) => void;
+}
+
+const toText = (value: Money | null, locale: NumberLocale) => (value ? formatAmountInput(value.cents, locale) : '');
+
+// Betragsfeld mit Prüfung beim Tippen. Ungültige Eingaben bleiben im Feld
+// stehen und werden rot markiert, gespeichert wird nur ein gültiger Betrag.
+const MoneyInput: React.FC<MoneyInputProps> = ({
+  value,
+  currency,
+  locale,
+  onChange,
+  allowEmpty = false,
+  className = '',
+  inputClassName = 'p-2 bg-gray-700 rounded text-sm',
+  placeholder,
+  title,
+  onEnter,
+  onValidityChange,
+}) => {
+  const [text, setText] = useState(() => toText(value, locale));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onValidityChange?.(error === null);
+  }, [error, onValidityChange]);
+
+  // Von außen geänderte Werte übernehmen, solange das Feld nichts Abweichendes enthält
+  useEffect(() => {
+    setText((current) => {
+      const parsed = parseMoney(current, locale);
+      const currentCents = parsed.ok ? parsed.cents : null;
+      return currentCents === (value?.cents ?? null) ? current : toText(value, locale);
+    });
+    setError(null);
+  }, [value, locale]);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    if (!next.trim()) {
+      setError(allowEmpty ? null : 'Enter an amount.');
+      if (allowEmpty) onChange(null);
+      return;
+    }
+    const parsed = parseMoney(next, locale);
+    if (!parsed.ok) {
+      setError(parsed.error);
+    } else if (parsed.cents < 0) {
+      setError('The amount must not be negative.');
+    } else {
+      setError(null);
+      onChange(toMoney(parsed.cents, currency));
+    }
+  };
+
+  return (
+    <div className={className}>
+      <input
+        type="text"
+        inputMode="decimal"
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && !error && onEnter?.()}
+        className={`w-full text-white ${inputClassName} ${error ? 'ring-2 ring-red-500' : ''}`}
+        placeholder={placeholder ?? (locale === 'de-DE' ? '0,00' : '0.00')}
+        title={title}
+        aria-invalid={!!error}
+      />
+      {error && (
+        <p className="mt-1 text-xs text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MoneyInput;
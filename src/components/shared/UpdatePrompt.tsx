@@ -0,0 +1,47 @@
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+
+// Registriert den Service Worker und meldet, wenn ein neuer Build bereitsteht
+// oder die App vollständig offline verfügbar ist.
+const UpdatePrompt: React.FC = () => {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisterError(error) {
+      console.error('Service Worker-Registrierung fehlgeschlagen:', error);
+    },
+  });
+
+  if (!needRefresh && !offlineReady) return null;
+
+  const close = () => {
+    setNeedRefresh(false);
+    setOfflineReady(false);
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 max-w-sm bg-gray-800 border border-gray-600 rounded-lg shadow-lg p-4 flex items-start gap-3">
+      <div className="flex-1 text-sm">
+        {needRefresh
+          ? 'A new version is available.'
+          : 'The app is ready to work offline.'}
+      </div>
+      {needRefresh && (
+        <button
+          onClick={() => updateServiceWorker(true)}
+          className="flex items-center gap-1 px-3 py-1 bg-blue-500 hover:bg-blue-600 rounded text-sm"
+        >
+          <RefreshCw className="w-4 h-4" /> Reload
+        </button>
+      )}
+      <button onClick={close} className="p-1 hover:bg-gray-600 rounded" aria-label="Close">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
@@ -2,33 +2,16 @@ import React, { useState, useRef, ChangeEvent } from 'react';
 import { Plus, X, Star, Archive, Download, Upload } from 'lucide-react';
 import Note from '../shared/Note';
 import Milestone from '../shared/Milestone';
-import { useIndexedDB } from './useIndexedDB';
-
-interface MilestoneType {
-  id: number;
-  name: string;
-  completed: boolean;
-}
-
-interface NoteType {
-  id: number;
-  text: string;
-  timestamp: string;
-}
-
-interface Goal {
-  id: number;
-  name: string;
-  deadline: string;
-  status: string;
-  image: string | null;
-  difficulty: number;
-  milestones: MilestoneType[];
-  notes: NoteType[];
-  order: number;
-  archived: boolean;
-  favorite: boolean;
-}
+import CircleProgress from '../shared/CircleProgress';
+import ItemLink from '../shared/ItemLink';
+import { useIndexedDB } from '../../storage/useIndexedDB';
+import { repositories, updateStore } from '../../storage/repositories';
+import { DEFAULT_GOALS } from '../../storage/defaults';
+import { migrateValue } from '../../storage/migrations';
+import type { Goal } from '../../storage/types';
+import { getElapsedPercentage } from '../../utils/dates';
+import { getItemElementId } from '../../routing/hashRoute';
+import { registerCommands } from '../../commands/registry';
 
 interface DifficultyIndicatorProps {
   value: number;
@@ -56,27 +39,27 @@ const DifficultyIndicator: React.FC<DifficultyIndicatorProps> = ({ value, onChan
     </div>
   );
 };
-//Ich werde diesen Code hier löschen
+
 type SortOption = 'default' | 'alphabet' | 'date' | 'difficulty';
 
-const GoalTracker: React.FC = () => {
-  // Verwende useIndexedDB statt useLocalStorage.
-  const [goals, setGoals] = useIndexedDB<Goal[]>('projectGoals', [{
-    id: 1,
-    name: 'New Goal',
-    deadline: new Date().toISOString(),
-    status: 'Not Started',
-    image: null,
-    difficulty: 3,
-    milestones: [
-      { id: 1, name: 'First Step', completed: false },
-      { id: 2, name: 'Second Step', completed: false }
-    ],
-    notes: [],
-    order: 1,
-    archived: false,
-    favorite: false
-  }]);
+registerCommands('goals', async ({ navigate }) => {
+  const goals = (await repositories.goals.load()) ?? DEFAULT_GOALS;
+  return goals.map(goal => ({
+    id: `goals-archive-${goal.id}`,
+    title: `${goal.archived ? 'Unarchive' : 'Archive'} goal ${goal.name}`,
+    section: 'Goals',
+    run: async () => {
+      await updateStore('goals', DEFAULT_GOALS, goals =>
+        goals.map(g => (g.id === goal.id ? { ...g, archived: !g.archived } : g))
+      );
+      navigate({ tab: 'goals', itemId: String(goal.id) });
+    }
+  }));
+});
+
+const GoalsTracker: React.FC = () => {
+  // Ziele liegen im eigenen Store 'goals' – getrennt von den Projekten im ProjectTracker
+  const [goals, setGoals] = useIndexedDB('goals', DEFAULT_GOALS);
 
   const [draggedGoalId, setDraggedGoalId] = useState<number | null>(null);
   const [dragOverGoalId, setDragOverGoalId] = useState<number | null>(null);
@@ -147,7 +130,8 @@ const GoalTracker: React.FC = () => {
       notes: [],
       order: goals.length + 1,
       archived: false,
-      favorite: false
+      favorite: false,
+      createdAt: new Date().toISOString()
     };
     setGoals([...goals, newGoal]);
   };
@@ -272,7 +256,8 @@ const GoalTracker: React.FC = () => {
         if (!Array.isArray(data.goals)) {
           throw new Error('Invalid JSON format: goals missing');
         }
-        setGoals(data.goals);
+        // Ältere Backups können Felder wie difficulty oder archived noch nicht enthalten
+        setGoals(migrateValue('goals', data.goals, 0));
         alert('Import successful!');
       } catch (err) {
         alert('Error during import!');
@@ -331,11 +316,15 @@ const GoalTracker: React.FC = () => {
           const progress = goal.milestones.length
             ? Math.round((goal.milestones.filter(m => m.completed).length / goal.milestones.length) * 100)
             : 0;
+          const timeElapsed = goal.createdAt
+            ? Math.round(getElapsedPercentage(goal.createdAt, goal.deadline))
+            : 0;
           const isDragged = draggedGoalId === goal.id;
           const isDraggedOver = dragOverGoalId === goal.id;
           return (
             <div
               key={goal.id}
+              id={getItemElementId('goals', goal.id)}
               className={`bg-gray-700/50 p-3 sm:p-4 rounded-lg flex flex-col transition-all duration-200
                 ${isDragged ? 'opacity-50' : 'opacity-100'}
                 ${isDraggedOver ? 'border-2 border-blue-500 scale-105' : 'border border-transparent'}`}
@@ -386,6 +375,7 @@ const GoalTracker: React.FC = () => {
                     {goal.status}
                   </span>
                   <div className="flex items-center">
+                    <ItemLink tab="goals" itemId={goal.id} title="Link to this goal" />
                     <button
                       onClick={() => toggleFavoriteGoal(goal.id)}
                       className={`p-1 hover:bg-gray-600 rounded ${goal.favorite ? 'text-yellow-400' : ''}`}
@@ -427,10 +417,18 @@ const GoalTracker: React.FC = () => {
               </div>
               <div className="mb-3">
                 <span className="block text-xs sm:text-sm font-semibold mb-1">Progress</span>
-                <div className="w-full bg-gray-300 rounded-full h-2">
-                  <div className="bg-blue-500 h-2 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
+                <div className="flex items-center gap-3">
+                  <CircleProgress
+                    rings={[
+                      { percentage: progress, label: 'Tasks' },
+                      ...(goal.createdAt ? [{ percentage: timeElapsed, label: 'Time elapsed', color: '#60a5fa' }] : [])
+                    ]}
+                  />
+                  <div className="text-xs space-y-1">
+                    <div>Tasks: {progress}%</div>
+                    {goal.createdAt && <div className="text-blue-300">Time elapsed: {timeElapsed}%</div>}
+                  </div>
                 </div>
-                <span className="text-xs">{progress}%</span>
               </div>
               <div className="mb-3">
                 <label className="text-xs sm:text-sm font-semibold block mb-1">Deadline</label>
@@ -541,6 +539,7 @@ const GoalTracker: React.FC = () => {
               return (
                 <div
                   key={goal.id}
+                  id={getItemElementId('goals', goal.id)}
                   className="bg-gray-700/50 p-3 sm:p-4 rounded-lg flex flex-col opacity-70"
                 >
                   <div className="relative mb-3 sm:mb-4">
@@ -600,10 +599,7 @@ const GoalTracker: React.FC = () => {
                   </div>
                   <div className="mb-3">
                     <span className="block text-xs sm:text-sm font-semibold mb-1">Progress</span>
-                    <div className="w-full bg-gray-300 rounded-full h-2">
-                      <div className="bg-blue-500 h-2 rounded-full" style={{ width: `${progress}%` }}></div>
-                    </div>
-                    <span className="text-xs">{progress}%</span>
+                    <CircleProgress percentage={progress} size={48} strokeWidth={5} animated={false} />
                   </div>
                   <div className="mb-3">
                     <label className="text-xs sm:text-sm font-semibold block mb-1">Deadline</label>
@@ -624,4 +620,4 @@ const GoalTracker: React.FC = () => {
   );
 };
 
-export default GoalTracker;
+export default GoalsTracker;
@@ -1,171 +1,124 @@
 import React, { useState, useEffect } from 'react';
+import CircleProgress, { ColorThreshold } from '../shared/CircleProgress';
+import EntryList from '../budget/EntryList';
+import MonthPicker from '../budget/MonthPicker';
+import MonthlyHistory from '../budget/MonthlyHistory';
+import BudgetCharts from '../budget/BudgetCharts';
+import SavingsPots from '../budget/SavingsPots';
+import HouseholdPanel from '../budget/HouseholdPanel';
+import MonthlyReport from '../budget/MonthlyReport';
+import ScenarioPanel from '../budget/ScenarioPanel';
+import SpendingCaps from '../budget/SpendingCaps';
+import UpcomingPayments from '../budget/UpcomingPayments';
+import CsvImportDialog from '../budget/CsvImportDialog';
+import CurrencySettings from '../shared/CurrencySettings';
+import { useIndexedDB } from '../../storage/useIndexedDB';
+import { repositories, updateStore } from '../../storage/repositories';
+import {
+  DEFAULT_EXPENSES,
+  DEFAULT_EXPENSE_CATEGORIES,
+  DEFAULT_INCOMES,
+  DEFAULT_INCOME_CATEGORIES,
+  createDefaultEntries,
+} from '../../storage/defaults';
+import { migrateValue } from '../../storage/migrations';
+import { loadSettings } from '../../storage/settings';
+import type { BudgetPeriod, CategoryCap, CurrencyCode, FinancialEntry, HouseholdMember } from '../../storage/types';
+import { useSettings } from '../../hooks/useSettings';
+import { useHashRoute } from '../../routing/hashRoute';
+import { registerCommands } from '../../commands/registry';
+import { calculateTotals } from '../../budget/totals';
+import {
+  addDueRecurringEntries,
+  addPeriod,
+  createEntryId,
+  createPeriod,
+  getEntriesForMonth,
+  getMonthlyHistory,
+} from '../../budget/periods';
+import { createMonthCsv } from '../../budget/csvExport';
+import { formatUsagePercent, getCategoryUsage, getRaisedAlerts } from '../../budget/caps';
+import { formatMonth, getMonthKey } from '../../utils/dates';
+import { formatMoney, parseMoney, toMoney } from '../../utils/money';
 
 // --------------------------------------------------------
 //    1. Typen und Interfaces
 // --------------------------------------------------------
-interface FinancialEntry {
-  category: string;
-  amount: string;
-  purpose: string;
-}
-
 interface BudgetData {
   incomes: FinancialEntry[];
   expenses: FinancialEntry[];
+  // Fehlt in Exporten aus der Zeit vor den Monatsperioden
+  budgetPeriods?: BudgetPeriod[];
+  // Fehlt in Exporten aus der Zeit vor der Kostenaufteilung
+  householdMembers?: HouseholdMember[];
+  // Ausgabenobergrenzen; fehlt in Exporten aus der Zeit davor
+  categoryLimits?: CategoryCap[];
 }
 
+type EntryKind = 'income' | 'expense';
+
 // --------------------------------------------------------
 //    2. Konstanten & Hilfsfunktionen
 // --------------------------------------------------------
 
-// DB_NAME und DB_VERSION festlegen
-const DB_NAME = 'householdBudgetDB';
-const DB_VERSION = 4; // Version nochmals erhöht, um sicherzustellen, dass Store-Struktur neu angelegt wird
-
-// parseGermanFloat: Ersetzt Komma durch Punkt und parst dann
-function parseGermanFloat(value: string): number {
-  return parseFloat(value.replace(',', '.'));
+// Ausgabenanteil am Einkommen: grün, ab 80 % gelb, ab 100 % rot
+const SPENDING_THRESHOLDS: ColorThreshold[] = [
+  { min: 0, color: '#22c55e' },
+  { min: 80, color: '#eab308' },
+  { min: 100, color: '#ef4444' },
+];
+
+const createEntry = (month: string, category: string, currency: CurrencyCode, cents = 0): FinancialEntry => ({
+  id: createEntryId(),
+  month,
+  category,
+  amount: toMoney(cents, currency),
+  purpose: '',
+});
+
+// Legt den Monat an, falls es ihn noch nicht gibt, und übernimmt dabei die
+// fälligen wiederkehrenden Einträge aus den Vormonaten
+async function ensureBudgetPeriod(month: string) {
+  const periods = (await repositories.budgetPeriods.load()) ?? [];
+  if (periods.some((period) => period.month === month)) return;
+
+  const incomes = (await repositories.incomes.load()) ?? DEFAULT_INCOMES;
+  const expenses = (await repositories.expenses.load()) ?? DEFAULT_EXPENSES;
+  const next = createPeriod(month, periods, incomes, expenses);
+  await repositories.incomes.save(next.incomes);
+  await repositories.expenses.save(next.expenses);
+  await repositories.budgetPeriods.save(next.periods);
 }
 
-// --------------------------------------------------------
-//    3. Initialisieren der IndexedDB
-// --------------------------------------------------------
-function initDB(): Promise<boolean> {
-  return new Promise((resolve, reject) => {
-    console.log(`Initializing IndexedDB "${DB_NAME}" with version ${DB_VERSION}`);
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      console.log('DB upgrade needed, creating stores...');
-
-      // Lösche existierende Stores, falls sie vorhanden sind
-      if (db.objectStoreNames.contains('incomes')) {
-        db.deleteObjectStore('incomes');
+// Befehle für die Befehlspalette: neue Zeile mit Betrag im aktuellen Monat anlegen
+registerCommands('budget', ({ navigate }) =>
+  (['income', 'expense'] as const).map((kind) => ({
+    id: `budget-add-${kind}`,
+    title: kind === 'income' ? 'Add income' : 'Add expense',
+    section: 'Budget',
+    prompt: 'Amount (e.g. 1.234,56 or 1,234.56)',
+    run: async (amount = '') => {
+      const { currency, locale } = await loadSettings();
+      const parsed = amount.trim() ? parseMoney(amount, locale) : { ok: true as const, cents: 0 };
+      if (!parsed.ok || parsed.cents < 0) {
+        alert(parsed.ok ? 'The amount must not be negative.' : parsed.error);
+        return;
       }
-      if (db.objectStoreNames.contains('expenses')) {
-        db.deleteObjectStore('expenses');
-      }
-
-      // Erstelle neue Stores
-      db.createObjectStore('incomes');
-      db.createObjectStore('expenses');
-
-      console.log('Stores successfully created');
-    };
-
-    request.onsuccess = () => {
-      console.log('IndexedDB initialized successfully');
-      resolve(true);
-    };
-
-    request.onerror = (event) => {
-      console.error('Error initializing IndexedDB:', (event.target as IDBOpenDBRequest).error);
-      reject((event.target as IDBOpenDBRequest).error);
-    };
-  });
-}
+      const month = getMonthKey(new Date());
+      await ensureBudgetPeriod(month);
+      const entry = createEntry(month, kind === 'income' ? 'New Income' : 'New Expense', currency, parsed.cents);
+      await updateStore(
+        kind === 'income' ? 'incomes' : 'expenses',
+        kind === 'income' ? DEFAULT_INCOMES : DEFAULT_EXPENSES,
+        (current) => [...current, entry]
+      );
+      navigate({ tab: 'budget', itemId: entry.id, params: { month } });
+    },
+  }))
+);
 
 // --------------------------------------------------------
-//    4. useIndexedDB Hook (überarbeitet)
-// --------------------------------------------------------
-export function useIndexedDB<T>(
-  storeName: string,
-  initialValue: T
-): [T, (value: T | ((val: T) => T)) => void] {
-  const [data, setData] = useState<T>(initialValue);
-  const [isInitialized, setIsInitialized] = useState(false);
-
-  // Laden der Daten aus IndexedDB
-  const loadData = () => {
-    console.log(`Loading data from store "${storeName}"...`);
-
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onsuccess = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      const transaction = db.transaction(storeName, 'readonly');
-      const store = transaction.objectStore(storeName);
-      const getRequest = store.get('data');
-
-      getRequest.onsuccess = () => {
-        if (getRequest.result) {
-          console.log(`[${storeName}] Data loaded:`, getRequest.result);
-          setData(getRequest.result);
-        } else {
-          console.log(`[${storeName}] No data found, using initialValue`);
-          saveData(initialValue);
-        }
-        setIsInitialized(true);
-      };
-
-      getRequest.onerror = (e) => {
-        console.error(`[${storeName}] Error loading data:`, e);
-        setIsInitialized(true);
-      };
-
-      transaction.oncomplete = () => {
-        db.close();
-      };
-    };
-
-    request.onerror = (event) => {
-      console.error(`Error opening DB for reading:`, (event.target as IDBOpenDBRequest).error);
-      setIsInitialized(true);
-    };
-  };
-
-  // Speichern der Daten in IndexedDB
-  const saveData = (valueToSave: T) => {
-    console.log(`[${storeName}] Saving data:`, valueToSave);
-
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onsuccess = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      const transaction = db.transaction(storeName, 'readwrite');
-      const store = transaction.objectStore(storeName);
-
-      const putRequest = store.put(valueToSave, 'data');
-
-      putRequest.onsuccess = () => {
-        console.log(`[${storeName}] Data successfully saved`);
-      };
-
-      putRequest.onerror = (e) => {
-        console.error(`[${storeName}] Error saving data:`, e);
-      };
-
-      transaction.oncomplete = () => {
-        db.close();
-      };
-    };
-
-    request.onerror = (event) => {
-      console.error(`Error opening DB for writing:`, (event.target as IDBOpenDBRequest).error);
-    };
-  };
-
-  // Initialisierung und Laden beim ersten Rendern
-  useEffect(() => {
-    // Initialisiere DB und lade anschließend die Daten
-    initDB()
-      .then(() => loadData())
-      .catch(error => console.error('Failed to initialize DB:', error));
-  }, [storeName]); // Abhängigkeit nur vom storeName
-
-  // Funktion zum Aktualisieren des Zustands und Speichern in IndexedDB
-  const setValue = (value: T | ((val: T) => T)) => {
-    const newValue = value instanceof Function ? value(data) : value;
-    setData(newValue);
-    saveData(newValue);
-  };
-
-  return [data, setValue];
-}
-
-// --------------------------------------------------------
-//    5. Export- / Import-Funktionen
+//    3. Export- / Import-Funktionen
 // --------------------------------------------------------
 export function exportData(data: any, filename: string = 'progress.json') {
   const jsonData = JSON.stringify(data, null, 2);
@@ -176,6 +129,15 @@ export function exportData(data: any, filename: string = 'progress.json') {
   link.click();
 }
 
+// CSV mit BOM, damit Excel Umlaute richtig erkennt
+export function exportCsv(csv: string, filename: string) {
+  const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+}
+
 export function importData(callback: (data: any) => void) {
   const input = document.createElement('input');
   input.type = 'file';
@@ -200,130 +162,206 @@ export function importData(callback: (data: any) => void) {
 }
 
 // --------------------------------------------------------
-//    6. Hauptkomponente
+//    4. Hauptkomponente
 // --------------------------------------------------------
 const HouseholdBudgetCalculator: React.FC = () => {
-  // Default-Kategorien
-  const defaultIncomeCategories = [
-    'Salary Person 1',
-    'Salary Person 2',
-    'Side Job',
-    'Other Income',
-  ];
-  const defaultExpenseCategories = [
-    'Rent/Mortgage',
-    'Utilities',
-    'Groceries',
-    'Transportation',
-    'Insurance',
-  ];
-
-  // Initialer Zustand für Income und Expenses
-  const initialIncomes = defaultIncomeCategories.map((category) => ({
-    category,
-    amount: '0',
-    purpose: '',
-  }));
-
-  const initialExpenses = defaultExpenseCategories.map((category) => ({
-    category,
-    amount: '0',
-    purpose: '',
-  }));
-
   // State kommt aus unseren useIndexedDB Hooks
-  const [incomes, setIncomes] = useIndexedDB<FinancialEntry[]>('incomes', initialIncomes);
-  const [expenses, setExpenses] = useIndexedDB<FinancialEntry[]>('expenses', initialExpenses);
+  const [incomes, setIncomes, isIncomesLoaded] = useIndexedDB('incomes', DEFAULT_INCOMES);
+  const [expenses, setExpenses, isExpensesLoaded] = useIndexedDB('expenses', DEFAULT_EXPENSES);
+  const [periods, setPeriods, isPeriodsLoaded] = useIndexedDB('budgetPeriods', []);
+  const [members, setMembers] = useIndexedDB('householdMembers', []);
+  const [caps, setCaps] = useIndexedDB('categoryLimits', []);
+  const [settings] = useSettings();
+  const formatAmount = (cents: number) => formatMoney(toMoney(cents, settings.currency), settings.locale);
+
+  // Der ausgewählte Monat steht in der URL (#/budget?month=2026-10)
+  const currentMonth = getMonthKey(new Date());
+  const { route, navigate } = useHashRoute();
+  const selectedMonth =
+    route?.tab === 'budget' && /^\d{4}-\d{2}$/.test(route.params.month ?? '')
+      ? route.params.month
+      : currentMonth;
+  const setSelectedMonth = (month: string) =>
+    navigate({ tab: 'budget', params: month === currentMonth ? {} : { month } }, { replace: true });
 
   // Notification-System
   const [notification, setNotification] = useState<{
     message: string;
-    type: 'success' | 'error';
+    type: 'success' | 'warning' | 'error';
   }>({ message: '', type: 'success' });
 
-  const showNotification = (message: string, type: 'success' | 'error') => {
+  const showNotification = (message: string, type: 'success' | 'warning' | 'error') => {
     setNotification({ message, type });
     setTimeout(() => setNotification({ message: '', type: 'success' }), 3000);
   };
 
-  // Summen berechnen
-  const calculateTotals = () => {
-    const totalIncome = incomes.reduce(
-      (sum, entry) => sum + parseGermanFloat(entry.amount || '0'),
-      0
-    );
-    const totalExpenses = expenses.reduce(
-      (sum, entry) => sum + parseGermanFloat(entry.amount || '0'),
-      0
-    );
-    const balance = totalIncome - totalExpenses;
-    return { totalIncome, totalExpenses, balance };
+  // Legt den Monat über die Hooks an (wie ensureBudgetPeriod), damit
+  // gleichzeitige Änderungen nicht von einem veralteten Stand überschrieben werden
+  const isBudgetLoaded = isIncomesLoaded && isExpensesLoaded && isPeriodsLoaded;
+  const startPeriod = (month: string) => {
+    if (periods.some((period) => period.month === month)) return;
+    setIncomes((prev) => addDueRecurringEntries(prev, month));
+    setExpenses((prev) => addDueRecurringEntries(prev, month));
+    setPeriods((prev) => addPeriod(prev, month));
   };
 
-  // Debug-Log: Was ist gerade in incomes / expenses drin?
+  // Neuer Monat: wiederkehrende Einträge automatisch übernehmen
   useEffect(() => {
-    console.log('Current incomes:', incomes);
-    console.log('Current expenses:', expenses);
-  }, [incomes, expenses]);
+    if (isBudgetLoaded) startPeriod(currentMonth);
+  }, [isBudgetLoaded, currentMonth]);
+
+  const monthIncomes = getEntriesForMonth(incomes, selectedMonth);
+  const monthExpenses = getEntriesForMonth(expenses, selectedMonth);
+  const hasPeriod =
+    periods.some((period) => period.month === selectedMonth) ||
+    monthIncomes.length > 0 ||
+    monthExpenses.length > 0;
+
+  const startSelectedMonth = () => {
+    startPeriod(selectedMonth);
+    showNotification(`Started ${formatMonth(selectedMonth)}.`, 'success');
+  };
+
+  const setEntries = (kind: EntryKind) => (kind === 'income' ? setIncomes : setExpenses);
 
   // Neue Zeile hinzufügen
-  const addIncomeRow = () => {
-    const newIncomes = [...incomes, { category: 'New Income', amount: '0', purpose: '' }];
-    setIncomes(newIncomes);
+  const addRow = (kind: EntryKind) => {
+    const entry = createEntry(selectedMonth, kind === 'income' ? 'New Income' : 'New Expense', settings.currency);
+    setEntries(kind)((prev) => [...prev, entry]);
   };
 
-  const addExpenseRow = () => {
-    const newExpenses = [...expenses, { category: 'New Expense', amount: '0', purpose: '' }];
-    setExpenses(newExpenses);
+  // Zeile löschen
+  const deleteRow = (kind: EntryKind, id: string) => {
+    setEntries(kind)((prev) => prev.filter((entry) => entry.id !== id));
   };
 
-  // Zeile löschen
-  const deleteIncomeRow = (index: number) => {
-    const newIncomes = [...incomes];
-    newIncomes.splice(index, 1);
-    setIncomes(newIncomes);
+  // Eingaben updaten
+  const updateEntry = (kind: EntryKind, id: string, changes: Partial<FinancialEntry>) => {
+    const update = (entries: FinancialEntry[]) =>
+      entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry));
+    if (kind === 'expense') notifyCapAlerts(expenses, update(expenses));
+    setEntries(kind)(update);
   };
 
-  const deleteExpenseRow = (index: number) => {
-    const newExpenses = [...expenses];
-    newExpenses.splice(index, 1);
-    setExpenses(newExpenses);
+  // Warnung, sobald eine Kategorie in einem Monat eine höhere Schwelle ihrer
+  // Obergrenze erreicht; Monate außer dem gewählten werden mit Namen genannt.
+  // Liefert false, wenn es nichts zu melden gab.
+  const notifyCapAlerts = (before: FinancialEntry[], after: FinancialEntry[], intro = '') => {
+    const months = Array.from(new Set(after.map((entry) => entry.month))).sort();
+    const alerts = months.flatMap((month) => {
+      const usage = (entries: FinancialEntry[]) =>
+        getCategoryUsage(getEntriesForMonth(entries, month), caps, settings.limitThresholds);
+      return getRaisedAlerts(usage(before), usage(after)).map((alert) => ({ ...alert, month }));
+    });
+    if (alerts.length === 0) return false;
+    showNotification(
+      [
+        intro,
+        ...alerts.map(
+          (alert) =>
+            `${alert.month === selectedMonth ? '' : `${formatMonth(alert.month)} · `}${alert.category}: ` +
+            `${formatUsagePercent(alert.percent)} of the ${formatAmount(alert.cap)} cap spent.`
+        ),
+      ]
+        .filter(Boolean)
+        .join(' '),
+      alerts.some((alert) => alert.status === 'critical') ? 'error' : 'warning'
+    );
+    return true;
   };
 
-  // Eingaben updaten
-  const updateIncomeEntry = (index: number, field: keyof FinancialEntry, value: string) => {
-    const newIncomes = [...incomes];
-    newIncomes[index] = { ...newIncomes[index], [field]: value };
-    console.log('[Incomes] Updating to:', newIncomes);
-    setIncomes(newIncomes);
+  // Haushaltsmitglieder
+  const addMember = (name: string) => {
+    setMembers((prev) => [...prev, { id: createEntryId(), name }]);
   };
 
-  const updateExpenseEntry = (index: number, field: keyof FinancialEntry, value: string) => {
-    const newExpenses = [...expenses];
-    newExpenses[index] = { ...newExpenses[index], [field]: value };
-    console.log('[Expenses] Updating to:', newExpenses);
-    setExpenses(newExpenses);
+  const renameMember = (id: string, name: string) => {
+    setMembers((prev) => prev.map((member) => (member.id === id ? { ...member, name } : member)));
+  };
+
+  // Entfernt das Mitglied auch als Zahler und aus eigenen Aufteilungen
+  const deleteMember = (member: HouseholdMember) => {
+    if (!window.confirm(`Remove ${member.name || 'this member'} from the household?`)) return;
+    const unassign = (entries: FinancialEntry[]) =>
+      entries.map((entry) => {
+        const next = { ...entry, payerId: entry.payerId === member.id ? undefined : entry.payerId };
+        if (entry.split?.mode === 'custom') {
+          const shares = { ...entry.split.shares };
+          delete shares[member.id];
+          next.split = { mode: 'custom', shares };
+        }
+        return next;
+      });
+    setMembers((prev) => prev.filter((candidate) => candidate.id !== member.id));
+    setIncomes(unassign);
+    setExpenses(unassign);
   };
 
   // Auf Default zurücksetzen
   const resetTables = () => {
-    setIncomes(initialIncomes);
-    setExpenses(initialExpenses);
+    setIncomes(createDefaultEntries(DEFAULT_INCOME_CATEGORIES, settings.currency));
+    setExpenses(createDefaultEntries(DEFAULT_EXPENSE_CATEGORIES, settings.currency));
+    setPeriods([{ month: currentMonth, createdAt: new Date().toISOString() }]);
+    setSelectedMonth(currentMonth);
     showNotification('Data reset.', 'success');
   };
 
+  // CSV-Import von Kontoauszügen
+  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
+
+  const handleCsvImport = (
+    next: { periods: BudgetPeriod[]; incomes: FinancialEntry[]; expenses: FinancialEntry[] },
+    count: number
+  ) => {
+    setPeriods(next.periods);
+    setIncomes(next.incomes);
+    setExpenses(next.expenses);
+    setIsCsvImportOpen(false);
+    // Erreichte Obergrenzen werden an die Erfolgsmeldung angehängt
+    const message = `Imported ${count} transactions.`;
+    if (!notifyCapAlerts(expenses, next.expenses, message)) showNotification(message, 'success');
+  };
+
   // Export / Import
   const handleExport = () => {
-    const data: BudgetData = { incomes, expenses };
+    const data: BudgetData = {
+      incomes,
+      expenses,
+      budgetPeriods: periods,
+      householdMembers: members,
+      categoryLimits: caps,
+    };
     exportData(data, 'household_budget.json');
     showNotification('Data exported successfully.', 'success');
   };
 
+  const handleCsvExport = () => {
+    exportCsv(
+      createMonthCsv(selectedMonth, monthIncomes, monthExpenses, members, settings),
+      `household_budget_${selectedMonth}.csv`
+    );
+    showNotification('CSV exported successfully.', 'success');
+  };
+
+  // Druckansicht des ausgewählten Monats
+  const [isReportOpen, setIsReportOpen] = useState(false);
+
   const handleImport = () => {
     importData((importedData: BudgetData) => {
       if (importedData.incomes && importedData.expenses) {
-        setIncomes(importedData.incomes);
-        setExpenses(importedData.expenses);
+        // Ältere Exporte haben noch keine ids, Monate und Cent-Beträge
+        const importedIncomes = migrateValue('incomes', importedData.incomes, 0);
+        const importedExpenses = migrateValue('expenses', importedData.expenses, 0);
+        setIncomes(importedIncomes);
+        setExpenses(importedExpenses);
+        if (importedData.householdMembers) setMembers(importedData.householdMembers);
+        if (importedData.categoryLimits) setCaps(migrateValue('categoryLimits', importedData.categoryLimits, 0));
+        setPeriods(
+          importedData.budgetPeriods ??
+            Array.from(new Set([...importedIncomes, ...importedExpenses].map((entry) => entry.month)))
+              .sort()
+              .map((month) => ({ month, createdAt: new Date().toISOString() }))
+        );
         showNotification('Data imported successfully.', 'success');
       } else {
         showNotification('Invalid data format.', 'error');
@@ -332,7 +370,9 @@ const HouseholdBudgetCalculator: React.FC = () => {
   };
 
   // Werte ausrechnen
-  const { totalIncome, totalExpenses, balance } = calculateTotals();
+  const { totalIncome, totalExpenses, balance } = calculateTotals(monthIncomes, monthExpenses);
+  const spentPercentage = totalIncome > 0 ? (totalExpenses / totalIncome) * 100 : 0;
+  const history = getMonthlyHistory(periods, incomes, expenses);
 
   // --------------------------------------------------------
   //    RENDER
@@ -349,6 +389,8 @@ const HouseholdBudgetCalculator: React.FC = () => {
           className={`p-3 sm:p-4 rounded mb-4 ${
             notification.type === 'success'
               ? 'bg-green-600 text-white'
+              : notification.type === 'warning'
+              ? 'bg-yellow-600 text-white'
               : 'bg-red-600 text-white'
           }`}
         >
@@ -356,161 +398,122 @@ const HouseholdBudgetCalculator: React.FC = () => {
         </div>
       )}
 
-      {/* Button-Leiste */}
-      <div className="flex flex-col sm:flex-row justify-end mb-4 sm:mb-6 space-y-2 sm:space-y-0 sm:space-x-2">
-        <button
-          onClick={() => {
-            if (window.confirm('Are you sure you want to reset all data?')) {
-              resetTables();
-            }
-          }}
-          className="bg-gray-500 text-white px-3 py-2 sm:px-4 sm:py-2 rounded hover:bg-gray-600 text-sm sm:text-base"
-        >
-          Reset
-        </button>
-        <button
-          onClick={handleExport}
-          className="bg-blue-500 text-white px-3 py-2 sm:px-4 sm:py-2 rounded hover:bg-blue-600 text-sm sm:text-base"
-        >
-          Export
-        </button>
-        <button
-          onClick={handleImport}
-          className="bg-blue-500 text-white px-3 py-2 sm:px-4 sm:py-2 rounded hover:bg-blue-600 text-sm sm:text-base"
-        >
-          Import
-        </button>
+      {/* Monatsauswahl und Button-Leiste */}
+      <div className="flex flex-col sm:flex-row justify-between gap-2 mb-4 sm:mb-6">
+        <MonthPicker month={selectedMonth} currentMonth={currentMonth} onChange={setSelectedMonth} />
+        <div className="flex flex-wrap gap-2">
+          <CurrencySettings />
+          <button
+            onClick={() => {
+              if (window.confirm('Are you sure you want to reset all data?')) {
+                resetTables();
+              }
+            }}
+            className="bg-gray-500 text-white px-3 py-2 sm:px-4 sm:py-2 rounded hover:bg-gray-600 text-sm sm:text-base"
+          >
+            Reset
+          </button>
+          <button
+            onClick={handleExport}
+            className="bg-blue-500 text-white px-3 py-2 sm:px-4 sm:py-2 rounded hover:bg-blue-600 text-sm sm:text-base"
+          >
+            Export
+          </button>
+          <button
+            onClick={handleCsvExport}
+            className="bg-blue-500 text-white px-3 py-2 sm:px-4 sm:py-2 rounded hover:bg-blue-600 text-sm sm:text-base"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => setIsReportOpen(true)}
+            className="bg-blue-500 text-white px-3 py-2 sm:px-4 sm:py-2 rounded hover:bg-blue-600 text-sm sm:text-base"
+          >
+            Report
+          </button>
+          <button
+            onClick={handleImport}
+            className="bg-blue-500 text-white px-3 py-2 sm:px-4 sm:py-2 rounded hover:bg-blue-600 text-sm sm:text-base"
+          >
+            Import
+          </button>
+          <button
+            onClick={() => setIsCsvImportOpen(true)}
+            className="bg-blue-500 text-white px-3 py-2 sm:px-4 sm:py-2 rounded hover:bg-blue-600 text-sm sm:text-base"
+          >
+            Import CSV
+          </button>
+        </div>
       </div>
 
-      {/* Incomes / Expenses Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
-        {/* Incomes */}
-        <div>
-          <h2 className="text-lg sm:text-xl font-bold text-white mb-2 sm:mb-4">
-            Income
-          </h2>
-          <div className="bg-gray-800 rounded-lg p-3 sm:p-4">
-            {incomes.map((entry, index) => (
-              <div
-                key={`income-${index}`}
-                className="mb-2 sm:mb-4 flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2"
-              >
-                <input
-                  type="text"
-                  value={entry.category}
-                  onChange={(e) =>
-                    updateIncomeEntry(index, 'category', e.target.value)
-                  }
-                  className="w-full sm:w-1/3 p-2 bg-gray-700 text-white rounded text-sm"
-                  placeholder="Category"
-                />
-                <input
-                  type="text"
-                  value={entry.amount}
-                  onChange={(e) =>
-                    updateIncomeEntry(index, 'amount', e.target.value)
-                  }
-                  className="w-full sm:w-1/3 p-2 bg-gray-700 text-white rounded text-sm"
-                  placeholder="Amount"
-                />
-                <input
-                  type="text"
-                  value={entry.purpose}
-                  onChange={(e) =>
-                    updateIncomeEntry(index, 'purpose', e.target.value)
-                  }
-                  className="w-full sm:w-1/3 p-2 bg-gray-700 text-white rounded text-sm"
-                  placeholder="Purpose"
-                />
-                <button
-                  onClick={() => deleteIncomeRow(index)}
-                  className="bg-red-500 text-white px-3 py-2 rounded self-start"
-                >
-                  X
-                </button>
-              </div>
-            ))}
-            <button
-              onClick={addIncomeRow}
-              className="bg-green-500 text-white px-3 py-2 rounded hover:bg-green-600 text-sm"
-            >
-              + Add Income
-            </button>
-          </div>
+      <h2 className="text-lg sm:text-xl font-semibold text-white mb-2 sm:mb-4">
+        {formatMonth(selectedMonth)}
+      </h2>
+
+      {!hasPeriod ? (
+        <div className="bg-gray-800 rounded-lg p-4 text-white flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <span className="text-sm text-gray-300">
+            No budget for {formatMonth(selectedMonth)} yet. Recurring entries will be carried over.
+          </span>
+          <button
+            onClick={startSelectedMonth}
+            className="bg-green-500 text-white px-3 py-2 rounded hover:bg-green-600 text-sm"
+          >
+            Start {formatMonth(selectedMonth)}
+          </button>
         </div>
-
-        {/* Expenses */}
-        <div>
-          <h2 className="text-lg sm:text-xl font-bold text-white mb-2 sm:mb-4">
-            Expenses
-          </h2>
-          <div className="bg-gray-800 rounded-lg p-3 sm:p-4">
-            {expenses.map((entry, index) => (
-              <div
-                key={`expense-${index}`}
-                className="mb-2 sm:mb-4 flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2"
-              >
-                <input
-                  type="text"
-                  value={entry.category}
-                  onChange={(e) =>
-                    updateExpenseEntry(index, 'category', e.target.value)
-                  }
-                  className="w-full sm:w-1/3 p-2 bg-gray-700 text-white rounded text-sm"
-                  placeholder="Category"
-                />
-                <input
-                  type="text"
-                  value={entry.amount}
-                  onChange={(e) =>
-                    updateExpenseEntry(index, 'amount', e.target.value)
-                  }
-                  className="w-full sm:w-1/3 p-2 bg-gray-700 text-white rounded text-sm"
-                  placeholder="Amount"
-                />
-                <input
-                  type="text"
-                  value={entry.purpose}
-                  onChange={(e) =>
-                    updateExpenseEntry(index, 'purpose', e.target.value)
-                  }
-                  className="w-full sm:w-1/3 p-2 bg-gray-700 text-white rounded text-sm"
-                  placeholder="Purpose"
-                />
-                <button
-                  onClick={() => deleteExpenseRow(index)}
-                  className="bg-red-500 text-white px-3 py-2 rounded self-start"
-                >
-                  X
-                </button>
-              </div>
-            ))}
-            <button
-              onClick={addExpenseRow}
-              className="bg-green-500 text-white px-3 py-2 rounded hover:bg-green-600 text-sm"
-            >
-              + Add Expense
-            </button>
-          </div>
+      ) : (
+        /* Incomes / Expenses Grid */
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+          <EntryList
+            title="Income"
+            addLabel="+ Add Income"
+            entries={monthIncomes}
+            onAdd={() => addRow('income')}
+            onUpdate={(id, changes) => updateEntry('income', id, changes)}
+            onDelete={(id) => deleteRow('income', id)}
+            settings={settings}
+            members={members}
+          />
+          <EntryList
+            title="Expenses"
+            addLabel="+ Add Expense"
+            entries={monthExpenses}
+            withLedger
+            onAdd={() => addRow('expense')}
+            onUpdate={(id, changes) => updateEntry('expense', id, changes)}
+            onDelete={(id) => deleteRow('expense', id)}
+            settings={settings}
+            members={members}
+          />
         </div>
-      </div>
+      )}
 
       {/* Zusammenfassung */}
       <div className="mt-4 sm:mt-6 bg-gray-800 rounded-lg p-3 sm:p-4">
-        <h2 className="text-lg sm:text-xl font-bold text-white mb-2 sm:mb-4">
-          Summary
-        </h2>
+        <div className="flex items-center justify-between mb-2 sm:mb-4">
+          <h2 className="text-lg sm:text-xl font-bold text-white">Summary</h2>
+          <div className="flex items-center gap-2 text-sm text-gray-300">
+            <span>Spent of income</span>
+            <CircleProgress
+              rings={[{ percentage: spentPercentage, label: 'Spent of income' }]}
+              size={56}
+              thresholds={SPENDING_THRESHOLDS}
+              label={`${Math.round(spentPercentage)}%`}
+            />
+          </div>
+        </div>
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-4 text-white">
           <div className="bg-gray-700 p-3 sm:p-4 rounded">
             <h3 className="text-base sm:text-lg font-semibold">Total Income</h3>
             <p className="text-xl sm:text-2xl font-bold">
-              {totalIncome.toFixed(2)} $
+              {formatAmount(totalIncome)}
             </p>
           </div>
           <div className="bg-gray-700 p-3 sm:p-4 rounded">
             <h3 className="text-base sm:text-lg font-semibold">Total Expenses</h3>
             <p className="text-xl sm:text-2xl font-bold">
-              {totalExpenses.toFixed(2)} $
+              {formatAmount(totalExpenses)}
             </p>
           </div>
           <div className="bg-gray-700 p-3 sm:p-4 rounded">
@@ -524,11 +527,77 @@ const HouseholdBudgetCalculator: React.FC = () => {
                   : 'text-white'
               }`}
             >
-              {balance.toFixed(2)} $
+              {formatAmount(balance)}
             </p>
           </div>
         </div>
       </div>
+
+      <UpcomingPayments selectedMonth={selectedMonth} monthExpenses={monthExpenses} formatAmount={formatAmount} />
+
+      <SpendingCaps
+        selectedMonth={selectedMonth}
+        currentMonth={currentMonth}
+        monthExpenses={monthExpenses}
+        formatAmount={formatAmount}
+      />
+
+      <ScenarioPanel selectedMonth={selectedMonth} incomes={incomes} expenses={expenses} settings={settings} />
+
+      <HouseholdPanel
+        members={members}
+        selectedMonth={selectedMonth}
+        monthIncomes={monthIncomes}
+        monthExpenses={monthExpenses}
+        onAddMember={addMember}
+        onRenameMember={renameMember}
+        onDeleteMember={deleteMember}
+        formatAmount={formatAmount}
+      />
+
+      <SavingsPots
+        selectedMonth={selectedMonth}
+        balance={balance}
+        settings={settings}
+        onNotify={showNotification}
+      />
+
+      <BudgetCharts
+        selectedMonth={selectedMonth}
+        monthExpenses={monthExpenses}
+        history={history}
+        formatAmount={formatAmount}
+      />
+
+      <MonthlyHistory
+        history={history}
+        selectedMonth={selectedMonth}
+        onSelect={setSelectedMonth}
+        formatAmount={formatAmount}
+      />
+
+      {isReportOpen && (
+        <MonthlyReport
+          month={selectedMonth}
+          monthIncomes={monthIncomes}
+          monthExpenses={monthExpenses}
+          history={history}
+          members={members}
+          settings={settings}
+          onExportCsv={handleCsvExport}
+          onClose={() => setIsReportOpen(false)}
+        />
+      )}
+
+      {isCsvImportOpen && (
+        <CsvImportDialog
+          periods={periods}
+          incomes={incomes}
+          expenses={expenses}
+          onImport={handleCsvImport}
+          onClose={() => setIsCsvImportOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,23 +1,45 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, X, Download, Upload } from 'lucide-react';
 import { RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar, ResponsiveContainer } from 'recharts';
-import { useIndexedDB } from './useIndexedDB'; // Importieren des useIndexedDB hooks
+import { useIndexedDB } from '../../storage/useIndexedDB';
+import { repositories, updateStore } from '../../storage/repositories';
+import { DEFAULT_LIFE_EQ_CATEGORIES } from '../../storage/defaults';
+import { getItemElementId } from '../../routing/hashRoute';
+import { registerCommands } from '../../commands/registry';
 
-interface Category {
-  name: string;
-  value: number;
-}
+registerCommands('lifeEQ', async ({ navigate }) => {
+  const categories = (await repositories.lifeEqCategories.load()) ?? DEFAULT_LIFE_EQ_CATEGORIES;
+  return [
+    {
+      id: 'lifeEQ-add',
+      title: 'Add life balance category',
+      section: 'Life Balance',
+      keywords: ['area', 'new'],
+      prompt: 'Name of the new category:',
+      run: async (name = '') => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        // Der Name dient als id (Deep Link), daher keine Duplikate
+        await updateStore('lifeEqCategories', DEFAULT_LIFE_EQ_CATEGORIES, categories =>
+          categories.some(category => category.name === trimmed)
+            ? categories
+            : [...categories, { name: trimmed, value: 5 }]
+        );
+        navigate({ tab: 'lifeEQ', itemId: trimmed });
+      }
+    },
+    ...categories.map(category => ({
+      id: `lifeEQ-open-${category.name}`,
+      title: `Open life balance category ${category.name}`,
+      section: 'Life Balance',
+      run: () => navigate({ tab: 'lifeEQ', itemId: category.name })
+    }))
+  ];
+});
 
 const LifeEQTracker: React.FC = () => {
   // LocalStorage durch IndexedDB ersetzen
-  const [categories, setCategories] = useIndexedDB<Category[]>('lifeEqCategories', [
-    { name: 'Health', value: 8 },
-    { name: 'Relationships', value: 7 },
-    { name: 'Career', value: 6 },
-    { name: 'Finance', value: 5 },
-    { name: 'Growth', value: 7 },
-    { name: 'Leisure', value: 6 }
-  ]);
+  const [categories, setCategories] = useIndexedDB('lifeEqCategories', DEFAULT_LIFE_EQ_CATEGORIES);
   const [newCategory, setNewCategory] = useState('');
   const [chartDimension, setChartDimension] = useState({ width: 300, height: 300 });
 
@@ -93,7 +115,7 @@ const LifeEQTracker: React.FC = () => {
           </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-1 xl:grid-cols-2 gap-4">
             {categories.map((category, index) => (
-              <div key={index} className="bg-gray-700/50 p-4 rounded-lg">
+              <div key={index} id={getItemElementId('lifeEQ', category.name)} className="bg-gray-700/50 p-4 rounded-lg">
                 <div className="flex justify-between items-center mb-2">
                   <span className="text-sm sm:text-base font-medium">{category.name}</span>
                   <button
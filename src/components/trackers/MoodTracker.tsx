@@ -1,100 +1,27 @@
-import React, { useState, useEffect } from 'react';
-import { X, Download, Upload } from 'lucide-react';
+import React, { useState } from 'react';
+import { X, Download, Upload, Pencil, Check } from 'lucide-react';
 import Note from '../shared/Note';
-
-interface MoodEntry {
-  id: number;
-  mood: {
-    id: number;
-    label: string;
-    color: string;
-    emoji: string;
-  };
-  timestamp: string;
-  notes: {
-    id: number;
-    text: string;
-    timestamp: string;
-  }[];
-}
-
-const DB_NAME = 'moodTrackerDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'moodEntries';
-//Das hat mir leider nicht so gut gefallen, da ich nicht wusste wie ich das machen sollte.
-const useIndexedDB = <T,>(key: string, initialValue: T): [T, (value: T | ((val: T) => T)) => void] => {
-  const [data, setData] = useState<T>(initialValue);
-//Diese Stück hier werde ich auch löschen müssen.. leider
-  useEffect(() => {
-    let db: IDBDatabase;
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onupgradeneeded = (event) => {
-      db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-      }
-    };
-
-    request.onsuccess = (event) => {
-      db = (event.target as IDBOpenDBRequest).result;
-      const transaction = db.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const getRequest = store.get(key);
-
-      getRequest.onsuccess = () => {
-        if (getRequest.result) {
-          setData(getRequest.result.value);
-        } else {
-          const writeTransaction = db.transaction(STORE_NAME, 'readwrite');
-          const writeStore = writeTransaction.objectStore(STORE_NAME);
-          writeStore.put({ id: key, value: initialValue });
-        }
-      };
-
-      getRequest.onerror = (e) => console.error('Error reading from IndexedDB', e);
-    };
-
-    request.onerror = (event) => {
-      console.error('Error opening IndexedDB', (event.target as IDBOpenDBRequest).error);
-    };
-
-    return () => {
-      if (db) db.close();
-    };
-  }, [key, initialValue]);
-
-  const saveData = (valueOrFunction: T | ((val: T) => T)) => {
-    const newValue = valueOrFunction instanceof Function ? valueOrFunction(data) : valueOrFunction;
-    setData(newValue);
-
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-    request.onsuccess = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const putRequest = store.put({ id: key, value: newValue });
-
-      putRequest.onsuccess = () => {
-        console.log('Data successfully saved to IndexedDB');
-      };
-
-      putRequest.onerror = (e) => {
-        console.error('Error saving to IndexedDB', e);
-      };
-
-      transaction.oncomplete = () => {
-        db.close();
-      };
-    };
-
-    request.onerror = (event) => {
-      console.error('Error opening IndexedDB for saving', (event.target as IDBOpenDBRequest).error);
-    };
-  };
-
-  return [data, saveData];
-};
+import MoodTimeline from '../mood/MoodTimeline';
+import MoodRangeControls from '../mood/MoodRangeControls';
+import MoodInsights from '../mood/MoodInsights';
+import MoodTagManager from '../mood/MoodTagManager';
+import MoodScaleEditor from '../mood/MoodScaleEditor';
+import MoodDimensionsForm from '../mood/MoodDimensionsForm';
+import { useIndexedDB } from '../../storage/useIndexedDB';
+import { useSettings } from '../../hooks/useSettings';
+import type { MoodDimensions, MoodEntry, MoodTag } from '../../storage/types';
+import { repositories, updateStore } from '../../storage/repositories';
+import { migrateValue } from '../../storage/migrations';
+import { loadSettings } from '../../storage/settings';
+import { getItemElementId, useHashRoute } from '../../routing/hashRoute';
+import { registerCommands } from '../../commands/registry';
+import { DateRange, RANGE_PRESETS, filterByRange, getRecentRange } from '../../mood/aggregation';
+import { DEFAULT_MOOD_TAGS, createTagId, removeTagFromEntries, toggleTagId } from '../../mood/tags';
+import { MOOD_DIMENSIONS, formatDimensionValue } from '../../mood/dimensions';
+import { createMoodEntry, parseEntryTime, sortMoodEntries, updateMoodEntry } from '../../mood/entries';
+import { createNumericId } from '../../utils/ids';
+import { toDateTimeInputValue } from '../../utils/dates';
+import { DEFAULT_MOOD_SCALE, getEntryLevel, getScale, getScaledValue, withAlpha } from '../../mood/scales';
 
 const exportMoodEntries = (entries: MoodEntry[]) => {
   const jsonData = JSON.stringify(entries, null, 2);
@@ -117,8 +44,9 @@ const importMoodEntries = (setEntries: (entries: MoodEntry[]) => void) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const importedEntries = JSON.parse(e.target?.result as string) as MoodEntry[];
-        setEntries(importedEntries);
+        // Ältere Sicherungen enthalten noch die eingebettete Stimmung statt einer Skala
+        const importedEntries = migrateValue('moodEntries', JSON.parse(e.target?.result as string), 0);
+        setEntries(sortMoodEntries(importedEntries));
       } catch (error) {
         console.error('Error parsing imported file:', error);
         alert('Invalid file format. Please select a valid backup file.');
@@ -130,29 +58,86 @@ const importMoodEntries = (setEntries: (entries: MoodEntry[]) => void) => {
   input.click();
 };
 
+// Befehle für die Stufen der aktiven Skala, beste zuerst
+registerCommands('mood', async ({ navigate }) => {
+  const [scales, settings] = await Promise.all([repositories.moodScales.load(), loadSettings()]);
+  const scale = getScale(scales ?? [DEFAULT_MOOD_SCALE], settings.moodScaleId);
+  return [...scale.levels].reverse().map(level => ({
+    id: `mood-log-${scale.id}-${level.value}`,
+    title: `Log mood: ${level.label}`,
+    section: 'Mood',
+    keywords: [level.emoji],
+    run: async () => {
+      const entry = createMoodEntry(scale, level.value);
+      await updateStore('moodEntries', [], entries => [entry, ...entries]);
+      navigate({ tab: 'mood', itemId: String(entry.id) });
+    }
+  }));
+});
+
 const MoodTracker: React.FC = () => {
-  const [entries, setEntries] = useIndexedDB<MoodEntry[]>('moodEntriesData', []);
-  const [filter, setFilter] = useState<string>('all');
+  const [entries, setEntries] = useIndexedDB('moodEntries', []);
+  // Der Filter steht in der URL (#/mood?filter=2), damit gefilterte Ansichten verlinkbar sind
+  const { route, navigate } = useHashRoute();
+  const filter = route?.tab === 'mood' ? route.params.filter ?? 'all' : 'all';
+  const setFilter = (value: string) =>
+    navigate({ tab: 'mood', params: value === 'all' ? {} : { filter: value } }, { replace: true });
+
+  const [scales, setScales] = useIndexedDB('moodScales', [DEFAULT_MOOD_SCALE]);
+  const [settings, updateSettings] = useSettings();
+  const activeScale = getScale(scales, settings.moodScaleId);
+  // Auswertungen rechnen alle Einträge auf die aktive Skala um
+  const getValue = (entry: MoodEntry) => getScaledValue(entry, scales, activeScale);
+
+  const [tags, setTags] = useIndexedDB('moodTags', DEFAULT_MOOD_TAGS);
+  // Aktivitäten, die mit dem nächsten Eintrag gespeichert werden
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  // Energie, Stress und Schlaf für den nächsten Eintrag
+  const [dimensions, setDimensions] = useState<MoodDimensions>({});
+  // Nachtragen: leer = jetzt, sonst Wert eines datetime-local-Felds
+  const [loggedAt, setLoggedAt] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [range, setRange] = useState<DateRange>(() => getRecentRange(RANGE_PRESETS[0].days));
+  const rangeEntries = filterByRange(entries, range);
+
+  const addEntry = (level: number) => {
+    const timestamp = loggedAt ? parseEntryTime(loggedAt) : new Date().toISOString();
+    if (!timestamp) {
+      alert('Please choose a time in the past.');
+      return;
+    }
+    const entry = createMoodEntry(activeScale, level, { timestamp, tagIds: selectedTagIds, dimensions });
+    setEntries(sortMoodEntries([entry, ...entries]));
+    setSelectedTagIds([]);
+    setDimensions({});
+    setLoggedAt('');
+  };
+
+  // Stufe oder Zeitpunkt eines bestehenden Eintrags ändern; die Liste bleibt sortiert
+  const editEntry = (entryId: number, changes: Partial<MoodEntry>) => {
+    setEntries(updateMoodEntry(entries, entryId, changes));
+  };
+
+  const toggleEntryTag = (entryId: number, tagId: string) => {
+    setEntries(entries.map(entry =>
+      entry.id === entryId ? { ...entry, tagIds: toggleTagId(entry.tagIds, tagId) } : entry
+    ));
+  };
+
+  // Aktivitäten verwalten
+  const addTag = (label: string, emoji: string) => {
+    setTags([...tags, { id: createTagId(), label, emoji }]);
+  };
 
-  const moodLevels = [
-    { id: 5, label: 'Excellent', color: 'bg-green-500', emoji: '😃' },
-    { id: 4, label: 'Good', color: 'bg-blue-500', emoji: '🙂' },
-    { id: 3, label: 'Neutral', color: 'bg-yellow-500', emoji: '😐' },
-    { id: 2, label: 'Poor', color: 'bg-orange-500', emoji: '🙁' },
-    { id: 1, label: 'Bad', color: 'bg-red-500', emoji: '😞' }
-  ];
+  const updateTag = (id: string, changes: Partial<MoodTag>) => {
+    setTags(tags.map(tag => (tag.id === id ? { ...tag, ...changes } : tag)));
+  };
 
-  const addEntry = (mood: typeof moodLevels[0]) => {
-    const newEntries = [
-      {
-        id: Date.now(),
-        mood,
-        timestamp: new Date().toISOString(),
-        notes: []
-      },
-      ...entries
-    ];
-    setEntries(newEntries);
+  const deleteTag = (tag: MoodTag) => {
+    if (!window.confirm(`Delete the activity "${tag.label}"? It will be removed from all entries.`)) return;
+    setTags(tags.filter(candidate => candidate.id !== tag.id));
+    setEntries(removeTagFromEntries(entries, tag.id));
+    setSelectedTagIds(selectedTagIds.filter(id => id !== tag.id));
   };
 
   const addNote = (entryId: number, noteText: string) => {
@@ -161,7 +146,7 @@ const MoodTracker: React.FC = () => {
         entry.id === entryId ? {
           ...entry,
           notes: [...(entry.notes || []), {
-            id: Date.now(),
+            id: createNumericId(),
             text: noteText.trim(),
             timestamp: new Date().toISOString()
           }]
@@ -171,9 +156,11 @@ const MoodTracker: React.FC = () => {
     }
   };
 
+  // Auch ältere oder importierte Daten erscheinen chronologisch
+  const sortedEntries = sortMoodEntries(entries);
   const filteredEntries = filter === 'all'
-    ? entries
-    : entries.filter(entry => entry.mood.id === parseInt(filter));
+    ? sortedEntries
+    : sortedEntries.filter(entry => Math.round(getValue(entry)) === parseInt(filter));
 
   return (
     <div className="w-full space-y-6 p-4">
@@ -187,9 +174,9 @@ const MoodTracker: React.FC = () => {
             className="w-full sm:w-auto bg-gray-800 p-2 rounded text-sm sm:text-base"
           >
             <option value="all">All Moods</option>
-            {moodLevels.map(mood => (
-              <option key={mood.id} value={mood.id}>
-                {mood.label} Only
+            {[...activeScale.levels].reverse().map(level => (
+              <option key={level.value} value={level.value}>
+                {level.label} Only
               </option>
             ))}
           </select>
@@ -214,85 +201,230 @@ const MoodTracker: React.FC = () => {
         </div>
       </div>
 
+      {/* Aktivitäten für den nächsten Eintrag */}
+      <div className="space-y-2">
+        <div className="flex flex-wrap justify-center gap-2">
+          {tags.map(tag => (
+            <button
+              key={tag.id}
+              onClick={() => setSelectedTagIds(toggleTagId(selectedTagIds, tag.id))}
+              className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                selectedTagIds.includes(tag.id) ? 'bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+              aria-pressed={selectedTagIds.includes(tag.id)}
+            >
+              {tag.emoji} {tag.label}
+            </button>
+          ))}
+        </div>
+        <details className="text-sm text-center">
+          <summary className="cursor-pointer text-gray-400">Manage activities</summary>
+          <MoodTagManager tags={tags} onAdd={addTag} onUpdate={updateTag} onDelete={deleteTag} />
+        </details>
+        <details className="text-sm text-center">
+          <summary className="cursor-pointer text-gray-400">Mood scale: {activeScale.name}</summary>
+          <MoodScaleEditor
+            scales={scales}
+            activeScale={activeScale}
+            entries={entries}
+            onChangeScales={setScales}
+            onSelectScale={(scaleId) => updateSettings({ moodScaleId: scaleId })}
+          />
+        </details>
+      </div>
+
+      <MoodDimensionsForm value={dimensions} onChange={setDimensions} />
+
+      {/* Zeitpunkt zum Nachtragen, z. B. für den gestrigen Abend */}
+      <div className="flex justify-center items-center gap-2 text-sm">
+        <label htmlFor="mood-logged-at" className="text-gray-400">When</label>
+        <input
+          id="mood-logged-at"
+          type="datetime-local"
+          value={loggedAt}
+          max={toDateTimeInputValue(new Date())}
+          onChange={(e) => setLoggedAt(e.target.value)}
+          className="p-1 bg-gray-800 rounded"
+        />
+        {loggedAt ? (
+          <button onClick={() => setLoggedAt('')} className="text-gray-400 hover:text-white">
+            Now
+          </button>
+        ) : (
+          <span className="text-gray-500">now</span>
+        )}
+      </div>
+
       {/* Mood-Buttons */}
       <div className="flex flex-wrap sm:flex-nowrap justify-center gap-2 sm:gap-4">
-        {moodLevels.map(mood => (
+        {[...activeScale.levels].reverse().map(level => (
           <button
-            key={mood.id}
-            onClick={() => addEntry(mood)}
-            className={`w-12 h-12 sm:w-16 sm:h-16 rounded-full transition-all
-              hover:opacity-80 ${mood.color} flex items-center justify-center
+            key={level.value}
+            onClick={() => addEntry(level.value)}
+            className="w-12 h-12 sm:w-16 sm:h-16 rounded-full transition-all
+              hover:opacity-80 flex items-center justify-center
               text-xl sm:text-2xl shadow-lg hover:scale-110
-              active:scale-95 transform duration-150`}
-            title={mood.label}
+              active:scale-95 transform duration-150"
+            style={{ backgroundColor: level.color }}
+            title={level.label}
           >
-            {mood.emoji}
+            {level.emoji}
           </button>
         ))}
       </div>
 
+      {/* Verlauf, Kalender und Auswertung für den gewählten Zeitraum */}
+      {entries.length > 0 && (
+        <div className="space-y-4">
+          <MoodRangeControls range={range} entries={entries} onChange={setRange} />
+          <MoodTimeline entries={rangeEntries} range={range} scale={activeScale} getValue={getValue} />
+          <MoodInsights entries={rangeEntries} tags={tags} getValue={getValue} />
+        </div>
+      )}
+
       {/* Mood-Einträge */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {filteredEntries.map(entry => (
-          <div
-            key={entry.id}
-            className={`p-3 sm:p-4 rounded-lg ${entry.mood.color} bg-opacity-20
-              backdrop-blur-sm transition-all duration-300 hover:bg-opacity-25`}
-          >
-            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-2 mb-2">
-              <div className="flex items-center space-x-2">
-                <span className="text-xl sm:text-2xl">{entry.mood.emoji}</span>
-                <span className="font-medium text-sm sm:text-base">{entry.mood.label}</span>
-              </div>
-              <div className="flex items-center justify-between sm:justify-end w-full sm:w-auto gap-2">
-                <span className="text-xs sm:text-sm text-gray-300">
-                  {new Date(entry.timestamp).toLocaleString()}
-                </span>
-                <button
-                  onClick={() => {
-                    if(window.confirm("Möchtest du diesen Eintrag wirklich löschen?")){
-                      setEntries(entries.filter(e => e.id !== entry.id));
-                    }
-                  }}
-                  className="p-1 hover:bg-gray-600 rounded transition-colors"
-                >
-                  <X className="w-4 h-4" />
-                </button>
+        {filteredEntries.map(entry => {
+          const level = getEntryLevel(entry, scales);
+          const isEditing = editingId === entry.id;
+          return (
+            <div
+              key={entry.id}
+              id={getItemElementId('mood', entry.id)}
+              className="p-3 sm:p-4 rounded-lg backdrop-blur-sm transition-all duration-300"
+              style={{ backgroundColor: withAlpha(level.color, 0.2) }}
+            >
+              <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-2 mb-2">
+                <div className="flex items-center space-x-2">
+                  <span className="text-xl sm:text-2xl">{level.emoji}</span>
+                  {isEditing ? (
+                    <select
+                      value={level.value}
+                      onChange={(e) => editEntry(entry.id, { level: parseInt(e.target.value) })}
+                      className="bg-gray-800 rounded p-1 text-sm"
+                      aria-label="Mood level"
+                    >
+                      {[...getScale(scales, entry.scaleId).levels].reverse().map(option => (
+                        <option key={option.value} value={option.value}>
+                          {option.emoji} {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="font-medium text-sm sm:text-base">{level.label}</span>
+                  )}
+                </div>
+                <div className="flex items-center justify-between sm:justify-end w-full sm:w-auto gap-2">
+                  {isEditing ? (
+                    <input
+                      type="datetime-local"
+                      value={toDateTimeInputValue(new Date(entry.timestamp))}
+                      max={toDateTimeInputValue(new Date())}
+                      onChange={(e) => {
+                        const timestamp = parseEntryTime(e.target.value);
+                        if (timestamp) editEntry(entry.id, { timestamp });
+                      }}
+                      className="bg-gray-800 rounded p-1 text-xs sm:text-sm"
+                      aria-label="Time"
+                    />
+                  ) : (
+                    <span className="text-xs sm:text-sm text-gray-300">
+                      {new Date(entry.timestamp).toLocaleString()}
+                    </span>
+                  )}
+                  <button
+                    onClick={() => setEditingId(isEditing ? null : entry.id)}
+                    className="p-1 hover:bg-gray-600 rounded transition-colors"
+                    title={isEditing ? 'Done' : 'Edit entry'}
+                  >
+                    {isEditing ? <Check className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => {
+                      if(window.confirm("Möchtest du diesen Eintrag wirklich löschen?")){
+                        setEntries(entries.filter(e => e.id !== entry.id));
+                      }
+                    }}
+                    className="p-1 hover:bg-gray-600 rounded transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
               </div>
-            </div>
 
-            {/* Eingabe für Notizen */}
-            <input
-              type="text"
-              placeholder="Add a note and press Enter..."
-              className="w-full bg-gray-800 rounded p-2 mt-2 text-sm sm:text-base
-                placeholder:text-gray-500 focus:outline-none focus:ring-2
-                focus:ring-blue-500 transition-all"
-              onKeyDown={(e) => {
-                if (e.key === 'Enter' && (e.target as HTMLInputElement).value.trim()) {
-                  addNote(entry.id, (e.target as HTMLInputElement).value);
-                  (e.target as HTMLInputElement).value = '';
-                }
-              }}
-            />
+              {/* Zusatzangaben des Check-ins */}
+              {entry.dimensions && (
+                <div className="flex flex-wrap gap-x-3 text-xs text-gray-300 mb-1">
+                  {MOOD_DIMENSIONS.filter(config => entry.dimensions?.[config.key] !== undefined).map(config => (
+                    <span key={config.key} title={config.label}>
+                      {config.emoji} {formatDimensionValue(config, entry.dimensions?.[config.key] ?? 0)}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {/* Aktivitäten des Eintrags; Klick entfernt */}
+              <div className="flex flex-wrap items-center gap-1">
+                {tags.filter(tag => entry.tagIds?.includes(tag.id)).map(tag => (
+                  <button
+                    key={tag.id}
+                    onClick={() => toggleEntryTag(entry.id, tag.id)}
+                    className="px-2 py-0.5 rounded-full bg-gray-800 text-xs hover:bg-gray-700"
+                    title={`Remove ${tag.label}`}
+                  >
+                    {tag.emoji} {tag.label}
+                  </button>
+                ))}
+                {tags.some(tag => !entry.tagIds?.includes(tag.id)) && (
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && toggleEntryTag(entry.id, e.target.value)}
+                    className="bg-gray-800 rounded text-xs p-1"
+                    aria-label="Add activity"
+                  >
+                    <option value="">+ Activity</option>
+                    {tags.filter(tag => !entry.tagIds?.includes(tag.id)).map(tag => (
+                      <option key={tag.id} value={tag.id}>
+                        {tag.emoji} {tag.label}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
 
-            {/* Liste der Notizen */}
-            <div className="space-y-2 mt-2">
-              {entry.notes && entry.notes.map(note => (
-                <Note
-                  key={note.id}
-                  note={note}
-                  onDelete={() => setEntries(entries.map(e => ({
-                    ...e,
-                    notes: e.id === entry.id
-                      ? e.notes.filter(n => n.id !== note.id)
-                      : e.notes
-                  })))}
-                />
-              ))}
+              {/* Eingabe für Notizen */}
+              <input
+                type="text"
+                placeholder="Add a note and press Enter..."
+                className="w-full bg-gray-800 rounded p-2 mt-2 text-sm sm:text-base
+                  placeholder:text-gray-500 focus:outline-none focus:ring-2
+                  focus:ring-blue-500 transition-all"
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && (e.target as HTMLInputElement).value.trim()) {
+                    addNote(entry.id, (e.target as HTMLInputElement).value);
+                    (e.target as HTMLInputElement).value = '';
+                  }
+                }}
+              />
+
+              {/* Liste der Notizen */}
+              <div className="space-y-2 mt-2">
+                {entry.notes && entry.notes.map(note => (
+                  <Note
+                    key={note.id}
+                    note={note}
+                    onDelete={() => setEntries(entries.map(e => ({
+                      ...e,
+                      notes: e.id === entry.id
+                        ? e.notes.filter(n => n.id !== note.id)
+                        : e.notes
+                    })))}
+                  />
+                ))}
+              </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
 
       {/* Hinweis, falls keine Einträge vorhanden sind */}
@@ -2,29 +2,16 @@ import React, { useState, useRef, ChangeEvent } from 'react';
 import { Plus, X, Star, Archive, Download, Upload } from 'lucide-react';
 import Note from '../shared/Note';
 import Milestone from '../shared/Milestone';
-import { useIndexedDB } from './useIndexedDB';
-
-interface Goal {
-  id: number;
-  name: string;
-  deadline: string;
-  status: string;
-  image: string | null;
-  difficulty: number;
-  milestones: {
-    id: number;
-    name: string;
-    completed: boolean;
-  }[];
-  notes: {
-    id: number;
-    text: string;
-    timestamp: string;
-  }[];
-  order: number;
-  archived: boolean;
-  favorite: boolean;
-}
+import CircleProgress from '../shared/CircleProgress';
+import ItemLink from '../shared/ItemLink';
+import { useIndexedDB } from '../../storage/useIndexedDB';
+import { repositories, updateStore } from '../../storage/repositories';
+import { DEFAULT_PROJECTS } from '../../storage/defaults';
+import { migrateValue } from '../../storage/migrations';
+import type { Goal } from '../../storage/types';
+import { getElapsedPercentage } from '../../utils/dates';
+import { getItemElementId } from '../../routing/hashRoute';
+import { registerCommands } from '../../commands/registry';
 
 interface DifficultyIndicatorProps {
   value: number;
@@ -57,25 +44,23 @@ const DifficultyIndicator: React.FC<DifficultyIndicatorProps> = ({ value, onChan
 
 type SortOption = 'default' | 'alphabet' | 'date' | 'difficulty';
 
+registerCommands('projects', async ({ navigate }) => {
+  const projects = (await repositories.projects.load()) ?? DEFAULT_PROJECTS;
+  return projects.map(goal => ({
+    id: `projects-archive-${goal.id}`,
+    title: `${goal.archived ? 'Unarchive' : 'Archive'} project ${goal.name}`,
+    section: 'Projects',
+    run: async () => {
+      await updateStore('projects', DEFAULT_PROJECTS, goals =>
+        goals.map(g => (g.id === goal.id ? { ...g, archived: !g.archived } : g))
+      );
+      navigate({ tab: 'projects', itemId: String(goal.id) });
+    }
+  }));
+});
+
 const ProjectTracker: React.FC = () => {
-  const initialGoals = [{
-    id: 1,
-    name: 'Project Name',
-    deadline: new Date().toISOString(),
-    status: 'Not started',
-    image: null,
-    difficulty: 3,
-    milestones: [
-      { id: 1, name: 'First Step', completed: false },
-      { id: 2, name: 'Second Step', completed: false }
-    ],
-    notes: [],
-    order: 1,
-    archived: false,
-    favorite: false
-  }];
-
-  const [goals, setGoals] = useIndexedDB<Goal[]>('projectTrackerGoals', initialGoals);
+  const [goals, setGoals] = useIndexedDB('projects', DEFAULT_PROJECTS);
   const [sortBy, setSortBy] = useState<SortOption>('default');
 
   // Drag and drop state
@@ -149,7 +134,8 @@ const ProjectTracker: React.FC = () => {
       notes: [],
       order: goals.length + 1,
       archived: false,
-      favorite: false
+      favorite: false,
+      createdAt: new Date().toISOString()
     };
     const updatedGoals = [...goals, newGoal];
     setGoals(updatedGoals);
@@ -285,7 +271,8 @@ const ProjectTracker: React.FC = () => {
         if (!Array.isArray(data.goals)) {
           throw new Error('Invalid JSON format: goals missing');
         }
-        setGoals(data.goals);
+        // Ältere Backups können Felder wie difficulty oder archived noch nicht enthalten
+        setGoals(migrateValue('projects', data.goals, 0));
         alert('Import successful!');
       } catch (err) {
         alert('Error during import!');
@@ -344,11 +331,15 @@ const ProjectTracker: React.FC = () => {
           const progress = goal.milestones.length
             ? Math.round((goal.milestones.filter(m => m.completed).length / goal.milestones.length) * 100)
             : 0;
+          const timeElapsed = goal.createdAt
+            ? Math.round(getElapsedPercentage(goal.createdAt, goal.deadline))
+            : 0;
           const isDragged = draggedGoalId === goal.id;
           const isDraggedOver = dragOverGoalId === goal.id;
           return (
             <div
               key={goal.id}
+              id={getItemElementId('projects', goal.id)}
               className={`bg-gray-700/50 p-3 sm:p-4 rounded-lg flex flex-col transition-all duration-200
                 ${isDragged ? 'opacity-50' : 'opacity-100'}
                 ${isDraggedOver ? 'border-2 border-blue-500 scale-105' : 'border border-transparent'}`}
@@ -404,6 +395,7 @@ const ProjectTracker: React.FC = () => {
                     {goal.status}
                   </span>
                   <div className="flex items-center">
+                    <ItemLink tab="projects" itemId={goal.id} title="Link to this project" />
                     <button
                       onClick={() => toggleFavoriteGoal(goal.id)}
                       className={`p-1 hover:bg-gray-600 rounded ${goal.favorite ? 'text-yellow-400' : ''}`}
@@ -450,10 +442,18 @@ const ProjectTracker: React.FC = () => {
 
               <div className="mb-3">
                 <span className="block text-xs sm:text-sm font-semibold mb-1">Progress</span>
-                <div className="w-full bg-gray-300 rounded-full h-2">
-                  <div className="bg-blue-500 h-2 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
+                <div className="flex items-center gap-3">
+                  <CircleProgress
+                    rings={[
+                      { percentage: progress, label: 'Tasks' },
+                      ...(goal.createdAt ? [{ percentage: timeElapsed, label: 'Time elapsed', color: '#60a5fa' }] : [])
+                    ]}
+                  />
+                  <div className="text-xs space-y-1">
+                    <div>Tasks: {progress}%</div>
+                    {goal.createdAt && <div className="text-blue-300">Time elapsed: {timeElapsed}%</div>}
+                  </div>
                 </div>
-                <span className="text-xs">{progress}%</span>
               </div>
 
               <div className="mb-3">
@@ -583,6 +583,7 @@ const ProjectTracker: React.FC = () => {
               return (
                 <div
                   key={goal.id}
+                  id={getItemElementId('projects', goal.id)}
                   className="bg-gray-700/50 p-3 sm:p-4 rounded-lg flex flex-col opacity-70"
                 >
                   <div className="relative mb-3 sm:mb-4">
@@ -650,10 +651,7 @@ const ProjectTracker: React.FC = () => {
 
                   <div className="mb-3">
                     <span className="block text-xs sm:text-sm font-semibold mb-1">Progress</span>
-                    <div className="w-full bg-gray-300 rounded-full h-2">
-                      <div className="bg-blue-500 h-2 rounded-full" style={{ width: `${progress}%` }}></div>
-                    </div>
-                    <span className="text-xs">{progress}%</span>
+                    <CircleProgress percentage={progress} size={48} strokeWidth={5} animated={false} />
                   </div>
 
                   <div className="mb-3">
@@ -1,28 +1,16 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState } from 'react';
 import { Plus, X, Trash2, Filter, ArrowUp, ArrowDown, Circle, Archive, ArchiveRestore } from 'lucide-react';
-
-type PriorityLevel = 'high' | 'medium' | 'low' | 'none';
-
-interface TodoNote {
-  id: number;
-  text: string;
-  timestamp: string;
-}
-
-interface Todo {
-  id: number;
-  text: string;
-  completed: boolean;
-  notes: TodoNote[];
-  priority: PriorityLevel;
-  archived: boolean;
-}
-
-interface TodoGroup {
-  id: number;
-  title: string;
-  todos: Todo[];
-}
+import { useIndexedDB } from '../../storage/useIndexedDB';
+import { updateStore } from '../../storage/repositories';
+import { DEFAULT_TODO_GROUPS } from '../../storage/defaults';
+import type { PriorityLevel, Todo } from '../../storage/types';
+import { getItemElementId } from '../../routing/hashRoute';
+import { formatDayTitle } from '../../utils/dates';
+import { createNumericId } from '../../utils/ids';
+import { getPriorityRank } from '../../todos/priority';
+import { createTodoGroup } from '../../todos/groups';
+import { registerCommands } from '../../commands/registry';
+import ItemLink from '../shared/ItemLink';
 
 interface FilterOptions {
   showCompleted: boolean;
@@ -31,124 +19,57 @@ interface FilterOptions {
   viewArchived: boolean;
 }
 
-const DB_NAME = 'todoTrackerDB';
-const DB_VERSION = 1;
-
-// useIndexedDB: Speichert Todo-Gruppen in IndexedDB unter einem einzigen Key "data"
-function useIndexedDB<T>(storeName: string, initialValue: T): [T, (value: T | ((prev: T) => T)) => void] {
-  const [data, setData] = useState<T>(initialValue);
-
-  useEffect(() => {
-    let db: IDBDatabase;
-    console.log(`Opening IndexedDB "${DB_NAME}" for store "${storeName}"...`);
-
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onupgradeneeded = (event) => {
-      db = (event.target as IDBOpenDBRequest).result;
-      console.log('onupgradeneeded - creating store if not existing:', storeName);
-
-      // Store ohne keyPath – wir speichern alles später unter dem Key "data".
-      if (!db.objectStoreNames.contains(storeName)) {
-        db.createObjectStore(storeName);
-      }
-    };
-
-    request.onsuccess = (event) => {
-      console.log(`IndexedDB opened successfully: ${DB_NAME} / Store: ${storeName}`);
-      db = (event.target as IDBOpenDBRequest).result;
-
-      // Daten laden
-      const transaction = db.transaction(storeName, 'readonly');
-      const store = transaction.objectStore(storeName);
-      const getRequest = store.get('data');
-
-      getRequest.onsuccess = () => {
-        if (getRequest.result) {
-          console.log('Existing data found in store:', getRequest.result);
-          setData(getRequest.result);
-        } else {
-          console.log('No existing data; writing initialValue...');
-          const writeTransaction = db.transaction(storeName, 'readwrite');
-          const writeStore = writeTransaction.objectStore(storeName);
-          writeStore.put(initialValue, 'data');
-        }
-      };
-
-      getRequest.onerror = (e) => {
-        console.error('Error reading from IndexedDB:', e);
-      };
-    };
-
-    request.onerror = (event) => {
-      console.error('Error opening IndexedDB:', (event.target as IDBOpenDBRequest).error);
-    };
-
-    // Cleanup: DB schließen, wenn Komponente ungemountet wird
-    return () => {
-      if (db) {
-        console.log(`Closing DB "${DB_NAME}"...`);
-        db.close();
-      }
-    };
-  }, [storeName, initialValue]);
-
-  const setValue = (valueOrFunction: T | ((prev: T) => T)) => {
-    const newValue = valueOrFunction instanceof Function ? valueOrFunction(data) : valueOrFunction;
-    setData(newValue);
-
-    console.log('Saving new data to IndexedDB:', newValue);
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onsuccess = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      const transaction = db.transaction(storeName, 'readwrite');
-      const store = transaction.objectStore(storeName);
-
-      // Wir speichern das komplette Array "newValue" unter dem Key "data"
-      const putRequest = store.put(newValue, 'data');
-      putRequest.onsuccess = () => {
-        console.log('Data successfully saved to IndexedDB:', newValue);
-      };
-      putRequest.onerror = (err) => {
-        console.error('Error saving to IndexedDB:', err);
-      };
-
-      transaction.oncomplete = () => {
-        db.close();
+registerCommands('todos', ({ navigate }) => [
+  {
+    id: 'todos-new-today',
+    title: 'New todo in today\'s group',
+    section: 'Todos',
+    keywords: ['task', 'add'],
+    prompt: 'What needs to be done?',
+    run: async (text = '') => {
+      if (!text.trim()) return;
+      const newTodo: Todo = {
+        id: createNumericId(),
+        text: text.trim(),
+        completed: false,
+        notes: [],
+        priority: 'none',
+        archived: false
       };
-    };
-
-    request.onerror = (event) => {
-      console.error('Error opening IndexedDB for saving:', (event.target as IDBOpenDBRequest).error);
-    };
-  };
-
-  return [data, setValue];
-};
-
-const getPriorityRank = (priority: PriorityLevel): number => {
-  switch (priority) {
-    case 'high': return 3;
-    case 'medium': return 2;
-    case 'low': return 1;
-    default: return 0;
+      await updateStore('todoGroups', DEFAULT_TODO_GROUPS, groups => {
+        const today = formatDayTitle(new Date());
+        // Gibt es für heute noch keine Gruppe, wird sie oben angelegt
+        const withToday = groups.some(group => group.title === today)
+          ? groups
+          : [createTodoGroup(), ...groups];
+        return withToday.map(group =>
+          group.title === today
+            ? {
+                ...group,
+                todos: [newTodo, ...group.todos].sort(
+                  (a, b) => getPriorityRank(b.priority) - getPriorityRank(a.priority)
+                )
+              }
+            : group
+        );
+      });
+      navigate({ tab: 'todos', itemId: String(newTodo.id) });
+    }
+  },
+  {
+    id: 'todos-new-group',
+    title: 'New todo group',
+    section: 'Todos',
+    run: async () => {
+      const group = createTodoGroup();
+      await updateStore('todoGroups', DEFAULT_TODO_GROUPS, groups => [group, ...groups]);
+      navigate({ tab: 'todos', itemId: String(group.id) });
+    }
   }
-};
+]);
 
 const TodoTracker: React.FC = () => {
-  const [todoGroups, setTodoGroups] = useIndexedDB<TodoGroup[]>('todoGroups', [
-    {
-      id: Date.now(),
-      title: new Date().toLocaleDateString('en-US', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
-      }),
-      todos: []
-    }
-  ]);
+  const [todoGroups, setTodoGroups] = useIndexedDB('todoGroups', DEFAULT_TODO_GROUPS);
   const [newTaskInputs, setNewTaskInputs] = useState<{ [key: number]: string }>({});
   const [selectedPriorities, setSelectedPriorities] = useState<{ [key: number]: PriorityLevel }>({});
   const [filterOptions, setFilterOptions] = useState<FilterOptions>({
@@ -161,16 +82,7 @@ const TodoTracker: React.FC = () => {
 
   // Neue Gruppe anlegen
   const addNewGroup = () => {
-    const newGroup = {
-      id: Date.now(),
-      title: new Date().toLocaleDateString('en-US', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
-      }),
-      todos: []
-    };
+    const newGroup = createTodoGroup();
     setTodoGroups([newGroup, ...todoGroups]);
     setSelectedPriorities(prev => ({ ...prev, [newGroup.id]: 'none' }));
   };
@@ -195,7 +107,7 @@ const TodoTracker: React.FC = () => {
     const text = newTaskInputs[groupId] || '';
     if (text.trim()) {
       const newTodo: Todo = {
-        id: Date.now(),
+        id: createNumericId(),
         text: text.trim(),
         completed: false,
         notes: [],
@@ -594,18 +506,25 @@ const TodoTracker: React.FC = () => {
 
       <div className="grid gap-4 sm:gap-6">
         {todoGroups.map(group => (
-          <div key={group.id} className="bg-gray-800 rounded-lg p-3 sm:p-4 relative">
+          <div
+            key={group.id}
+            id={getItemElementId('todos', group.id)}
+            className="bg-gray-800 rounded-lg p-3 sm:p-4 relative"
+          >
             <div className="flex justify-between items-center mb-3 sm:mb-4">
               <h3 className="text-lg sm:text-xl font-semibold break-words">{group.title}</h3>
-              {todoGroups.length > 1 && (
-                <button
-                  onClick={() => deleteGroup(group.id)}
-                  className="text-red-500 hover:bg-red-500/20 p-1.5 rounded transition-colors"
-                  title="Delete Group"
-                >
-                  <Trash2 className="w-4 h-4" />
-                </button>
-              )}
+              <div className="flex items-center gap-1">
+                <ItemLink tab="todos" itemId={group.id} title="Link to this group" className="w-4 h-4" />
+                {todoGroups.length > 1 && (
+                  <button
+                    onClick={() => deleteGroup(group.id)}
+                    className="text-red-500 hover:bg-red-500/20 p-1.5 rounded transition-colors"
+                    title="Delete Group"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
             </div>
 
             {/* Nur im aktiven Modus (viewArchived: false) Neues Task-Feld */}
@@ -701,6 +620,7 @@ const TodoTracker: React.FC = () => {
                 return (
                   <div
                     key={todo.id}
+                    id={getItemElementId('todos', todo.id)}
                     className={`bg-gray-700/50 p-3 sm:p-4 rounded-lg space-y-2 ${priorityDisplay.color}`}
                   >
                     <div className="flex items-start justify-between gap-2">
@@ -9,132 +9,64 @@ import {
   Calendar,
   Download,
   Upload,
+  PiggyBank,
 } from 'lucide-react';
-
-const DB_NAME = 'projectTrackerDB';
-const DB_VERSION = 1;
-
-function useIndexedDB<T>(
-  storeName: string,
-  initialValue: T
-): [T, (value: T | ((val: T) => T)) => void] {
-  const [data, setData] = useState<T>(initialValue);
-  const [isInitialized, setIsInitialized] = useState(false);
-
-  useEffect(() => {
-    let db: IDBDatabase | null = null;
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onupgradeneeded = (event) => {
-      db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(storeName)) {
-        db.createObjectStore(storeName, { keyPath: 'id' });
-      }
-    };
-
-    request.onsuccess = (event) => {
-      db = (event.target as IDBOpenDBRequest).result;
-      const transaction = db.transaction(storeName, 'readonly');
-      const store = transaction.objectStore(storeName);
-      const getRequest = store.get('data');
-
-      getRequest.onsuccess = () => {
-        if (getRequest.result) {
-          setData(getRequest.result.value);
-        } else {
-          const writeTransaction = db!.transaction(storeName, 'readwrite');
-          const writeStore = writeTransaction.objectStore(storeName);
-          const putRequest = writeStore.put({ id: 'data', value: initialValue });
-
-          putRequest.onsuccess = () => {
-            console.log('Initial data saved to IndexedDB:', storeName);
-          };
-
-          putRequest.onerror = (e) => {
-            console.error('Error saving initial data to IndexedDB', e);
-          };
-        }
-        setIsInitialized(true);
-      };
-
-      getRequest.onerror = (e) => {
-        console.error('Error reading from IndexedDB', e);
-        setIsInitialized(true);
-      };
-    };
-
-    request.onerror = (event) => {
-      console.error('Error opening IndexedDB', (event.target as IDBOpenDBRequest).error);
-      setIsInitialized(true);
-    };
-
-    return () => {
-      if (db) db.close();
-    };
-  }, [storeName]);
-
-  const saveData = (valueOrFn: T | ((prevVal: T) => T)) => {
-    const newValue = typeof valueOrFn === 'function' ? (valueOrFn as Function)(data) : valueOrFn;
-    setData(newValue);
-
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-    request.onsuccess = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result as IDBDatabase;
-      const transaction = db.transaction(storeName, 'readwrite');
-      const store = transaction.objectStore(storeName);
-      const putRequest = store.put({ id: 'data', value: newValue });
-
-      putRequest.onsuccess = () => {
-        console.log('Data successfully saved to IndexedDB:', storeName);
-      };
-
-      putRequest.onerror = (e) => {
-        console.error('Error saving to IndexedDB', e);
-      };
-
-      transaction.oncomplete = () => {
-        db.close();
-      };
-    };
-
-    request.onerror = (event) => {
-      console.error('Error opening IndexedDB for saving', (event.target as IDBOpenDBRequest).error);
-    };
-  };
-
-  return [data, saveData];
-}
-
-interface WishlistItem {
-  id: string;
-  name: string;
-  description: string;
-  priority: 'niedrig' | 'mittel' | 'hoch';
-  price: string;
-  url: string;
-  category: string;
-  targetDate: string;
-  createdAt: number;
-  image?: string;
-}
-
-interface Category {
-  id: string;
-  name: string;
-}
+import { useIndexedDB } from '../../storage/useIndexedDB';
+import { repositories, updateStore } from '../../storage/repositories';
+import { DEFAULT_WISHLIST_CATEGORIES } from '../../storage/defaults';
+import { migrateValue } from '../../storage/migrations';
+import type { Money, WishlistItem } from '../../storage/types';
+import { getItemElementId } from '../../routing/hashRoute';
+import { useSettings } from '../../hooks/useSettings';
+import { formatMoney, toMoney } from '../../utils/money';
+import { getAffordableItemIds, getPotSaved } from '../../budget/savingsPots';
+import { registerCommands } from '../../commands/registry';
+import MoneyInput from '../shared/MoneyInput';
+import CurrencySettings from '../shared/CurrencySettings';
+
+registerCommands('wishlist', async ({ navigate }) => {
+  const items = (await repositories.wishlist.load()) ?? [];
+  return [
+    {
+      id: 'wishlist-add',
+      title: 'Add wishlist item',
+      section: 'Wishlist',
+      keywords: ['wish', 'buy', 'new'],
+      prompt: 'What do you wish for?',
+      run: async (name = '') => {
+        if (!name.trim()) return;
+        // Weitere Angaben lassen sich danach im Tracker ergänzen
+        const categories = (await repositories.wishlistCategories.load()) ?? DEFAULT_WISHLIST_CATEGORIES;
+        const item: WishlistItem = {
+          id: `wish-${Date.now()}`,
+          name: name.trim(),
+          description: '',
+          priority: 'mittel',
+          price: null,
+          url: '',
+          category: categories[0]?.id ?? '',
+          targetDate: '',
+          createdAt: Date.now(),
+        };
+        await updateStore('wishlist', [], (items) => [...items, item]);
+        navigate({ tab: 'wishlist', itemId: item.id });
+      },
+    },
+    ...items.map((item) => ({
+      id: `wishlist-open-${item.id}`,
+      title: `Open wishlist item ${item.name}`,
+      section: 'Wishlist',
+      run: () => navigate({ tab: 'wishlist', itemId: item.id }),
+    })),
+  ];
+});
 
 const WishlistTracker: React.FC = () => {
-  const [items, setItems] = useIndexedDB<WishlistItem[]>('wishlist', []);
-  const [categories, setCategories] = useIndexedDB<Category[]>(
-    'wishlist_categories',
-    [
-      { id: 'tech', name: 'Technology' },
-      { id: 'kleidung', name: 'Clothing' },
-      { id: 'hobby', name: 'Hobby' },
-      { id: 'haushalt', name: 'Household' },
-      { id: 'sonstiges', name: 'Miscellaneous' },
-    ]
-  );
+  const [items, setItems] = useIndexedDB('wishlist', []);
+  const [categories, setCategories] = useIndexedDB('wishlistCategories', DEFAULT_WISHLIST_CATEGORIES);
+
+  const [settings] = useSettings();
+  const [savingsPots] = useIndexedDB('savingsPots', []);
 
   const [newCategory, setNewCategory] = useState('');
   const [filter, setFilter] = useState<string>('all');
@@ -144,7 +76,8 @@ const WishlistTracker: React.FC = () => {
   const [itemName, setItemName] = useState('');
   const [itemDescription, setItemDescription] = useState('');
   const [itemPriority, setItemPriority] = useState<'niedrig' | 'mittel' | 'hoch'>('mittel');
-  const [itemPrice, setItemPrice] = useState('');
+  const [itemPrice, setItemPrice] = useState<Money | null>(null);
+  const [isPriceValid, setIsPriceValid] = useState(true);
   const [itemUrl, setItemUrl] = useState('');
   const [itemCategory, setItemCategory] = useState('');
   const [itemTargetDate, setItemTargetDate] = useState('');
@@ -175,7 +108,7 @@ const WishlistTracker: React.FC = () => {
     setItemName('');
     setItemDescription('');
     setItemPriority('mittel');
-    setItemPrice('');
+    setItemPrice(null);
     setItemUrl('');
     setItemCategory(categories[0]?.id || '');
     setItemTargetDate('');
@@ -198,6 +131,7 @@ const WishlistTracker: React.FC = () => {
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
+    if (!isPriceValid) return;
 
     setItems((prevItems) => {
       const existing = editingId ? prevItems.find((x) => x.id === editingId) : undefined;
@@ -255,7 +189,8 @@ const WishlistTracker: React.FC = () => {
         if (!Array.isArray(data.items) || !Array.isArray(data.categories)) {
           throw new Error('Invalid JSON format: items / categories missing');
         }
-        setItems(data.items);
+        // Ältere Exporte haben den Preis noch als Text
+        setItems(migrateValue('wishlist', data.items, 0));
         setCategories(data.categories);
         alert('Import successful!');
       } catch (err) {
@@ -286,6 +221,14 @@ const WishlistTracker: React.FC = () => {
     }
   };
 
+  // Wünsche, deren Spartopf im Budget voll ist
+  const affordableIds = getAffordableItemIds(savingsPots, items);
+
+  const getSavedText = (itemId: string) => {
+    const pot = savingsPots.find((candidate) => candidate.wishlistItemId === itemId);
+    return pot ? `${formatMoney(toMoney(getPotSaved(pot), settings.currency), settings.locale)} saved` : null;
+  };
+
   const filteredItems = items.filter(
     (item) => filter === 'all' || item.category === filter
   );
@@ -294,7 +237,7 @@ const WishlistTracker: React.FC = () => {
     if (sortBy === 'date') {
       return b.createdAt - a.createdAt;
     } else if (sortBy === 'price') {
-      return (parseFloat(b.price) || 0) - (parseFloat(a.price) || 0);
+      return (b.price?.cents ?? 0) - (a.price?.cents ?? 0);
     } else if (sortBy === 'priority') {
       const vals = { hoch: 3, mittel: 2, niedrig: 1 };
       return vals[b.priority] - vals[a.priority];
@@ -320,6 +263,7 @@ const WishlistTracker: React.FC = () => {
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
         <h2 className="text-2xl font-bold">Wishlist</h2>
         <div className="flex flex-wrap gap-3 items-center">
+          <CurrencySettings />
           <button
             onClick={handleExportData}
             className="bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg flex items-center gap-2"
@@ -407,13 +351,15 @@ const WishlistTracker: React.FC = () => {
               </div>
 
               <div>
-                <label className="block text-sm font-medium mb-1">Price (€)</label>
-                <input
-                  type="text"
+                <label className="block text-sm font-medium mb-1">Price ({settings.currency})</label>
+                <MoneyInput
                   value={itemPrice}
-                  onChange={(e) => setItemPrice(e.target.value)}
-                  className="w-full bg-gray-800 text-white px-3 py-2 rounded-lg"
-                  placeholder="0.00"
+                  currency={settings.currency}
+                  locale={settings.locale}
+                  onChange={setItemPrice}
+                  onValidityChange={setIsPriceValid}
+                  allowEmpty
+                  inputClassName="bg-gray-800 px-3 py-2 rounded-lg"
                 />
               </div>
 
@@ -484,7 +430,8 @@ const WishlistTracker: React.FC = () => {
               </button>
               <button
                 type="submit"
-                className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg flex items-center gap-1"
+                disabled={!isPriceValid}
+                className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg flex items-center gap-1 disabled:opacity-50"
               >
                 <Save size={18} /> Save
               </button>
@@ -526,7 +473,11 @@ const WishlistTracker: React.FC = () => {
           </div>
         ) : (
           sortedItems.map((item) => (
-            <div key={item.id} className="bg-gray-700 rounded-lg p-4 flex flex-col h-full">
+            <div
+              key={item.id}
+              id={getItemElementId('wishlist', item.id)}
+              className="bg-gray-700 rounded-lg p-4 flex flex-col h-full"
+            >
               <div className="flex justify-between items-start mb-2">
                 <h3 className="text-lg font-semibold">{item.name}</h3>
                 <div className="flex gap-1">
@@ -548,6 +499,9 @@ const WishlistTracker: React.FC = () => {
                     {categories.find((c) => c.id === item.category)?.name}
                   </span>
                 )}
+                {affordableIds.has(item.id) && (
+                  <span className="text-xs bg-green-600 px-2 py-1 rounded">Affordable</span>
+                )}
               </div>
 
               {item.image && (
@@ -566,7 +520,13 @@ const WishlistTracker: React.FC = () => {
                 {item.price && (
                   <div className="flex items-center gap-1 text-sm">
                     <DollarSign size={14} className="text-green-400" />
-                    <span>{item.price} €</span>
+                    <span>{formatMoney(item.price, settings.locale)}</span>
+                  </div>
+                )}
+                {getSavedText(item.id) && !affordableIds.has(item.id) && (
+                  <div className="flex items-center gap-1 text-sm text-gray-300">
+                    <PiggyBank size={14} className="text-pink-400" />
+                    <span>{getSavedText(item.id)}</span>
                   </div>
                 )}
                 {item.targetDate && (
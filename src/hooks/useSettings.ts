@@ -0,0 +1,17 @@
+import { useCallback, useMemo } from 'react';
+import { useIndexedDB } from '../storage/useIndexedDB';
+import { DEFAULT_SETTINGS, withDefaultSettings } from '../storage/settings';
+import type { AppSettings } from '../storage/types';
+
+// Gemeinsame Einstellungen aller Tracker; Änderungen werden sofort gespeichert
+export function useSettings(): [AppSettings, (changes: Partial<AppSettings>) => void] {
+  const [stored, setStored] = useIndexedDB('settings', DEFAULT_SETTINGS);
+
+  const updateSettings = useCallback(
+    (changes: Partial<AppSettings>) => setStored((prev) => ({ ...withDefaultSettings(prev), ...changes })),
+    [setStored]
+  );
+
+  const settings = useMemo(() => withDefaultSettings(stored), [stored]);
+  return [settings, updateSettings];
+}
@@ -8,13 +8,3 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
     <App />
   </React.StrictMode>,
 )
-// Typischer Registrierungs-Code (z. B. bei Verwendung von Vite-PWA-Plugin)
-if ("serviceWorker" in navigator) {
-  navigator.serviceWorker.register("/sw.js", { scope: "/" })
-    .then((registration) => {
-      console.log("Service Worker registriert:", registration);
-    })
-    .catch((error) => {
-      console.error("Service Worker-Registrierung fehlgeschlagen:", error);
-    });
-}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { MoodEntry } from '../storage/types';
+import { aggregateMoods, filterByRange, getFullRange, getRecentRange, getWeekStart } from './aggregation';
+
+// Zeitpunkte in lokaler Zeit, damit die Tagesgrenzen unabhängig von der Zeitzone stimmen
+const createEntry = (id: number, day: string, level: number, hour = 12): MoodEntry => ({
+  id,
+  scaleId: 'default',
+  level,
+  timestamp: new Date(`${day}T${String(hour).padStart(2, '0')}:00:00`).toISOString(),
+  notes: [],
+});
+
+const getLevel = (entry: MoodEntry) => entry.level;
+
+const ENTRIES = [
+  createEntry(1, '2024-04-29', 2),
+  createEntry(2, '2024-05-01', 4, 8),
+  createEntry(3, '2024-05-01', 5, 23),
+  createEntry(4, '2024-05-05', 3),
+  createEntry(5, '2024-05-06', 1),
+];
+
+describe('getWeekStart', () => {
+  it('returns the Monday of the week', () => {
+    expect(getWeekStart('2024-05-05')).toBe('2024-04-29');
+    expect(getWeekStart('2024-05-06')).toBe('2024-05-06');
+  });
+});
+
+describe('aggregateMoods', () => {
+  it('summarises each day, oldest first', () => {
+    const buckets = aggregateMoods([...ENTRIES].reverse(), 'day', getLevel);
+    expect(buckets.map(({ key, average, min, max, count }) => [key, average, min, max, count])).toEqual([
+      ['2024-04-29', 2, 2, 2, 1],
+      ['2024-05-01', 4.5, 4, 5, 2],
+      ['2024-05-05', 3, 3, 3, 1],
+      ['2024-05-06', 1, 1, 1, 1],
+    ]);
+  });
+
+  it('groups weeks from Monday to Sunday', () => {
+    const buckets = aggregateMoods(ENTRIES, 'week', getLevel);
+    expect(buckets.map(({ key, average, count }) => [key, average, count])).toEqual([
+      ['2024-04-29', 3.5, 4],
+      ['2024-05-06', 1, 1],
+    ]);
+    expect(buckets[0].label).toBe('Week of Apr 29');
+  });
+
+  it('groups calendar months', () => {
+    const buckets = aggregateMoods(ENTRIES, 'month', getLevel);
+    expect(buckets.map(({ key, min, max, count }) => [key, min, max, count])).toEqual([
+      ['2024-04', 2, 2, 1],
+      ['2024-05', 1, 5, 4],
+    ]);
+  });
+
+  it('returns no buckets without entries', () => {
+    expect(aggregateMoods([], 'day', getLevel)).toEqual([]);
+  });
+});
+
+describe('ranges', () => {
+  const today = new Date('2024-05-06T09:00:00');
+
+  it('include today and the days before it', () => {
+    expect(getRecentRange(7, today)).toEqual({ from: '2024-04-30', to: '2024-05-06' });
+    expect(filterByRange(ENTRIES, getRecentRange(7, today)).map((entry) => entry.id)).toEqual([2, 3, 4, 5]);
+  });
+
+  it('start at the first entry for the full range', () => {
+    expect(getFullRange(ENTRIES, today)).toEqual({ from: '2024-04-29', to: '2024-05-06' });
+    expect(getFullRange([], today)).toEqual({ from: '2024-05-06', to: '2024-05-06' });
+  });
+});
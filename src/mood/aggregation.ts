@@ -0,0 +1,102 @@
+import type { MoodEntry } from '../storage/types';
+import { addDays, formatMonth, getDateKey, parseDateKey } from '../utils/dates';
+
+// --------------------------------------------------------
+//    Stimmungsverlauf: Zeiträume und Zusammenfassung
+// --------------------------------------------------------
+// Alle Tage als YYYY-MM-DD in lokaler Zeit, Zeiträume inklusive from und to.
+// getValue liefert den Stimmungswert eines Eintrags (auf eine gemeinsame Skala umgerechnet).
+
+export type MoodGranularity = 'day' | 'week' | 'month';
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export type MoodValueGetter = (entry: MoodEntry) => number;
+
+export interface MoodBucket {
+  key: string;
+  label: string;
+  average: number;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export const RANGE_PRESETS = [
+  { id: '30d', label: '30 days', days: 30 },
+  { id: '90d', label: '90 days', days: 90 },
+  { id: '1y', label: '12 months', days: 365 },
+] as const;
+
+export function getEntryDay(entry: MoodEntry): string {
+  return getDateKey(new Date(entry.timestamp));
+}
+
+// Die letzten days Tage bis einschließlich heute
+export function getRecentRange(days: number, today: Date = new Date()): DateRange {
+  const to = getDateKey(today);
+  return { from: addDays(to, -(days - 1)), to };
+}
+
+// Vom ersten Eintrag bis heute
+export function getFullRange(entries: MoodEntry[], today: Date = new Date()): DateRange {
+  const to = getDateKey(today);
+  const days = entries.map(getEntryDay).sort();
+  return { from: days[0] && days[0] < to ? days[0] : to, to };
+}
+
+export function filterByRange(entries: MoodEntry[], range: DateRange): MoodEntry[] {
+  return entries.filter((entry) => {
+    const day = getEntryDay(entry);
+    return day >= range.from && day <= range.to;
+  });
+}
+
+// Montag der Woche, in der der Tag liegt
+export function getWeekStart(day: string): string {
+  const weekday = (parseDateKey(day).getDay() + 6) % 7;
+  return addDays(day, -weekday);
+}
+
+function getBucketKey(day: string, granularity: MoodGranularity): string {
+  if (granularity === 'week') return getWeekStart(day);
+  if (granularity === 'month') return day.slice(0, 7);
+  return day;
+}
+
+function formatBucketLabel(key: string, granularity: MoodGranularity): string {
+  if (granularity === 'month') return formatMonth(key, 'short');
+  const label = parseDateKey(key).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return granularity === 'week' ? `Week of ${label}` : label;
+}
+
+// Durchschnitt, Minimum und Maximum der Stimmung je Tag, Woche oder Monat (älteste zuerst)
+export function aggregateMoods(
+  entries: MoodEntry[],
+  granularity: MoodGranularity,
+  getValue: MoodValueGetter
+): MoodBucket[] {
+  const groups = new Map<string, number[]>();
+  entries.forEach((entry) => {
+    const key = getBucketKey(getEntryDay(entry), granularity);
+    groups.set(key, [...(groups.get(key) ?? []), getValue(entry)]);
+  });
+  return Array.from(groups)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, values]) => ({
+      key,
+      label: formatBucketLabel(key, granularity),
+      average: values.reduce((sum, value) => sum + value, 0) / values.length,
+      min: Math.min(...values),
+      max: Math.max(...values),
+      count: values.length,
+    }));
+}
+
+// Tagesdurchschnitte für die Kalenderansicht
+export function getDailyAverages(entries: MoodEntry[], getValue: MoodValueGetter): Map<string, MoodBucket> {
+  return new Map(aggregateMoods(entries, 'day', getValue).map((bucket) => [bucket.key, bucket]));
+}
@@ -0,0 +1,55 @@
+import type { MoodDimensions, MoodEntry } from '../storage/types';
+import { MoodBucket, MoodGranularity, aggregateMoods } from './aggregation';
+
+// --------------------------------------------------------
+//    Zusätzliche Dimensionen eines Check-ins
+// --------------------------------------------------------
+// Alle Angaben sind optional; Auswertungen berücksichtigen pro Dimension nur
+// die Einträge, bei denen sie ausgefüllt wurde.
+
+export type MoodDimension = keyof MoodDimensions;
+
+export interface DimensionConfig {
+  key: MoodDimension;
+  label: string;
+  emoji: string;
+  min: number;
+  max: number;
+  step: number;
+  // Einheit für die Anzeige, z. B. "h"; ohne Einheit wird "x/max" angezeigt
+  unit?: string;
+  color: string;
+}
+
+export const MOOD_DIMENSIONS: DimensionConfig[] = [
+  { key: 'energy', label: 'Energy', emoji: '⚡', min: 1, max: 5, step: 1, color: '#eab308' },
+  { key: 'stress', label: 'Stress / anxiety', emoji: '😰', min: 1, max: 5, step: 1, color: '#ef4444' },
+  { key: 'sleepHours', label: 'Sleep', emoji: '🛌', min: 0, max: 24, step: 0.5, unit: 'h', color: '#6366f1' },
+  { key: 'sleepQuality', label: 'Sleep quality', emoji: '🌙', min: 1, max: 5, step: 1, color: '#14b8a6' },
+];
+
+export function formatDimensionValue(config: DimensionConfig, value: number): string {
+  const rounded = Math.round(value * 10) / 10;
+  return config.unit ? `${rounded} ${config.unit}` : `${rounded}/${config.max}`;
+}
+
+// Entfernt leere Angaben; undefined, wenn gar nichts ausgefüllt ist
+export function cleanDimensions(dimensions: MoodDimensions): MoodDimensions | undefined {
+  const filled = Object.fromEntries(
+    Object.entries(dimensions).filter(([, value]) => typeof value === 'number' && !Number.isNaN(value))
+  ) as MoodDimensions;
+  return Object.keys(filled).length > 0 ? filled : undefined;
+}
+
+// Verlauf einer Dimension (Durchschnitt, Minimum, Maximum je Zeitraum)
+export function aggregateDimension(
+  entries: MoodEntry[],
+  dimension: MoodDimension,
+  granularity: MoodGranularity
+): MoodBucket[] {
+  return aggregateMoods(
+    entries.filter((entry) => entry.dimensions?.[dimension] !== undefined),
+    granularity,
+    (entry) => entry.dimensions?.[dimension] ?? 0
+  );
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { MoodEntry } from '../storage/types';
+import { DEFAULT_MOOD_SCALE } from './scales';
+import { createMoodEntry, parseEntryTime, sortMoodEntries, updateMoodEntry } from './entries';
+
+const createEntry = (id: number, timestamp: string): MoodEntry => ({
+  id,
+  scaleId: 'default',
+  level: 3,
+  timestamp,
+  notes: [],
+});
+
+const ENTRIES = [
+  createEntry(1, '2024-05-01T08:00:00.000Z'),
+  createEntry(2, '2024-05-03T08:00:00.000Z'),
+  createEntry(3, '2024-05-02T08:00:00.000Z'),
+];
+
+describe('createMoodEntry', () => {
+  it('gives entries created in quick succession different ids', () => {
+    const ids = Array.from({ length: 5 }, () => createMoodEntry(DEFAULT_MOOD_SCALE, 3).id);
+    expect(new Set(ids).size).toBe(5);
+  });
+
+  it('does not derive the id from a backdated timestamp', () => {
+    const timestamp = '2024-05-01T08:00:00.000Z';
+    const first = createMoodEntry(DEFAULT_MOOD_SCALE, 2, { timestamp });
+    const second = createMoodEntry(DEFAULT_MOOD_SCALE, 4, { timestamp });
+    expect(first.timestamp).toBe(timestamp);
+    expect(first.id).not.toBe(second.id);
+    expect(first.id).not.toBe(new Date(timestamp).getTime());
+  });
+
+  it('drops dimensions that were not filled in', () => {
+    expect(createMoodEntry(DEFAULT_MOOD_SCALE, 3, { dimensions: {} }).dimensions).toBeUndefined();
+    expect(createMoodEntry(DEFAULT_MOOD_SCALE, 3, { dimensions: { energy: 4 } }).dimensions).toEqual({ energy: 4 });
+  });
+});
+
+describe('sortMoodEntries', () => {
+  it('puts the newest entry first without changing the input', () => {
+    expect(sortMoodEntries(ENTRIES).map((entry) => entry.id)).toEqual([2, 3, 1]);
+    expect(ENTRIES.map((entry) => entry.id)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('updateMoodEntry', () => {
+  it('moves a backdated entry to its place in time', () => {
+    const updated = updateMoodEntry(sortMoodEntries(ENTRIES), 2, { timestamp: '2024-04-30T08:00:00.000Z' });
+    expect(updated.map((entry) => entry.id)).toEqual([3, 1, 2]);
+    expect(updated[2].timestamp).toBe('2024-04-30T08:00:00.000Z');
+  });
+});
+
+describe('parseEntryTime', () => {
+  const now = new Date('2024-05-15T12:00:00');
+
+  it('reads a datetime-local value in local time', () => {
+    expect(parseEntryTime('2024-05-14T21:30', now)).toBe(new Date('2024-05-14T21:30').toISOString());
+  });
+
+  it('rejects empty, invalid and future times', () => {
+    expect(parseEntryTime('', now)).toBeNull();
+    expect(parseEntryTime('not a date', now)).toBeNull();
+    expect(parseEntryTime('2024-05-15T12:01', now)).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+import type { MoodEntry, MoodScale } from '../storage/types';
+import { createNumericId } from '../utils/ids';
+import { cleanDimensions } from './dimensions';
+
+export type MoodEntryDetails = Partial<Pick<MoodEntry, 'timestamp' | 'tagIds' | 'dimensions'>>;
+
+// Ohne timestamp gilt der aktuelle Zeitpunkt. Die id hängt nicht vom (evtl.
+// nachgetragenen) Zeitpunkt ab und bleibt auch bei schnellen Einträgen eindeutig.
+export function createMoodEntry(scale: MoodScale, level: number, details: MoodEntryDetails = {}): MoodEntry {
+  return {
+    id: createNumericId(),
+    scaleId: scale.id,
+    level,
+    timestamp: details.timestamp ?? new Date().toISOString(),
+    notes: [],
+    tagIds: details.tagIds ?? [],
+    dimensions: cleanDimensions(details.dimensions ?? {}),
+  };
+}
+
+// Neueste Einträge zuerst – auch nachgetragene und bearbeitete Einträge landen so an der richtigen Stelle
+export function sortMoodEntries(entries: MoodEntry[]): MoodEntry[] {
+  return [...entries].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+}
+
+export function updateMoodEntry(entries: MoodEntry[], id: number, changes: Partial<MoodEntry>): MoodEntry[] {
+  return sortMoodEntries(entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)));
+}
+
+// Zeitpunkt aus einem datetime-local-Feld; null bei leerer, ungültiger oder zukünftiger Eingabe
+export function parseEntryTime(value: string, now: Date = new Date()): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime()) || date.getTime() > now.getTime()) return null;
+  return date.toISOString();
+}
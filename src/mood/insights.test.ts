@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { MoodEntry, MoodTag } from '../storage/types';
+import { MIN_TAGGED_ENTRIES, describeCorrelation, getTagInsights } from './insights';
+
+const SPORT: MoodTag = { id: 'sport', label: 'Sport', emoji: '🏃' };
+const WORK: MoodTag = { id: 'work', label: 'Work', emoji: '💼' };
+const TRAVEL: MoodTag = { id: 'travel', label: 'Travel', emoji: '✈️' };
+
+const createEntry = (id: number, level: number, tagIds: string[] = []): MoodEntry => ({
+  id,
+  scaleId: 'default',
+  level,
+  timestamp: new Date(2024, 4, id).toISOString(),
+  notes: [],
+  tagIds,
+});
+
+const getLevel = (entry: MoodEntry) => entry.level;
+
+// Pearson-Korrelation zwischen "Tag gesetzt" (0/1) und Stimmung als Vergleichswert
+function pearson(xs: number[], ys: number[]): number {
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const mx = mean(xs);
+  const my = mean(ys);
+  const covariance = xs.reduce((sum, x, index) => sum + (x - mx) * (ys[index] - my), 0);
+  const spread = (values: number[], m: number) => Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0));
+  return covariance / (spread(xs, mx) * spread(ys, my));
+}
+
+const ENTRIES = [
+  createEntry(1, 5, ['sport']),
+  createEntry(2, 4, ['sport', 'work']),
+  createEntry(3, 4, ['sport']),
+  createEntry(4, 2, ['work']),
+  createEntry(5, 3, ['work']),
+  createEntry(6, 1, ['travel']),
+  createEntry(7, 3),
+];
+
+describe('getTagInsights', () => {
+  it('computes the point-biserial correlation between a tag and the mood', () => {
+    const [sport] = getTagInsights(ENTRIES, [SPORT], getLevel);
+    const hasSport = ENTRIES.map((entry) => (entry.tagIds?.includes('sport') ? 1 : 0));
+    expect(sport.correlation).toBeCloseTo(pearson(hasSport, ENTRIES.map(getLevel)), 10);
+    expect(sport).toMatchObject({ count: 3, averageWith: 13 / 3, averageWithout: 9 / 4 });
+    expect(sport.difference).toBeCloseTo(13 / 3 - 9 / 4, 10);
+  });
+
+  it('orders tags by the strength of the link, positive or negative', () => {
+    const insights = getTagInsights(ENTRIES, [WORK, SPORT], getLevel);
+    expect(insights.map((insight) => insight.tag.id)).toEqual(['sport', 'work']);
+    expect(insights[0].correlation).toBeGreaterThan(0);
+    expect(insights[1].correlation).toBeLessThan(0);
+  });
+
+  it(`skips tags with fewer than ${MIN_TAGGED_ENTRIES} entries or without entries to compare against`, () => {
+    expect(getTagInsights(ENTRIES, [TRAVEL], getLevel)).toEqual([]);
+    const allSport = ENTRIES.slice(0, 3);
+    expect(getTagInsights(allSport, [SPORT], getLevel)).toEqual([]);
+    expect(getTagInsights([], [SPORT], getLevel)).toEqual([]);
+  });
+
+  it('reports no correlation when the mood never changes', () => {
+    const flat = ENTRIES.map((entry) => ({ ...entry, level: 3 }));
+    expect(getTagInsights(flat, [SPORT], getLevel)[0].correlation).toBe(0);
+  });
+});
+
+describe('describeCorrelation', () => {
+  it.each([
+    [0.05, 'No clear link'],
+    [-0.2, 'Slightly lower mood'],
+    [0.4, 'Noticeably higher mood'],
+    [-0.7, 'Much lower mood'],
+  ])('describes %d as %s', (correlation, text) => {
+    expect(describeCorrelation(correlation)).toBe(text);
+  });
+});
@@ -0,0 +1,64 @@
+import type { MoodEntry, MoodTag } from '../storage/types';
+import type { MoodValueGetter } from './aggregation';
+
+// --------------------------------------------------------
+//    Zusammenhänge zwischen Aktivitäten und Stimmung
+// --------------------------------------------------------
+// Für jeden Tag wird die durchschnittliche Stimmung der Einträge mit und ohne
+// diesen Tag verglichen. Die Korrelation ist der punktbiseriale
+// Korrelationskoeffizient (-1 bis 1) zwischen "Tag gesetzt" und Stimmung.
+
+// Darunter ist ein Vergleich nicht aussagekräftig
+export const MIN_TAGGED_ENTRIES = 3;
+
+export interface TagInsight {
+  tag: MoodTag;
+  count: number;
+  averageWith: number;
+  averageWithout: number;
+  // averageWith - averageWithout
+  difference: number;
+  correlation: number;
+}
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Nur Tags mit genug Einträgen auf beiden Seiten; stärkster Zusammenhang zuerst
+export function getTagInsights(entries: MoodEntry[], tags: MoodTag[], getValue: MoodValueGetter): TagInsight[] {
+  const values = entries.map(getValue);
+  if (values.length === 0) return [];
+  const mean = average(values);
+  const deviation = Math.sqrt(average(values.map((value) => (value - mean) ** 2)));
+
+  return tags
+    .map((tag) => {
+      const withTag = entries.filter((entry) => entry.tagIds?.includes(tag.id)).map(getValue);
+      const withoutTag = entries.filter((entry) => !entry.tagIds?.includes(tag.id)).map(getValue);
+      if (withTag.length < MIN_TAGGED_ENTRIES || withoutTag.length === 0) return null;
+
+      const averageWith = average(withTag);
+      const averageWithout = average(withoutTag);
+      const share = withTag.length / values.length;
+      const correlation =
+        deviation > 0 ? ((averageWith - averageWithout) / deviation) * Math.sqrt(share * (1 - share)) : 0;
+      return {
+        tag,
+        count: withTag.length,
+        averageWith,
+        averageWithout,
+        difference: averageWith - averageWithout,
+        correlation,
+      };
+    })
+    .filter((insight): insight is TagInsight => insight !== null)
+    .sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
+}
+
+export function describeCorrelation(correlation: number): string {
+  const strength = Math.abs(correlation);
+  if (strength < 0.1) return 'No clear link';
+  const direction = correlation > 0 ? 'higher' : 'lower';
+  if (strength < 0.3) return `Slightly ${direction} mood`;
+  if (strength < 0.5) return `Noticeably ${direction} mood`;
+  return `Much ${direction} mood`;
+}
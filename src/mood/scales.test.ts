@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { MoodEntry, MoodScale } from '../storage/types';
+import { migrateValue } from '../storage/migrations';
+import {
+  DEFAULT_MOOD_SCALE,
+  MAX_SCALE_LEVELS,
+  MIN_SCALE_LEVELS,
+  addScaleLevel,
+  canRemoveTopLevel,
+  createScale,
+  getEntryLevel,
+  getScaledValue,
+} from './scales';
+
+const TEN_LEVELS: MoodScale = { ...createScale('Fine', 10), id: 'ten' };
+const THREE_LEVELS: MoodScale = { ...createScale('Simple', 3), id: 'three' };
+const SCALES = [DEFAULT_MOOD_SCALE, TEN_LEVELS, THREE_LEVELS];
+
+const createEntry = (scaleId: string, level: number): MoodEntry => ({
+  id: level,
+  scaleId,
+  level,
+  timestamp: '2024-05-01T08:00:00.000Z',
+  notes: [],
+});
+
+describe('createScale', () => {
+  it(`keeps between ${MIN_SCALE_LEVELS} and ${MAX_SCALE_LEVELS} levels, numbered from 1`, () => {
+    expect(createScale('Tiny', 1).levels.map((level) => level.value)).toEqual([1, 2, 3]);
+    expect(createScale('Huge', 20).levels).toHaveLength(MAX_SCALE_LEVELS);
+    expect(addScaleLevel(TEN_LEVELS)).toBe(TEN_LEVELS);
+  });
+});
+
+describe('getScaledValue', () => {
+  it('maps the worst and best levels onto each other', () => {
+    expect(getScaledValue(createEntry('default', 1), SCALES, TEN_LEVELS)).toBe(1);
+    expect(getScaledValue(createEntry('default', 5), SCALES, TEN_LEVELS)).toBe(10);
+    expect(getScaledValue(createEntry('ten', 10), SCALES, THREE_LEVELS)).toBe(3);
+  });
+
+  it('converts levels in between linearly without rounding', () => {
+    expect(getScaledValue(createEntry('default', 3), SCALES, TEN_LEVELS)).toBe(5.5);
+    expect(getScaledValue(createEntry('three', 2), SCALES, DEFAULT_MOOD_SCALE)).toBe(3);
+    expect(getScaledValue(createEntry('ten', 4), SCALES, DEFAULT_MOOD_SCALE)).toBeCloseTo(2.333, 3);
+  });
+
+  it('keeps the value on the same scale or one with as many levels', () => {
+    expect(getScaledValue(createEntry('ten', 7), SCALES, TEN_LEVELS)).toBe(7);
+    const otherFive: MoodScale = { ...DEFAULT_MOOD_SCALE, id: 'five' };
+    expect(getScaledValue(createEntry('default', 4), SCALES, otherFive)).toBe(4);
+  });
+});
+
+describe('legacy entries', () => {
+  // Vor Version 12 enthielten Einträge die Stimmung selbst statt einer Skala
+  const legacy = [
+    {
+      id: 1,
+      mood: { id: 5, label: 'Excellent', color: 'bg-green-500', emoji: '😃' },
+      timestamp: '2024-05-01T08:00:00.000Z',
+      notes: [],
+    },
+    {
+      id: 2,
+      mood: { id: 2, label: 'Poor', color: 'bg-orange-500', emoji: '🙁' },
+      timestamp: '2024-05-02T08:00:00.000Z',
+      notes: [],
+    },
+  ];
+
+  it('reference the default scale after the migration and convert like any other entry', () => {
+    const entries = migrateValue('moodEntries', legacy, 0);
+    expect(entries.map((entry) => getEntryLevel(entry, SCALES).label)).toEqual(['Excellent', 'Poor']);
+    expect(entries.map((entry) => getScaledValue(entry, SCALES, TEN_LEVELS))).toEqual([10, 3.25]);
+  });
+
+  it('fall back to the first scale when their scale no longer exists', () => {
+    expect(getEntryLevel(createEntry('deleted', 4), SCALES)).toBe(DEFAULT_MOOD_SCALE.levels[3]);
+    expect(getScaledValue(createEntry('deleted', 5), SCALES, TEN_LEVELS)).toBe(10);
+  });
+});
+
+describe('canRemoveTopLevel', () => {
+  it('refuses while an entry uses the top level or the scale is at its minimum', () => {
+    expect(canRemoveTopLevel(TEN_LEVELS, [createEntry('ten', 9)])).toBe(true);
+    expect(canRemoveTopLevel(TEN_LEVELS, [createEntry('ten', 10)])).toBe(false);
+    expect(canRemoveTopLevel(TEN_LEVELS, [createEntry('default', 10)])).toBe(true);
+    expect(canRemoveTopLevel(THREE_LEVELS, [])).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import type { MoodEntry, MoodLevel, MoodScale } from '../storage/types';
+
+// --------------------------------------------------------
+//    Stimmungsskalen
+// --------------------------------------------------------
+// Eine Skala hat 3–10 Stufen mit den Werten 1..n (1 = schlechteste Stimmung).
+// Einträge speichern nur scaleId und den Wert; Beschriftung, Emoji und Farbe
+// kommen immer aus der Skala. Für Auswertungen über mehrere Skalen hinweg
+// werden Werte linear auf die aktive Skala umgerechnet.
+
+export const MIN_SCALE_LEVELS = 3;
+export const MAX_SCALE_LEVELS = 10;
+
+// Entspricht den früher fest eingebauten fünf Stufen
+export const DEFAULT_MOOD_SCALE: MoodScale = {
+  id: 'default',
+  name: 'Classic (5 levels)',
+  levels: [
+    { value: 1, label: 'Bad', emoji: '😞', color: '#ef4444' },
+    { value: 2, label: 'Poor', emoji: '🙁', color: '#f97316' },
+    { value: 3, label: 'Neutral', emoji: '😐', color: '#eab308' },
+    { value: 4, label: 'Good', emoji: '🙂', color: '#3b82f6' },
+    { value: 5, label: 'Excellent', emoji: '😃', color: '#22c55e' },
+  ],
+};
+
+const SCALE_EMOJIS = ['😫', '😞', '🙁', '😕', '😐', '🙂', '😊', '😄', '😃', '🤩'];
+
+export function createScaleId(): string {
+  return `scale-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function toHex(value: number): string {
+  return Math.round(value).toString(16).padStart(2, '0');
+}
+
+// Farbverlauf von Rot (schlecht) über Gelb nach Grün (gut)
+function getGradientColor(fraction: number): string {
+  const red = fraction < 0.5 ? 239 : 239 - (fraction - 0.5) * 2 * (239 - 34);
+  const green = fraction < 0.5 ? 68 + fraction * 2 * (179 - 68) : 179 + (fraction - 0.5) * 2 * (197 - 179);
+  const blue = fraction < 0.5 ? 68 - fraction * 2 * (68 - 8) : 8 + (fraction - 0.5) * 2 * (94 - 8);
+  return `#${toHex(red)}${toHex(green)}${toHex(blue)}`;
+}
+
+function createLevel(value: number, count: number): MoodLevel {
+  const fraction = count > 1 ? (value - 1) / (count - 1) : 1;
+  return {
+    value,
+    label: `Level ${value}`,
+    emoji: SCALE_EMOJIS[Math.round(fraction * (SCALE_EMOJIS.length - 1))],
+    color: getGradientColor(fraction),
+  };
+}
+
+export function createScale(name: string, count: number): MoodScale {
+  const levelCount = Math.min(MAX_SCALE_LEVELS, Math.max(MIN_SCALE_LEVELS, Math.round(count)));
+  return {
+    id: createScaleId(),
+    name,
+    levels: Array.from({ length: levelCount }, (_, index) => createLevel(index + 1, levelCount)),
+  };
+}
+
+// Neue beste Stufe oben anfügen
+export function addScaleLevel(scale: MoodScale): MoodScale {
+  if (scale.levels.length >= MAX_SCALE_LEVELS) return scale;
+  const count = scale.levels.length + 1;
+  return { ...scale, levels: [...scale.levels, createLevel(count, count)] };
+}
+
+// Oberste Stufe entfernen; nur möglich, wenn kein Eintrag sie verwendet
+export function canRemoveTopLevel(scale: MoodScale, entries: MoodEntry[]): boolean {
+  const top = scale.levels.length;
+  return top > MIN_SCALE_LEVELS && !entries.some((entry) => entry.scaleId === scale.id && entry.level === top);
+}
+
+export function removeTopLevel(scale: MoodScale): MoodScale {
+  return { ...scale, levels: scale.levels.slice(0, -1) };
+}
+
+export function getScale(scales: MoodScale[], scaleId: string): MoodScale {
+  return scales.find((scale) => scale.id === scaleId) ?? scales[0] ?? DEFAULT_MOOD_SCALE;
+}
+
+export function getLevel(scale: MoodScale, value: number): MoodLevel {
+  const index = Math.min(scale.levels.length, Math.max(1, Math.round(value))) - 1;
+  return scale.levels[index];
+}
+
+// Stufe eines Eintrags in seiner eigenen Skala
+export function getEntryLevel(entry: MoodEntry, scales: MoodScale[]): MoodLevel {
+  return getLevel(getScale(scales, entry.scaleId), entry.level);
+}
+
+// Wert eines Eintrags, umgerechnet auf die Skala target (nicht gerundet)
+export function getScaledValue(entry: MoodEntry, scales: MoodScale[], target: MoodScale): number {
+  const source = getScale(scales, entry.scaleId);
+  if (source.id === target.id || source.levels.length === target.levels.length) return entry.level;
+  const fraction = (entry.level - 1) / (source.levels.length - 1);
+  return 1 + fraction * (target.levels.length - 1);
+}
+
+// Hex-Farbe mit Deckkraft (0–1), z. B. für den Hintergrund der Einträge
+export function withAlpha(color: string, alpha: number): string {
+  return `${color}${toHex(alpha * 255)}`;
+}
@@ -0,0 +1,27 @@
+import type { MoodEntry, MoodTag } from '../storage/types';
+
+// Startauswahl an Aktivitäten; lässt sich im Tracker umbenennen, ergänzen und löschen
+export const DEFAULT_MOOD_TAGS: MoodTag[] = [
+  { id: 'sleep', label: 'Slept well', emoji: '😴' },
+  { id: 'sport', label: 'Sport', emoji: '🏃' },
+  { id: 'work', label: 'Work', emoji: '💼' },
+  { id: 'people', label: 'Friends & family', emoji: '👥' },
+  { id: 'weather', label: 'Good weather', emoji: '☀️' },
+];
+
+export function createTagId(): string {
+  return `tag-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Fügt den Tag hinzu oder entfernt ihn
+export function toggleTagId(tagIds: string[] | undefined, tagId: string): string[] {
+  const current = tagIds ?? [];
+  return current.includes(tagId) ? current.filter((id) => id !== tagId) : [...current, tagId];
+}
+
+// Entfernt einen gelöschten Tag aus allen Einträgen
+export function removeTagFromEntries(entries: MoodEntry[], tagId: string): MoodEntry[] {
+  return entries.map((entry) =>
+    entry.tagIds?.includes(tagId) ? { ...entry, tagIds: entry.tagIds.filter((id) => id !== tagId) } : entry
+  );
+}
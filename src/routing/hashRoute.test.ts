@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { formatRoute, parseHash } from './hashRoute';
+
+describe('parseHash', () => {
+  it('reads tab, item and query parameters', () => {
+    expect(parseHash('#/mood/1712345678901?filter=2')).toEqual({
+      tab: 'mood',
+      itemId: '1712345678901',
+      params: { filter: '2' },
+    });
+  });
+
+  it('round-trips encoded item ids', () => {
+    expect(parseHash(formatRoute({ tab: 'budget', itemId: 'entry 1/2' }))?.itemId).toBe('entry 1/2');
+  });
+
+  it('returns null for unknown tabs and malformed encodings', () => {
+    expect(parseHash('#/unknown')).toBeNull();
+    expect(parseHash('#/projects/%E0%A4%A')).toBeNull();
+  });
+});
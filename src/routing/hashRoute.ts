@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+
+// --------------------------------------------------------
+//    Hash-Routen: #/<tab>[/<itemId>][?key=value]
+// --------------------------------------------------------
+// Beispiele: #/projects/1712345678901, #/todos/1712345678901, #/mood?filter=2
+
+export type TabId = 'dashboard' | 'projects' | 'goals' | 'mood' | 'lifeEQ' | 'todos' | 'budget' | 'wishlist';
+
+export const TAB_IDS: TabId[] = ['dashboard', 'projects', 'goals', 'mood', 'lifeEQ', 'todos', 'budget', 'wishlist'];
+
+export interface Route {
+  tab: TabId;
+  itemId?: string;
+  params: Record<string, string>;
+}
+
+// null für unbekannte Tabs und fehlerhaft kodierte Links (z. B. "%E0%A4%A")
+export function parseHash(hash: string): Route | null {
+  const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+  let tab: string | undefined;
+  let itemId: string | undefined;
+  try {
+    [tab, itemId] = path.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+  if (!TAB_IDS.includes(tab as TabId)) return null;
+  return {
+    tab: tab as TabId,
+    itemId: itemId || undefined,
+    params: Object.fromEntries(new URLSearchParams(query)),
+  };
+}
+
+export function formatRoute(route: Partial<Route> & { tab: TabId }): string {
+  const path = [route.tab, route.itemId].filter(Boolean).map((part) => encodeURIComponent(part!));
+  const query = new URLSearchParams(route.params ?? {}).toString();
+  return `#/${path.join('/')}${query ? `?${query}` : ''}`;
+}
+
+// DOM-id eines verlinkbaren Eintrags, z. B. "projects-1712345678901"
+export function getItemElementId(tab: TabId, itemId: string | number): string {
+  return `${tab}-${itemId}`;
+}
+
+interface NavigateOptions {
+  // Ersetzt den aktuellen History-Eintrag statt einen neuen anzulegen (z. B. für Filter)
+  replace?: boolean;
+}
+
+export function useHashRoute() {
+  const [route, setRoute] = useState<Route | null>(() => parseHash(window.location.hash));
+
+  useEffect(() => {
+    const handleHashChange = () => setRoute(parseHash(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const navigate = useCallback(
+    (target: Partial<Route> & { tab: TabId }, options: NavigateOptions = {}) => {
+      const hash = formatRoute(target);
+      if (hash === window.location.hash) return;
+      if (options.replace) {
+        // replaceState löst kein hashchange aus – alle useHashRoute-Instanzen selbst informieren
+        window.history.replaceState(null, '', hash);
+        window.dispatchEvent(new HashChangeEvent('hashchange'));
+      } else {
+        window.location.hash = hash;
+      }
+    },
+    []
+  );
+
+  return { route, navigate };
+}
+
+// Scrollt zum verlinkten Eintrag und hebt ihn kurz hervor. Da die Tracker ihre
+// Daten asynchron laden, wird eine Weile auf das Element gewartet.
+export function useScrollToItem(elementId: string | null) {
+  useEffect(() => {
+    if (!elementId) return;
+    let attempts = 0;
+    let highlighted: HTMLElement | null = null;
+    let highlightTimeout: ReturnType<typeof setTimeout> | undefined;
+    const removeHighlight = () => highlighted?.classList.remove('ring-2', 'ring-blue-400');
+
+    const interval = setInterval(() => {
+      const element = document.getElementById(elementId);
+      attempts += 1;
+      if (!element && attempts < 40) return;
+      clearInterval(interval);
+      if (!element) return;
+
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      if (!element.hasAttribute('tabindex')) element.setAttribute('tabindex', '-1');
+      element.focus({ preventScroll: true });
+      element.classList.add('ring-2', 'ring-blue-400');
+      highlighted = element;
+      highlightTimeout = setTimeout(removeHighlight, 2000);
+    }, 50);
+
+    return () => {
+      clearInterval(interval);
+      if (highlightTimeout) clearTimeout(highlightTimeout);
+      removeHighlight();
+    };
+  }, [elementId]);
+}
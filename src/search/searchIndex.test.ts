@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { SearchDocument, fuzzyScore, groupResults, searchDocuments } from './searchIndex';
+
+const createDocument = (title: string, texts: string[] = [], tab: SearchDocument['tab'] = 'todos'): SearchDocument => ({
+  tab,
+  itemId: title,
+  title,
+  texts,
+});
+
+describe('fuzzyScore', () => {
+  it('ignores case', () => {
+    expect(fuzzyScore('RENT', 'Monthly rent')).toBe(fuzzyScore('rent', 'monthly RENT'));
+    expect(fuzzyScore('rent', 'Monthly rent')).not.toBeNull();
+  });
+
+  it('ranks substrings at a word start above other substrings and scattered matches', () => {
+    const wordStart = fuzzyScore('run', 'Morning run') as number;
+    const inWord = fuzzyScore('run', 'Brunch') as number;
+    const scattered = fuzzyScore('run', 'Read until noon') as number;
+    expect(wordStart).toBeGreaterThan(inWord);
+    expect(inWord).toBeGreaterThan(scattered);
+  });
+
+  it('returns null when the characters do not occur in order', () => {
+    expect(fuzzyScore('xyz', 'Groceries')).toBeNull();
+    expect(fuzzyScore('nur', 'run')).toBeNull();
+    expect(fuzzyScore('  ', 'run')).toBeNull();
+  });
+});
+
+describe('searchDocuments', () => {
+  const documents = [
+    createDocument('Call the plumber', ['Fix the kitchen sink']),
+    createDocument('Kitchen', [], 'budget'),
+    createDocument('Buy paint', ['for the kitchen wall']),
+  ];
+
+  it('ranks title matches above matches in notes', () => {
+    const results = searchDocuments(documents, 'kitchen');
+    expect(results.map((result) => result.document.title)).toEqual(['Kitchen', 'Call the plumber', 'Buy paint']);
+    expect(results[1].matchedText).toBe('Fix the kitchen sink');
+  });
+
+  it('finds nothing for a query that matches no document', () => {
+    expect(searchDocuments(documents, 'zebra')).toEqual([]);
+    expect(searchDocuments(documents, '   ')).toEqual([]);
+  });
+
+  it('limits the number of results', () => {
+    expect(searchDocuments(documents, 'kitchen', 2)).toHaveLength(2);
+  });
+});
+
+describe('groupResults', () => {
+  it('orders groups by their best result', () => {
+    const results = searchDocuments(
+      [createDocument('Kitchen', [], 'budget'), createDocument('Clean kitchen'), createDocument('Kitchen scale')],
+      'kitchen'
+    );
+    expect(groupResults(results).map((group) => [group.tab, group.results.length])).toEqual([
+      ['budget', 1],
+      ['todos', 2],
+    ]);
+  });
+});
@@ -0,0 +1,184 @@
+import type { StoreSchema } from '../storage/schema';
+import type { NoteType } from '../storage/types';
+import type { TabId } from '../routing/hashRoute';
+import { withDefaultSettings } from '../storage/settings';
+import { DEFAULT_MOOD_SCALE, getEntryLevel } from '../mood/scales';
+import { formatMonth } from '../utils/dates';
+import { formatMoney } from '../utils/money';
+
+// --------------------------------------------------------
+//    Suchindex über alle Tracker
+// --------------------------------------------------------
+
+export interface SearchDocument {
+  tab: TabId;
+  // Ziel für #/<tab>/<itemId>; fehlt, wenn nur der Tab geöffnet werden kann
+  itemId?: string;
+  // Zusätzliche Routen-Parameter, z. B. der Budgetmonat
+  params?: Record<string, string>;
+  title: string;
+  subtitle?: string;
+  // Weitere durchsuchbare Texte, z. B. Beschreibungen und Notizen
+  texts: string[];
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  // Der Text, der am besten gepasst hat (zur Anzeige unter dem Titel)
+  matchedText: string;
+}
+
+export interface SearchGroup {
+  tab: TabId;
+  results: SearchResult[];
+}
+
+type SearchData = Partial<StoreSchema>;
+
+const noteTexts = (notes: NoteType[] | undefined) => (notes ?? []).map((note) => note.text);
+
+export function buildSearchIndex(data: SearchData): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+  const { locale } = withDefaultSettings(data.settings);
+
+  const addGoals = (tab: 'projects' | 'goals', goals: StoreSchema['goals'] = []) => {
+    goals.forEach((goal) => {
+      documents.push({
+        tab,
+        itemId: String(goal.id),
+        title: goal.name,
+        subtitle: goal.archived ? `${goal.status} · archived` : goal.status,
+        texts: [...goal.milestones.map((milestone) => milestone.name), ...noteTexts(goal.notes)],
+      });
+    });
+  };
+  addGoals('projects', data.projects);
+  addGoals('goals', data.goals);
+
+  const moodScales = data.moodScales ?? [DEFAULT_MOOD_SCALE];
+  (data.moodEntries ?? []).forEach((entry) => {
+    const level = getEntryLevel(entry, moodScales);
+    documents.push({
+      tab: 'mood',
+      itemId: String(entry.id),
+      title: `${level.emoji} ${level.label}`,
+      subtitle: new Date(entry.timestamp).toLocaleString(),
+      texts: noteTexts(entry.notes),
+    });
+  });
+
+  (data.lifeEqCategories ?? []).forEach((category) => {
+    documents.push({
+      tab: 'lifeEQ',
+      itemId: category.name,
+      title: category.name,
+      subtitle: `${category.value} / 10`,
+      texts: [],
+    });
+  });
+
+  (data.todoGroups ?? []).forEach((group) => {
+    documents.push({ tab: 'todos', itemId: String(group.id), title: group.title, texts: [] });
+    group.todos.forEach((todo) => {
+      documents.push({
+        tab: 'todos',
+        itemId: String(todo.id),
+        title: todo.text,
+        subtitle: todo.archived ? `${group.title} · archived` : group.title,
+        texts: noteTexts(todo.notes),
+      });
+    });
+  });
+
+  const addFinancialEntries = (kind: 'income' | 'expense', entries: StoreSchema['incomes'] = []) => {
+    entries.forEach((entry) => {
+      documents.push({
+        tab: 'budget',
+        itemId: entry.id,
+        params: { month: entry.month },
+        title: entry.category || entry.purpose || '(no category)',
+        subtitle: `${kind === 'income' ? 'Income' : 'Expense'} · ${formatMonth(entry.month, 'short')} · ${formatMoney(entry.amount, locale)}`,
+        texts: [
+          entry.purpose,
+          ...(entry.transactions ?? []).flatMap((transaction) => [transaction.payee, transaction.note]),
+        ],
+      });
+    });
+  };
+  addFinancialEntries('income', data.incomes);
+  addFinancialEntries('expense', data.expenses);
+
+  const categoryNames = new Map((data.wishlistCategories ?? []).map((category) => [category.id, category.name]));
+  (data.wishlist ?? []).forEach((item) => {
+    documents.push({
+      tab: 'wishlist',
+      itemId: item.id,
+      title: item.name,
+      subtitle: categoryNames.get(item.category),
+      texts: [item.description, item.url],
+    });
+  });
+
+  return documents;
+}
+
+// Unscharfer Vergleich: Teilstrings zählen am meisten, sonst müssen alle Zeichen
+// der Anfrage in derselben Reihenfolge vorkommen. Zusammenhängende Treffer und
+// Wortanfänge geben Bonuspunkte. null = kein Treffer.
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.trim().toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle || !haystack) return null;
+
+  const substringIndex = haystack.indexOf(needle);
+  if (substringIndex !== -1) {
+    const atWordStart = substringIndex === 0 || /\W/.test(haystack[substringIndex - 1]);
+    return 100 + (atWordStart ? 20 : 0) - Math.min(substringIndex, 20);
+  }
+
+  let score = 0;
+  let streak = 0;
+  let position = 0;
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const found = haystack.indexOf(char, position);
+    if (found === -1) return null;
+    streak = found === position ? streak + 1 : 0;
+    const atWordStart = found === 0 || /\W/.test(haystack[found - 1]);
+    score += 1 + streak * 2 + (atWordStart ? 3 : 0);
+    position = found + 1;
+  }
+  // Weit verstreute Treffer in langen Texten abwerten
+  return score - Math.floor((position - needle.length) / 4);
+}
+
+export function searchDocuments(documents: SearchDocument[], query: string, limit = 50): SearchResult[] {
+  if (!query.trim()) return [];
+
+  const results: SearchResult[] = [];
+  for (const document of documents) {
+    let best: SearchResult | null = null;
+    for (const [index, text] of [document.title, ...document.texts].entries()) {
+      const score = text ? fuzzyScore(query, text) : null;
+      if (score === null || score <= 0) continue;
+      // Treffer im Titel wiegen schwerer als in Notizen
+      const weighted = index === 0 ? score + 10 : score;
+      if (!best || weighted > best.score) best = { document, score: weighted, matchedText: text };
+    }
+    if (best) results.push(best);
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+// Gruppiert Treffer nach Tracker; die Reihenfolge der Gruppen folgt dem besten Treffer
+export function groupResults(results: SearchResult[]): SearchGroup[] {
+  const groups = new Map<TabId, SearchResult[]>();
+  results.forEach((result) => {
+    const group = groups.get(result.document.tab) ?? [];
+    group.push(result);
+    groups.set(result.document.tab, group);
+  });
+  return Array.from(groups, ([tab, groupResults]) => ({ tab, results: groupResults }));
+}
@@ -0,0 +1,79 @@
+import { DB_VERSION, openDB, transactionDone } from './db';
+import { migrateValue } from './migrations';
+import { repositories } from './repositories';
+import { DATA_KEY, STORE_NAMES, type StoreSchema } from './schema';
+
+// --------------------------------------------------------
+//    Komplett-Backup aller Tracker
+// --------------------------------------------------------
+export const BACKUP_FORMAT = 'life-tracker-backup';
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  // Schema-Version der Datenbank beim Export – bestimmt, welche Migrationen beim Import laufen
+  schemaVersion: number;
+  exportedAt: string;
+  data: Partial<StoreSchema>;
+}
+
+export async function createBackup(): Promise<BackupArchive> {
+  const data: Partial<StoreSchema> = {};
+  for (const storeName of STORE_NAMES) {
+    const value = await repositories[storeName].load();
+    if (value !== undefined) {
+      (data as Record<string, unknown>)[storeName] = value;
+    }
+  }
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: DB_VERSION,
+    exportedAt: new Date().toISOString(),
+    data,
+  };
+}
+
+function isBackupArchive(value: unknown): value is BackupArchive {
+  if (!value || typeof value !== 'object') return false;
+  const archive = value as Partial<BackupArchive>;
+  return (
+    archive.format === BACKUP_FORMAT &&
+    typeof archive.schemaVersion === 'number' &&
+    !!archive.data &&
+    typeof archive.data === 'object'
+  );
+}
+
+// Ersetzt alle Stores durch das Archiv in einer Transaktion – entweder alles oder nichts.
+// Stores, die im Archiv fehlen, sind danach leer.
+export async function restoreBackup(value: unknown): Promise<void> {
+  if (!isBackupArchive(value)) {
+    throw new Error('Invalid backup file');
+  }
+  if (value.schemaVersion > DB_VERSION) {
+    throw new Error(
+      `Backup was created with a newer version (${value.schemaVersion}) of the app`
+    );
+  }
+
+  const db = await openDB();
+  const transaction = db.transaction(STORE_NAMES, 'readwrite');
+  STORE_NAMES.forEach((storeName) => {
+    const store = transaction.objectStore(storeName);
+    store.clear();
+    const stored = value.data[storeName];
+    if (stored === undefined) return;
+    store.put(migrateValue(storeName, stored, value.schemaVersion), DATA_KEY);
+  });
+  await transactionDone(transaction);
+}
+
+export function downloadBackup(archive: BackupArchive) {
+  const jsonData = JSON.stringify(archive, null, 2);
+  const blob = new Blob([jsonData], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `life_tracker_backup_${archive.exportedAt.split('T')[0]}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
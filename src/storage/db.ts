@@ -0,0 +1,62 @@
+import { importLegacyDatabases } from './legacyMigration';
+import { LATEST_VERSION, runMigrations } from './migrations';
+
+export const DB_NAME = 'lifeTrackerDB';
+// Die Version ergibt sich aus der letzten registrierten Migration
+export const DB_VERSION = LATEST_VERSION;
+
+// --------------------------------------------------------
+//    Promise-Helfer für die IndexedDB-Callbacks
+// --------------------------------------------------------
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// --------------------------------------------------------
+//    Verbindung öffnen (wird von allen Repositories geteilt)
+// --------------------------------------------------------
+function openConnection(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      runMigrations(request.result, request.transaction!, event.oldVersion);
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openConnection()
+      .then(async (db) => {
+        // Ein anderer Tab möchte upgraden: Verbindung freigeben und beim nächsten Zugriff neu öffnen
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        await importLegacyDatabases(db);
+        return db;
+      })
+      .catch((error) => {
+        dbPromise = null;
+        throw error;
+      });
+  }
+  return dbPromise;
+}
@@ -0,0 +1,75 @@
+import type { CurrencyCode, FinancialEntry, Goal, LifeEQCategory, TodoGroup, WishlistCategory } from './types';
+import { DEFAULT_SETTINGS } from './settings';
+import { createEntryId } from '../budget/periods';
+import { createTodoGroup } from '../todos/groups';
+import { getMonthKey } from '../utils/dates';
+import { toMoney } from '../utils/money';
+
+// --------------------------------------------------------
+//    Startwerte der Tracker
+// --------------------------------------------------------
+// Gelten, solange in einem Store noch nichts gespeichert ist. Tracker,
+// Dashboard, Suche und Befehle verwenden dieselben Werte, damit überall
+// dieselben Daten zu sehen sind.
+
+const createSampleGoal = (name: string, status: string): Goal => ({
+  id: 1,
+  name,
+  deadline: new Date().toISOString(),
+  status,
+  image: null,
+  difficulty: 3,
+  milestones: [
+    { id: 1, name: 'First Step', completed: false },
+    { id: 2, name: 'Second Step', completed: false },
+  ],
+  notes: [],
+  order: 1,
+  archived: false,
+  favorite: false,
+  createdAt: new Date().toISOString(),
+});
+
+export const DEFAULT_PROJECTS: Goal[] = [createSampleGoal('Project Name', 'Not started')];
+
+export const DEFAULT_GOALS: Goal[] = [createSampleGoal('New Goal', 'Not Started')];
+
+export const DEFAULT_LIFE_EQ_CATEGORIES: LifeEQCategory[] = [
+  { name: 'Health', value: 8 },
+  { name: 'Relationships', value: 7 },
+  { name: 'Career', value: 6 },
+  { name: 'Finance', value: 5 },
+  { name: 'Growth', value: 7 },
+  { name: 'Leisure', value: 6 },
+];
+
+export const DEFAULT_TODO_GROUPS: TodoGroup[] = [createTodoGroup()];
+
+export const DEFAULT_INCOME_CATEGORIES = ['Salary Person 1', 'Salary Person 2', 'Side Job', 'Other Income'];
+
+export const DEFAULT_EXPENSE_CATEGORIES = ['Rent/Mortgage', 'Utilities', 'Groceries', 'Transportation', 'Insurance'];
+
+// Leere Zeilen im aktuellen Monat
+export const createDefaultEntries = (
+  categories: string[],
+  currency: CurrencyCode = DEFAULT_SETTINGS.currency
+): FinancialEntry[] =>
+  categories.map((category) => ({
+    id: createEntryId(),
+    month: getMonthKey(new Date()),
+    category,
+    amount: toMoney(0, currency),
+    purpose: '',
+  }));
+
+export const DEFAULT_INCOMES = createDefaultEntries(DEFAULT_INCOME_CATEGORIES);
+
+export const DEFAULT_EXPENSES = createDefaultEntries(DEFAULT_EXPENSE_CATEGORIES);
+
+export const DEFAULT_WISHLIST_CATEGORIES: WishlistCategory[] = [
+  { id: 'tech', name: 'Technology' },
+  { id: 'kleidung', name: 'Clothing' },
+  { id: 'hobby', name: 'Hobby' },
+  { id: 'haushalt', name: 'Household' },
+  { id: 'sonstiges', name: 'Miscellaneous' },
+];
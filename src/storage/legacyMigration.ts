@@ -0,0 +1,113 @@
+import { requestToPromise, transactionDone } from './db';
+import { migrateValue } from './migrations';
+import { DATA_KEY, META_STORE, type StoreName } from './schema';
+
+// --------------------------------------------------------
+//    Übernahme der Daten aus den alten Einzel-Datenbanken
+// --------------------------------------------------------
+// Vor der gemeinsamen Datenbank hatte jeder Tracker seinen eigenen
+// useIndexedDB-Hook mit eigener DB und eigenem Record-Format:
+//   - { id: <key>, value } in Stores mit keyPath 'id'
+//   - der rohe Wert direkt unter dem Key 'data'
+// Beim ersten Start wird alles Gefundene einmalig übernommen.
+
+const LEGACY_IMPORT_KEY = 'legacyImported';
+
+interface LegacySource {
+  dbName: string;
+  storeName: string;
+  key: string;
+  target: StoreName;
+}
+
+const LEGACY_SOURCES: LegacySource[] = [
+  { dbName: 'projectTrackerDB', storeName: 'projectTrackerGoals', key: 'data', target: 'projects' },
+  { dbName: 'projectTrackerDB', storeName: 'projectGoals', key: 'data', target: 'goals' },
+  { dbName: 'projectTrackerDB', storeName: 'lifeEqCategories', key: 'data', target: 'lifeEqCategories' },
+  { dbName: 'projectTrackerDB', storeName: 'wishlist', key: 'data', target: 'wishlist' },
+  { dbName: 'projectTrackerDB', storeName: 'wishlist_categories', key: 'data', target: 'wishlistCategories' },
+  { dbName: 'moodTrackerDB', storeName: 'moodEntries', key: 'moodEntriesData', target: 'moodEntries' },
+  { dbName: 'todoTrackerDB', storeName: 'todoGroups', key: 'data', target: 'todoGroups' },
+  { dbName: 'householdBudgetDB', storeName: 'incomes', key: 'data', target: 'incomes' },
+  { dbName: 'householdBudgetDB', storeName: 'expenses', key: 'data', target: 'expenses' },
+];
+
+// Öffnet eine alte DB nur, wenn sie existiert. indexedDB.open() würde sie
+// sonst leer anlegen – deshalb wird das Upgrade in diesem Fall abgebrochen.
+function openLegacyDB(dbName: string): Promise<IDBDatabase | null> {
+  return new Promise((resolve) => {
+    const request = indexedDB.open(dbName);
+
+    request.onupgradeneeded = () => {
+      request.transaction?.abort();
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = (event) => {
+      event.preventDefault();
+      resolve(null);
+    };
+  });
+}
+
+function unwrapLegacyRecord(record: unknown, key: string): unknown {
+  if (
+    record &&
+    typeof record === 'object' &&
+    !Array.isArray(record) &&
+    'value' in record &&
+    (record as { id?: unknown }).id === key
+  ) {
+    return (record as { value: unknown }).value;
+  }
+  return record;
+}
+
+async function readLegacyValue(db: IDBDatabase, source: LegacySource): Promise<unknown> {
+  if (!db.objectStoreNames.contains(source.storeName)) return undefined;
+  const transaction = db.transaction(source.storeName, 'readonly');
+  const record = await requestToPromise(transaction.objectStore(source.storeName).get(source.key));
+  return unwrapLegacyRecord(record, source.key);
+}
+
+export async function importLegacyDatabases(db: IDBDatabase): Promise<void> {
+  const metaTransaction = db.transaction(META_STORE, 'readonly');
+  const alreadyImported = await requestToPromise(
+    metaTransaction.objectStore(META_STORE).get(LEGACY_IMPORT_KEY)
+  );
+  if (alreadyImported) return;
+
+  const found = new Map<StoreName, unknown>();
+  const dbNames = [...new Set(LEGACY_SOURCES.map((source) => source.dbName))];
+
+  for (const dbName of dbNames) {
+    const legacyDB = await openLegacyDB(dbName);
+    if (!legacyDB) continue;
+    try {
+      for (const source of LEGACY_SOURCES.filter((s) => s.dbName === dbName)) {
+        const value = await readLegacyValue(legacyDB, source);
+        if (value !== undefined && value !== null && !found.has(source.target)) {
+          found.set(source.target, value);
+        }
+      }
+    } catch (error) {
+      console.error(`Error reading legacy database "${dbName}":`, error);
+    } finally {
+      legacyDB.close();
+    }
+  }
+
+  const targets = [...found.keys()];
+  const transaction = db.transaction([...targets, META_STORE], 'readwrite');
+  for (const target of targets) {
+    const store = transaction.objectStore(target);
+    // Bereits vorhandene Daten in der neuen DB haben Vorrang
+    const existing = await requestToPromise(store.getKey(DATA_KEY));
+    if (existing === undefined) {
+      // Alt-Daten können aus der Zeit vor allen Migrationen stammen
+      store.put(migrateValue(target, found.get(target), 0), DATA_KEY);
+    }
+  }
+  transaction.objectStore(META_STORE).put(new Date().toISOString(), LEGACY_IMPORT_KEY);
+  await transactionDone(transaction);
+}
@@ -0,0 +1,273 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { LATEST_VERSION, MIGRATIONS, migrateValue } from './migrations';
+import type { StoreName } from './schema';
+
+// Gespeicherte Werte in jedem Format, das ein Store seit Version 0 hatte.
+// from: ab dieser Version liegt der Wert in diesem Format vor;
+// expected: Ergebnis nach allen Migrationen (ohne Angabe: das neueste Format).
+interface Fixture {
+  from: number;
+  value: unknown;
+  expected?: unknown;
+}
+
+interface StoreFixtures {
+  store: StoreName;
+  formats: Fixture[];
+}
+
+// Stand der Migration für Einträge ohne Monat
+const TODAY = new Date('2024-05-15T12:00:00');
+
+const GOAL_DEFAULTS = { image: null, milestones: [], notes: [] };
+
+const GOALS_V0 = [
+  { ...GOAL_DEFAULTS, id: 1700000000000, name: 'Marathon', deadline: '2024-10-01', status: 'In Progress' },
+  { ...GOAL_DEFAULTS, id: 2, name: 'Learn Spanish', deadline: '2025-01-01', status: 'Not Started' },
+];
+
+const GOALS_V2 = [
+  { ...GOALS_V0[0], difficulty: 3, order: 1, archived: false, favorite: false },
+  { ...GOALS_V0[1], difficulty: 3, order: 2, archived: false, favorite: false },
+];
+
+const GOALS_LATEST = [
+  { ...GOALS_V2[0], createdAt: new Date(1700000000000).toISOString() },
+  // Aus kleinen ids lässt sich kein Anlagedatum ableiten
+  GOALS_V2[1],
+];
+
+const TODO_GROUPS_V0 = [
+  {
+    id: 1,
+    title: 'Home',
+    todos: [
+      { id: 10, text: 'Clean windows', completed: false, notes: [] },
+      { id: 11, text: 'Call plumber', completed: true, notes: [{ id: 1, text: 'Monday' }] },
+    ],
+  },
+];
+
+const TODO_GROUPS_LATEST = [
+  {
+    ...TODO_GROUPS_V0[0],
+    todos: TODO_GROUPS_V0[0].todos.map((todo) => ({ ...todo, priority: 'none', archived: false })),
+  },
+];
+
+const INCOMES_V0 = [{ category: 'Salary', amount: '2.500,00', purpose: 'Job' }];
+const INCOMES_V4 = [{ id: 'entry-1', month: '2024-04', category: 'Salary', amount: '2.500,00', purpose: 'Job' }];
+const INCOMES_LATEST = [{ ...INCOMES_V4[0], amount: { cents: 250000, currency: 'EUR' } }];
+
+const EXPENSES_V0 = [
+  { category: 'Rent', amount: '1.234,56', purpose: 'Flat' },
+  { category: 'Food', amount: '300', purpose: '' },
+];
+const EXPENSES_V4 = [
+  { id: 'entry-1', month: '2024-04', category: 'Rent', amount: '1.234,56', purpose: 'Flat' },
+  {
+    id: 'entry-2',
+    month: '2024-04',
+    category: 'Food',
+    amount: '300',
+    purpose: '',
+    transactions: [{ id: 'tx-1', date: '2024-04-03', amount: '12,50', payee: 'Bakery', note: '' }],
+  },
+];
+const EXPENSES_LATEST = [
+  { ...EXPENSES_V4[0], amount: { cents: 123456, currency: 'EUR' } },
+  {
+    ...EXPENSES_V4[1],
+    amount: { cents: 30000, currency: 'EUR' },
+    transactions: [{ ...EXPENSES_V4[1].transactions?.[0], amount: { cents: 1250, currency: 'EUR' } }],
+  },
+];
+
+const WISHLIST_V0 = [
+  {
+    id: 'w1',
+    name: 'Bike',
+    description: '',
+    priority: 'hoch',
+    price: '499,99',
+    url: '',
+    category: 'Sport',
+    targetDate: '',
+    createdAt: 1700000000000,
+  },
+  {
+    id: 'w2',
+    name: 'Book',
+    description: '',
+    priority: 'niedrig',
+    price: '',
+    url: '',
+    category: 'Books',
+    targetDate: '',
+    createdAt: 1700000000001,
+  },
+];
+const WISHLIST_LATEST = [
+  { ...WISHLIST_V0[0], price: { cents: 49999, currency: 'EUR' } },
+  { ...WISHLIST_V0[1], price: null },
+];
+
+const MOOD_ENTRIES_V0 = [
+  {
+    id: 1,
+    mood: { id: 4, label: 'Good', color: 'bg-green-400', emoji: '🙂' },
+    timestamp: '2024-05-01T08:00:00.000Z',
+    notes: [],
+  },
+  // Ungültige Stufe wird auf die Standardskala begrenzt
+  { id: 2, mood: { id: 9 }, timestamp: '2024-05-02T08:00:00.000Z', notes: [] },
+  { id: 3, timestamp: '2024-05-03T08:00:00.000Z', notes: [], tagIds: ['sport'] },
+];
+const MOOD_ENTRIES_LATEST = [
+  { id: 1, scaleId: 'default', level: 4, timestamp: '2024-05-01T08:00:00.000Z', notes: [] },
+  { id: 2, scaleId: 'default', level: 5, timestamp: '2024-05-02T08:00:00.000Z', notes: [] },
+  { id: 3, scaleId: 'default', level: 3, timestamp: '2024-05-03T08:00:00.000Z', notes: [], tagIds: ['sport'] },
+];
+
+const CATEGORY_LIMITS_V10 = [{ id: 'cap-1', category: 'Food', limit: { cents: 40000, currency: 'EUR' } }];
+const CATEGORY_CAPS_LATEST = [{ id: 'cap-1', category: 'Food', cap: { cents: 40000, currency: 'EUR' } }];
+
+const STORES: StoreFixtures[] = [
+  {
+    store: 'goals',
+    formats: [
+      { from: 0, value: GOALS_V0 },
+      { from: 2, value: GOALS_V2 },
+      { from: 3, value: GOALS_LATEST },
+    ],
+  },
+  {
+    store: 'projects',
+    formats: [
+      { from: 0, value: GOALS_V0 },
+      { from: 2, value: GOALS_V2 },
+      { from: 3, value: GOALS_LATEST },
+    ],
+  },
+  {
+    store: 'todoGroups',
+    formats: [
+      { from: 0, value: TODO_GROUPS_V0 },
+      { from: 2, value: TODO_GROUPS_LATEST },
+    ],
+  },
+  {
+    store: 'incomes',
+    formats: [
+      {
+        from: 0,
+        value: INCOMES_V0,
+        expected: [{ ...INCOMES_LATEST[0], id: expect.stringMatching(/^entry-/), month: '2024-05' }],
+      },
+      { from: 4, value: INCOMES_V4 },
+      { from: 6, value: INCOMES_LATEST },
+    ],
+  },
+  {
+    store: 'expenses',
+    formats: [
+      {
+        from: 0,
+        value: EXPENSES_V0,
+        expected: [
+          { ...EXPENSES_LATEST[0], id: expect.stringMatching(/^entry-/), month: '2024-05' },
+          { ...EXPENSES_LATEST[1], id: expect.stringMatching(/^entry-/), month: '2024-05', transactions: undefined },
+        ],
+      },
+      { from: 4, value: EXPENSES_V4 },
+      { from: 6, value: EXPENSES_LATEST },
+    ],
+  },
+  {
+    store: 'wishlist',
+    formats: [
+      { from: 0, value: WISHLIST_V0 },
+      { from: 6, value: WISHLIST_LATEST },
+    ],
+  },
+  {
+    store: 'moodEntries',
+    formats: [
+      { from: 0, value: MOOD_ENTRIES_V0 },
+      { from: 12, value: MOOD_ENTRIES_LATEST },
+    ],
+  },
+  {
+    store: 'categoryLimits',
+    formats: [
+      // Den Store gibt es erst seit Version 10
+      { from: 0, value: [], expected: [] },
+      { from: 10, value: CATEGORY_LIMITS_V10 },
+      { from: 13, value: CATEGORY_CAPS_LATEST },
+    ],
+  },
+];
+
+// Format, in dem ein Store bei dieser Datenbankversion gespeichert ist
+function getFormatAt(formats: Fixture[], version: number): Fixture {
+  return formats.filter((format) => format.from <= version).at(-1) as Fixture;
+}
+
+const VERSIONS = Array.from({ length: LATEST_VERSION + 1 }, (_, version) => version);
+
+beforeAll(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(TODAY);
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+describe.each(STORES)('$store', ({ store, formats }) => {
+  const latest = formats[formats.length - 1].value;
+
+  it.each(VERSIONS)('migrates from version %i to the latest version', (version) => {
+    const fixture = getFormatAt(formats, version);
+    expect(migrateValue(store, fixture.value, version)).toEqual(fixture.expected ?? latest);
+  });
+
+  it('keeps data in the latest format unchanged when migrated again from version 0', () => {
+    expect(migrateValue(store, latest, 0)).toEqual(latest);
+    const migrated = migrateValue(store, formats[0].value, 0);
+    expect(migrateValue(store, migrated, 0)).toEqual(migrated);
+  });
+
+  const transforms = MIGRATIONS.filter((migration) => migration.transforms?.[store]);
+
+  it.each(transforms)('applies the transform of version $version twice safely', (migration) => {
+    const transform = migration.transforms?.[store] as (value: unknown) => unknown;
+    const once = transform(getFormatAt(formats, migration.version - 1).value);
+    expect(transform(once)).toEqual(once);
+  });
+});
+
+describe('goals created after version 3', () => {
+  it('keep their createdAt when migrated again from version 0', () => {
+    const goals = [{ ...GOALS_LATEST[1], id: 3, createdAt: '2024-02-01T10:00:00.000Z' }];
+    expect(migrateValue('goals', goals, 0)).toEqual(goals);
+  });
+});
+
+describe('amounts stored before version 6', () => {
+  const migrateAmount = (amount: unknown) =>
+    migrateValue('expenses', [{ ...EXPENSES_V4[0], amount }], 4)[0].amount.cents;
+
+  it('are read in the German format', () => {
+    expect(migrateAmount('1.234,56')).toBe(123456);
+    expect(migrateAmount('12,5')).toBe(1250);
+    expect(migrateAmount('12.50')).toBe(1250);
+    expect(migrateAmount(12.5)).toBe(1250);
+  });
+
+  it('stay 0 when they cannot be read', () => {
+    expect(migrateAmount('1.234,567')).toBe(0);
+    expect(migrateAmount('abc')).toBe(0);
+    expect(migrateAmount(undefined)).toBe(0);
+  });
+});
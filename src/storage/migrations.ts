@@ -0,0 +1,309 @@
+import { DATA_KEY, META_STORE, type StoreName, type StoreSchema } from './schema';
+import type {
+  CategoryCap,
+  FinancialEntry,
+  Goal,
+  Money,
+  MoodEntry,
+  Todo,
+  TodoGroup,
+  Transaction,
+  WishlistItem,
+} from './types';
+import { createEntryId } from '../budget/periods';
+import { DEFAULT_MOOD_SCALE } from '../mood/scales';
+import { getMonthKey } from '../utils/dates';
+import { parseMoney, toMoney } from '../utils/money';
+
+// --------------------------------------------------------
+//    Versionierte Schema-Migrationen
+// --------------------------------------------------------
+// Jede Version beschreibt, was sich gegenüber der vorherigen ändert:
+//   - upgradeSchema: Stores anlegen/umbenennen (läuft in onupgradeneeded)
+//   - transforms: wandelt den gespeicherten Wert eines Stores in das neue Format
+// Stores werden niemals gelöscht und neu angelegt – bestehende Daten werden
+// immer über transforms in das neue Format überführt.
+
+export interface Migration {
+  version: number;
+  description: string;
+  upgradeSchema?: (db: IDBDatabase, transaction: IDBTransaction) => void;
+  transforms?: { [K in StoreName]?: (value: unknown) => StoreSchema[K] };
+}
+
+function createStores(db: IDBDatabase, storeNames: string[]) {
+  storeNames.forEach((storeName) => {
+    if (!db.objectStoreNames.contains(storeName)) {
+      db.createObjectStore(storeName);
+    }
+  });
+}
+
+// Ältere Goal-Datensätze (vor Schwierigkeitsgrad, Favoriten und Archiv).
+// Alle Transformationen müssen mehrfach anwendbar sein: Importe laufen immer ab Version 0.
+function migrateGoals(value: unknown): Goal[] {
+  const goals = Array.isArray(value) ? (value as Partial<Goal>[]) : [];
+  return goals.map((goal, index) => ({
+    ...goal,
+    id: goal.id ?? Date.now() + index,
+    name: goal.name ?? '',
+    deadline: goal.deadline ?? new Date().toISOString(),
+    status: goal.status ?? 'Not Started',
+    image: goal.image ?? null,
+    difficulty: goal.difficulty ?? 3,
+    milestones: goal.milestones ?? [],
+    notes: goal.notes ?? [],
+    order: goal.order ?? index + 1,
+    archived: goal.archived ?? false,
+    favorite: goal.favorite ?? false,
+  }));
+}
+
+// Neue Goals verwenden Date.now() als id – daraus lässt sich das Anlagedatum ableiten
+const TIMESTAMP_ID_MIN = new Date('2020-01-01').getTime();
+
+function addGoalCreatedAt(value: unknown): Goal[] {
+  return (value as Goal[]).map((goal) => ({
+    ...goal,
+    createdAt:
+      goal.createdAt ?? (goal.id >= TIMESTAMP_ID_MIN ? new Date(goal.id).toISOString() : undefined),
+  }));
+}
+
+// Ältere Todos (vor Prioritäten und Archiv)
+function migrateTodoGroups(value: unknown): TodoGroup[] {
+  const groups = Array.isArray(value) ? (value as Partial<TodoGroup>[]) : [];
+  return groups.map((group, index) => ({
+    ...group,
+    id: group.id ?? Date.now() + index,
+    title: group.title ?? '',
+    todos: (group.todos ?? []).map((todo: Partial<Todo>, todoIndex) => ({
+      ...todo,
+      id: todo.id ?? Date.now() + todoIndex,
+      text: todo.text ?? '',
+      completed: todo.completed ?? false,
+      notes: todo.notes ?? [],
+      priority: todo.priority ?? 'none',
+      archived: todo.archived ?? false,
+    })),
+  }));
+}
+
+// Budget-Einträge ohne Monat gehören zum Monat der Migration
+function addEntryMonth(value: unknown): FinancialEntry[] {
+  const entries = Array.isArray(value) ? (value as Partial<FinancialEntry>[]) : [];
+  const month = getMonthKey(new Date());
+  return entries.map((entry) => ({
+    ...entry,
+    id: entry.id ?? createEntryId(),
+    month: entry.month ?? month,
+    category: entry.category ?? '',
+    amount: entry.amount ?? toMoney(0, 'EUR'),
+    purpose: entry.purpose ?? '',
+  }));
+}
+
+// Beträge waren Freitext im deutschen Format ("12,50", "1.234,56").
+// Nicht lesbare Werte wurden bisher als 0 gerechnet und bleiben 0.
+function toStoredMoney(value: unknown): Money {
+  if (value && typeof value === 'object' && typeof (value as Money).cents === 'number') {
+    return value as Money;
+  }
+  if (typeof value === 'number') {
+    return toMoney(Number.isFinite(value) ? Math.round(value * 100) : 0, 'EUR');
+  }
+  const parsed = parseMoney(typeof value === 'string' ? value : '', 'de-DE');
+  return toMoney(parsed.ok ? parsed.cents : 0, 'EUR');
+}
+
+function convertEntryAmounts(value: unknown): FinancialEntry[] {
+  return (value as FinancialEntry[]).map((entry) => ({
+    ...entry,
+    amount: toStoredMoney(entry.amount),
+    transactions: entry.transactions?.map((transaction: Transaction) => ({
+      ...transaction,
+      amount: toStoredMoney(transaction.amount),
+    })),
+  }));
+}
+
+// Leerer Preis = kein Preis angegeben
+function convertWishlistPrices(value: unknown): WishlistItem[] {
+  const items = Array.isArray(value) ? (value as WishlistItem[]) : [];
+  return items.map((item) => ({
+    ...item,
+    price:
+      item.price === null || item.price === undefined || (item.price as unknown) === ''
+        ? null
+        : toStoredMoney(item.price),
+  }));
+}
+
+// Ältere Stimmungseinträge enthalten eine Kopie der Stufe (mood: { id, label, color, emoji })
+// mit id 1–5 – das entspricht genau den Werten der Standardskala
+type LegacyMoodEntry = Omit<MoodEntry, 'scaleId' | 'level'> & Partial<MoodEntry> & { mood?: { id?: number } };
+
+function referenceMoodScale(value: unknown): MoodEntry[] {
+  const entries = Array.isArray(value) ? (value as LegacyMoodEntry[]) : [];
+  const maxLevel = DEFAULT_MOOD_SCALE.levels.length;
+  return entries.map(({ mood, ...entry }) =>
+    entry.scaleId !== undefined && entry.level !== undefined
+      ? (entry as MoodEntry)
+      : {
+          ...entry,
+          scaleId: DEFAULT_MOOD_SCALE.id,
+          level: Math.min(maxLevel, Math.max(1, Math.round(Number(mood?.id) || 3))),
+        }
+  );
+}
+
+// Kategorie-Limits hießen "limit" und wurden leicht mit dem geplanten Betrag
+// einer Zeile verwechselt – der Betrag heißt jetzt cap (Ausgabenobergrenze)
+type LegacyCategoryCap = Omit<CategoryCap, 'cap'> & { cap?: Money; limit?: Money };
+
+function renameLimitToCap(value: unknown): CategoryCap[] {
+  const caps = Array.isArray(value) ? (value as LegacyCategoryCap[]) : [];
+  return caps.map(({ limit, ...categoryCap }) => ({
+    ...categoryCap,
+    cap: categoryCap.cap ?? limit ?? toMoney(0, 'EUR'),
+  }));
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create one store per tracker',
+    upgradeSchema: (db) =>
+      createStores(db, [
+        'projects',
+        'goals',
+        'moodEntries',
+        'lifeEqCategories',
+        'todoGroups',
+        'incomes',
+        'expenses',
+        'wishlist',
+        'wishlistCategories',
+        META_STORE,
+      ]),
+  },
+  {
+    version: 2,
+    description: 'Add difficulty, favorite, archived and order to goals; priority and archived to todos',
+    transforms: {
+      projects: migrateGoals,
+      goals: migrateGoals,
+      todoGroups: migrateTodoGroups,
+    },
+  },
+  {
+    version: 3,
+    description: 'Add createdAt to goals',
+    transforms: {
+      projects: addGoalCreatedAt,
+      goals: addGoalCreatedAt,
+    },
+  },
+  {
+    version: 4,
+    description: 'Add monthly budget periods; give budget entries an id and a month',
+    upgradeSchema: (db) => createStores(db, ['budgetPeriods']),
+    transforms: {
+      incomes: addEntryMonth,
+      expenses: addEntryMonth,
+    },
+  },
+  {
+    version: 5,
+    description: 'Add bank profiles and categorisation rules for the CSV import',
+    upgradeSchema: (db) => createStores(db, ['bankProfiles', 'categoryRules']),
+  },
+  {
+    version: 6,
+    description: 'Store amounts and prices as integer cents with a currency; add app settings',
+    upgradeSchema: (db) => createStores(db, ['settings']),
+    transforms: {
+      incomes: convertEntryAmounts,
+      expenses: convertEntryAmounts,
+      wishlist: convertWishlistPrices,
+    },
+  },
+  {
+    version: 7,
+    description: 'Add savings pots',
+    upgradeSchema: (db) => createStores(db, ['savingsPots']),
+  },
+  {
+    version: 8,
+    description: 'Add household members for cost splitting',
+    upgradeSchema: (db) => createStores(db, ['householdMembers']),
+  },
+  {
+    version: 9,
+    description: 'Add what-if budget scenarios',
+    upgradeSchema: (db) => createStores(db, ['budgetScenarios']),
+  },
+  {
+    version: 10,
+    description: 'Add monthly limits per expense category',
+    upgradeSchema: (db) => createStores(db, ['categoryLimits']),
+  },
+  {
+    version: 11,
+    description: 'Add activity tags for mood entries',
+    upgradeSchema: (db) => createStores(db, ['moodTags']),
+  },
+  {
+    version: 12,
+    description: 'Add custom mood scales; mood entries reference a scale instead of embedding the mood',
+    upgradeSchema: (db) => createStores(db, ['moodScales']),
+    transforms: {
+      moodEntries: referenceMoodScale,
+    },
+  },
+  {
+    version: 13,
+    description: 'Rename the amount of category limits to cap; caps count only transactions',
+    transforms: {
+      categoryLimits: renameLimitToCap,
+    },
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Wendet alle Transformationen nach fromVersion auf einen Wert an.
+// Wird auch für Alt-Daten und Importe verwendet, die in einem älteren Format vorliegen.
+export function migrateValue<K extends StoreName>(
+  storeName: K,
+  value: unknown,
+  fromVersion: number
+): StoreSchema[K] {
+  return MIGRATIONS.filter((migration) => migration.version > fromVersion).reduce<unknown>(
+    (current, migration) => {
+      const transform = migration.transforms?.[storeName];
+      return transform ? transform(current) : current;
+    },
+    value
+  ) as StoreSchema[K];
+}
+
+// Wird aus onupgradeneeded aufgerufen und läuft komplett in der versionchange-Transaktion
+export function runMigrations(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) {
+  const pending = MIGRATIONS.filter((migration) => migration.version > oldVersion);
+  pending.forEach((migration) => migration.upgradeSchema?.(db, transaction));
+
+  const storesToTransform = new Set(
+    pending.flatMap((migration) => Object.keys(migration.transforms ?? {}) as StoreName[])
+  );
+  storesToTransform.forEach((storeName) => {
+    if (!db.objectStoreNames.contains(storeName)) return;
+    const store = transaction.objectStore(storeName);
+    const getRequest = store.get(DATA_KEY);
+    getRequest.onsuccess = () => {
+      if (getRequest.result !== undefined) {
+        store.put(migrateValue(storeName, getRequest.result, oldVersion), DATA_KEY);
+      }
+    };
+  });
+}
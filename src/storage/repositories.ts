@@ -0,0 +1,124 @@
+import { openDB, requestToPromise, transactionDone } from './db';
+import { DATA_KEY, type StoreName, type StoreSchema } from './schema';
+
+// --------------------------------------------------------
+//    Typisierte Repositories pro Tracker
+// --------------------------------------------------------
+export interface Repository<T> {
+  load(): Promise<T | undefined>;
+  // origin: Listener des Aufrufers, der über die eigene Änderung nicht benachrichtigt wird
+  save(value: T, origin?: (value: T) => void): Promise<void>;
+  // Benachrichtigt bei jedem save(), damit mehrere Ansichten synchron bleiben
+  subscribe(listener: (value: T) => void): () => void;
+}
+
+// Listener pro Store – auch für Änderungen über updateStores()
+const storeListeners = new Map<StoreName, Set<(value: never) => void>>();
+
+function getListeners<K extends StoreName>(storeName: K): Set<(value: StoreSchema[K]) => void> {
+  let listeners = storeListeners.get(storeName);
+  if (!listeners) {
+    listeners = new Set();
+    storeListeners.set(storeName, listeners);
+  }
+  return listeners as Set<(value: StoreSchema[K]) => void>;
+}
+
+function createRepository<K extends StoreName>(storeName: K): Repository<StoreSchema[K]> {
+  const listeners = getListeners(storeName);
+
+  return {
+    async load() {
+      const db = await openDB();
+      const transaction = db.transaction(storeName, 'readonly');
+      const result = await requestToPromise(transaction.objectStore(storeName).get(DATA_KEY));
+      return result as StoreSchema[K] | undefined;
+    },
+
+    async save(value, origin) {
+      const db = await openDB();
+      const transaction = db.transaction(storeName, 'readwrite');
+      transaction.objectStore(storeName).put(value, DATA_KEY);
+      await transactionDone(transaction);
+      listeners.forEach((listener) => {
+        if (listener !== origin) listener(value);
+      });
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export const repositories: { [K in StoreName]: Repository<StoreSchema[K]> } = {
+  projects: createRepository('projects'),
+  goals: createRepository('goals'),
+  moodEntries: createRepository('moodEntries'),
+  lifeEqCategories: createRepository('lifeEqCategories'),
+  todoGroups: createRepository('todoGroups'),
+  incomes: createRepository('incomes'),
+  expenses: createRepository('expenses'),
+  budgetPeriods: createRepository('budgetPeriods'),
+  householdMembers: createRepository('householdMembers'),
+  budgetScenarios: createRepository('budgetScenarios'),
+  categoryLimits: createRepository('categoryLimits'),
+  moodTags: createRepository('moodTags'),
+  moodScales: createRepository('moodScales'),
+  bankProfiles: createRepository('bankProfiles'),
+  categoryRules: createRepository('categoryRules'),
+  savingsPots: createRepository('savingsPots'),
+  wishlist: createRepository('wishlist'),
+  wishlistCategories: createRepository('wishlistCategories'),
+  settings: createRepository('settings'),
+};
+
+// Liest den aktuellen Stand, wendet update an und speichert – für Änderungen
+// außerhalb der Tracker-Komponenten (z. B. aus der Befehlspalette)
+export async function updateStore<K extends StoreName>(
+  storeName: K,
+  initialValue: StoreSchema[K],
+  update: (value: StoreSchema[K]) => StoreSchema[K]
+): Promise<StoreSchema[K]> {
+  const repository = repositories[storeName] as Repository<StoreSchema[K]>;
+  const updated = update((await repository.load()) ?? initialValue);
+  await repository.save(updated);
+  return updated;
+}
+
+type StoreValues<K extends StoreName> = { [P in K]?: StoreSchema[P] };
+
+// Wie updateStore, aber für mehrere Stores in einer Transaktion – entweder werden
+// alle Änderungen gespeichert oder keine. Noch nie gespeicherte Stores sind
+// undefined; was update nicht zurückgibt, bleibt unverändert.
+export async function updateStores<K extends StoreName>(
+  storeNames: K[],
+  update: (values: StoreValues<K>) => StoreValues<K>
+): Promise<void> {
+  const db = await openDB();
+  const transaction = db.transaction(storeNames, 'readwrite');
+  const done = transactionDone(transaction);
+  let updated: StoreValues<K>;
+  try {
+    const values: StoreValues<K> = {};
+    for (const storeName of storeNames) {
+      values[storeName] = await requestToPromise(transaction.objectStore(storeName).get(DATA_KEY));
+    }
+    updated = update(values);
+    storeNames.forEach((storeName) => {
+      if (updated[storeName] !== undefined) transaction.objectStore(storeName).put(updated[storeName], DATA_KEY);
+    });
+  } catch (error) {
+    transaction.abort();
+    await done.catch(() => undefined);
+    throw error;
+  }
+  await done;
+  storeNames.forEach((storeName) => {
+    const value = updated[storeName];
+    if (value !== undefined) getListeners(storeName).forEach((listener) => listener(value));
+  });
+}
@@ -0,0 +1,75 @@
+// --------------------------------------------------------
+//    Schema: eine Datenbank, ein Store pro Tracker-Datensatz
+// --------------------------------------------------------
+import type {
+  AppSettings,
+  BankProfile,
+  BudgetPeriod,
+  BudgetScenario,
+  CategoryCap,
+  CategoryRule,
+  FinancialEntry,
+  Goal,
+  HouseholdMember,
+  LifeEQCategory,
+  MoodEntry,
+  MoodScale,
+  MoodTag,
+  SavingsPot,
+  TodoGroup,
+  WishlistCategory,
+  WishlistItem,
+} from './types';
+
+// Jeder Store hält seinen kompletten Zustand unter diesem Key
+export const DATA_KEY = 'data';
+
+// Interner Store für Verwaltungsinfos (z. B. ob die Alt-Daten schon importiert wurden)
+export const META_STORE = 'meta';
+
+export interface StoreSchema {
+  projects: Goal[];
+  goals: Goal[];
+  moodEntries: MoodEntry[];
+  lifeEqCategories: LifeEQCategory[];
+  todoGroups: TodoGroup[];
+  incomes: FinancialEntry[];
+  expenses: FinancialEntry[];
+  budgetPeriods: BudgetPeriod[];
+  householdMembers: HouseholdMember[];
+  budgetScenarios: BudgetScenario[];
+  // Ausgabenobergrenzen; der Store-Name stammt aus Version 10
+  categoryLimits: CategoryCap[];
+  moodTags: MoodTag[];
+  moodScales: MoodScale[];
+  bankProfiles: BankProfile[];
+  categoryRules: CategoryRule[];
+  savingsPots: SavingsPot[];
+  wishlist: WishlistItem[];
+  wishlistCategories: WishlistCategory[];
+  settings: AppSettings;
+}
+
+export type StoreName = keyof StoreSchema;
+
+export const STORE_NAMES: StoreName[] = [
+  'projects',
+  'goals',
+  'moodEntries',
+  'lifeEqCategories',
+  'todoGroups',
+  'incomes',
+  'expenses',
+  'budgetPeriods',
+  'householdMembers',
+  'budgetScenarios',
+  'categoryLimits',
+  'moodTags',
+  'moodScales',
+  'bankProfiles',
+  'categoryRules',
+  'savingsPots',
+  'wishlist',
+  'wishlistCategories',
+  'settings',
+];
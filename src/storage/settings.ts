@@ -0,0 +1,67 @@
+import { repositories, updateStores } from './repositories';
+import type { AppSettings, CurrencyCode, FinancialEntry } from './types';
+import { DEFAULT_MOOD_SCALE } from '../mood/scales';
+
+// --------------------------------------------------------
+//    App-Einstellungen (Währung, Zahlenformat, Budget-Warnungen, Stimmungsskala)
+// --------------------------------------------------------
+export const DEFAULT_SETTINGS: AppSettings = {
+  currency: 'EUR',
+  locale: 'de-DE',
+  limitThresholds: { warning: 80, critical: 100 },
+  moodScaleId: DEFAULT_MOOD_SCALE.id,
+};
+
+// Gespeicherte Einstellungen, ergänzt um Standardwerte für neue Felder
+export function withDefaultSettings(stored: Partial<AppSettings> | undefined): AppSettings {
+  return { ...DEFAULT_SETTINGS, ...stored };
+}
+
+export async function loadSettings(): Promise<AppSettings> {
+  return withDefaultSettings(await repositories.settings.load());
+}
+
+function retagEntries(entries: FinancialEntry[], currency: CurrencyCode): FinancialEntry[] {
+  return entries.map((entry) => ({
+    ...entry,
+    amount: { ...entry.amount, currency },
+    transactions: entry.transactions?.map((transaction) => ({
+      ...transaction,
+      amount: { ...transaction.amount, currency },
+    })),
+  }));
+}
+
+// Wechselt die Währung und versieht alle gespeicherten Beträge (Budget,
+// Szenarien, Ausgabenobergrenzen, Wunschliste, Spartöpfe) mit der neuen Währung. Es wird nicht
+// umgerechnet – nur die Einheit ändert sich.
+export async function changeCurrency(currency: CurrencyCode): Promise<void> {
+  // Alles in einer Transaktion, damit ein Fehler keine gemischten Währungen hinterlässt.
+  // Noch nie gespeicherte Stores bleiben unberührt, damit die Startwerte der Tracker erhalten bleiben.
+  await updateStores(
+    ['incomes', 'expenses', 'wishlist', 'savingsPots', 'budgetScenarios', 'categoryLimits', 'settings'],
+    ({ incomes, expenses, wishlist, savingsPots, budgetScenarios, categoryLimits, settings }) => ({
+      incomes: incomes && retagEntries(incomes, currency),
+      expenses: expenses && retagEntries(expenses, currency),
+      wishlist: wishlist?.map((item) => ({ ...item, price: item.price && { ...item.price, currency } })),
+      savingsPots: savingsPots?.map((pot) => ({
+        ...pot,
+        target: { ...pot.target, currency },
+        allocations: pot.allocations.map((allocation) => ({
+          ...allocation,
+          amount: { ...allocation.amount, currency },
+        })),
+      })),
+      budgetScenarios: budgetScenarios?.map((scenario) => ({
+        ...scenario,
+        incomes: retagEntries(scenario.incomes, currency),
+        expenses: retagEntries(scenario.expenses, currency),
+      })),
+      categoryLimits: categoryLimits?.map((categoryCap) => ({
+        ...categoryCap,
+        cap: { ...categoryCap.cap, currency },
+      })),
+      settings: { ...withDefaultSettings(settings), currency },
+    })
+  );
+}
@@ -0,0 +1,261 @@
+// --------------------------------------------------------
+//    Datensätze, die die Tracker in IndexedDB ablegen
+// --------------------------------------------------------
+
+export interface MilestoneType {
+  id: number;
+  name: string;
+  completed: boolean;
+}
+
+export interface NoteType {
+  id: number;
+  text: string;
+  timestamp: string;
+}
+
+// Wird sowohl vom ProjectTracker als auch vom GoalsTracker verwendet
+export interface Goal {
+  id: number;
+  name: string;
+  deadline: string;
+  status: string;
+  image: string | null;
+  difficulty: number;
+  milestones: MilestoneType[];
+  notes: NoteType[];
+  order: number;
+  archived: boolean;
+  favorite: boolean;
+  // Fehlt bei Datensätzen, deren Anlagedatum nicht bekannt ist
+  createdAt?: string;
+}
+
+// Stufe einer Stimmungsskala; value läuft von 1 (schlecht) bis zur Anzahl der Stufen
+export interface MoodLevel {
+  value: number;
+  label: string;
+  emoji: string;
+  // Hex-Farbe, z. B. #22c55e
+  color: string;
+}
+
+export interface MoodScale {
+  id: string;
+  name: string;
+  // Aufsteigend nach value sortiert, 3–10 Stufen
+  levels: MoodLevel[];
+}
+
+export interface MoodEntry {
+  id: number;
+  // Skala und Stufe (MoodLevel.value) zum Zeitpunkt des Eintrags
+  scaleId: string;
+  level: number;
+  timestamp: string;
+  notes: NoteType[];
+  // Aktivitäten/Einflüsse (MoodTag-ids); fehlt bei älteren Einträgen
+  tagIds?: string[];
+  dimensions?: MoodDimensions;
+}
+
+// Optionale Zusatzangaben eines Check-ins
+export interface MoodDimensions {
+  // 1–5
+  energy?: number;
+  // Stress bzw. Anspannung, 1–5 (5 = sehr hoch)
+  stress?: number;
+  // Geschlafene Stunden der letzten Nacht
+  sleepHours?: number;
+  // 1–5
+  sleepQuality?: number;
+}
+
+// Aktivität oder Einflussfaktor, der beim Erfassen der Stimmung markiert wird
+export interface MoodTag {
+  id: string;
+  label: string;
+  emoji: string;
+}
+
+export interface LifeEQCategory {
+  name: string;
+  value: number;
+}
+
+export type PriorityLevel = 'high' | 'medium' | 'low' | 'none';
+
+export interface Todo {
+  id: number;
+  text: string;
+  completed: boolean;
+  notes: NoteType[];
+  priority: PriorityLevel;
+  archived: boolean;
+}
+
+export interface TodoGroup {
+  id: number;
+  title: string;
+  todos: Todo[];
+}
+
+export type RecurrenceInterval = 'monthly' | 'quarterly' | 'yearly';
+
+export interface Recurrence {
+  interval: RecurrenceInterval;
+  // Tag im Monat, an dem der Betrag fällig ist (1–31)
+  dueDay: number;
+}
+
+export type CurrencyCode = 'EUR' | 'USD' | 'GBP' | 'CHF';
+
+// Geldbetrag in ganzen Cent – vermeidet Rundungsfehler beim Summieren
+export interface Money {
+  cents: number;
+  currency: CurrencyCode;
+}
+
+// Zahlenformat für Eingabe und Anzeige von Beträgen
+export type NumberLocale = 'de-DE' | 'en-US';
+
+// Warnschwellen für Kategorie-Limits in Prozent des Limits
+export interface LimitThresholds {
+  warning: number;
+  critical: number;
+}
+
+export interface AppSettings {
+  currency: CurrencyCode;
+  locale: NumberLocale;
+  limitThresholds: LimitThresholds;
+  // Skala für neue Stimmungseinträge und Auswertungen
+  moodScaleId: string;
+}
+
+// Einzelne Buchung innerhalb einer Ausgabenkategorie
+export interface Transaction {
+  id: string;
+  // Datum im Format YYYY-MM-DD
+  date: string;
+  amount: Money;
+  payee: string;
+  note: string;
+}
+
+export interface FinancialEntry {
+  id: string;
+  // Budgetmonat im Format YYYY-MM
+  month: string;
+  category: string;
+  amount: Money;
+  purpose: string;
+  // Wiederkehrende Einträge werden in jeden neu angelegten, fälligen Monat übernommen
+  recurrence?: Recurrence;
+  // id des ersten Eintrags einer Serie; fehlt beim ersten Eintrag selbst
+  seriesId?: string;
+  // Buchungen; sobald welche existieren, ist amount nur noch das geplante Limit
+  transactions?: Transaction[];
+  // Haushaltsmitglied, das zahlt (Ausgaben) bzw. das Geld bekommt (Einnahmen)
+  payerId?: string;
+  // Aufteilung einer Ausgabe; ohne Angabe zu gleichen Teilen
+  split?: CostSplit;
+}
+
+// Was-wäre-wenn-Szenario: unabhängige Kopie der Einträge eines Monats
+export interface BudgetScenario {
+  id: string;
+  name: string;
+  // Monat, aus dem die Einträge kopiert wurden (YYYY-MM)
+  baseMonth: string;
+  incomes: FinancialEntry[];
+  expenses: FinancialEntry[];
+  createdAt: string;
+}
+
+// Monatliche Ausgabenobergrenze einer Kategorie (gilt für alle Monate). Zählt nur
+// die Buchungen aller gleichnamigen Zeilen – der geplante Betrag einer Zeile ist
+// davon unabhängig und dient nur zum Vergleich.
+export interface CategoryCap {
+  id: string;
+  category: string;
+  cap: Money;
+}
+
+export interface HouseholdMember {
+  id: string;
+  name: string;
+}
+
+// equal: zu gleichen Teilen, income: im Verhältnis der Einnahmen des Monats,
+// custom: feste Anteile in Prozent pro Mitglied
+export type CostSplit =
+  | { mode: 'equal' }
+  | { mode: 'income' }
+  | { mode: 'custom'; shares: Record<string, number> };
+
+// Spaltenzuordnung für den CSV-Import eines Bankexports (Spaltenüberschriften)
+export interface BankProfile {
+  id: string;
+  name: string;
+  delimiter: string;
+  encoding: 'utf-8' | 'windows-1252';
+  columns: {
+    date: string;
+    amount: string;
+    payee: string;
+    note: string;
+  };
+}
+
+// Ordnet importierte Buchungen anhand eines Suchbegriffs einer Ausgabenkategorie zu
+export interface CategoryRule {
+  id: string;
+  pattern: string;
+  field: 'payee' | 'note' | 'any';
+  category: string;
+}
+
+export interface BudgetPeriod {
+  month: string;
+  createdAt: string;
+}
+
+// Betrag, der in einem Monat vom Überschuss in einen Spartopf fließt
+export interface PotAllocation {
+  id: string;
+  month: string;
+  amount: Money;
+}
+
+// Spartopf im Budget; optional mit einem Wunschlisten-Eintrag verknüpft,
+// dessen Preis und Zieldatum dann Vorrang haben
+export interface SavingsPot {
+  id: string;
+  name: string;
+  target: Money;
+  // YYYY-MM-DD, leer = kein Zieldatum
+  targetDate: string;
+  wishlistItemId?: string;
+  allocations: PotAllocation[];
+  createdAt: string;
+}
+
+export interface WishlistItem {
+  id: string;
+  name: string;
+  description: string;
+  priority: 'niedrig' | 'mittel' | 'hoch';
+  // null = kein Preis angegeben
+  price: Money | null;
+  url: string;
+  category: string;
+  targetDate: string;
+  createdAt: number;
+  image?: string;
+}
+
+export interface WishlistCategory {
+  id: string;
+  name: string;
+}
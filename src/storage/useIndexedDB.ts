@@ -0,0 +1,92 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { StoreName, StoreSchema } from './schema';
+import { repositories } from './repositories';
+
+type SetValue<T> = (value: T | ((prev: T) => T)) => void;
+
+// useIndexedDB: Zustand eines Trackers, der über sein Repository in der
+// gemeinsamen Datenbank gespeichert wird. Solange noch nichts gespeichert
+// wurde, liefert der Hook den initialValue. Der dritte Wert gibt an, ob der
+// gespeicherte Stand schon geladen ist.
+export function useIndexedDB<K extends StoreName>(
+  storeName: K,
+  initialValue: StoreSchema[K]
+): [StoreSchema[K], SetValue<StoreSchema[K]>, boolean] {
+  const repository = repositories[storeName];
+  const [data, setData] = useState<StoreSchema[K]>(initialValue);
+  const dataRef = useRef(data);
+  const initialValueRef = useRef(initialValue);
+  // Änderungen vor dem Ende von load() werden vorgemerkt und danach auf den
+  // geladenen Stand angewendet, statt ihn mit dem initialValue zu überschreiben
+  const loadedRef = useRef(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const pendingRef = useRef<((prev: StoreSchema[K]) => StoreSchema[K])[]>([]);
+
+  const save = useCallback(
+    (value: StoreSchema[K], origin: (value: StoreSchema[K]) => void) => {
+      repository.save(value, origin).catch((error) => console.error(`[${storeName}] Error saving data:`, error));
+    },
+    [repository, storeName]
+  );
+
+  // Wird auch als "origin" an save() übergeben, damit eigene Änderungen nicht zurückgespiegelt werden
+  const listener = useCallback(
+    (value: StoreSchema[K]) => {
+      if (!loadedRef.current) {
+        // Erster bekannter Stand (geladen oder von einer anderen Komponente gespeichert)
+        loadedRef.current = true;
+        setIsLoaded(true);
+        const pending = pendingRef.current;
+        pendingRef.current = [];
+        const next = pending.reduce((current, update) => update(current), value);
+        dataRef.current = next;
+        setData(next);
+        if (pending.length > 0) save(next, listener);
+        return;
+      }
+      dataRef.current = value;
+      setData(value);
+    },
+    [save]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    repository
+      .load()
+      .then((stored) => {
+        if (!cancelled && !loadedRef.current) listener(stored ?? initialValueRef.current);
+      })
+      .catch((error) => {
+        console.error(`[${storeName}] Error loading data:`, error);
+        // Ohne geladenen Stand bleiben vorgemerkte Änderungen nur lokal
+        loadedRef.current = true;
+        setIsLoaded(true);
+        pendingRef.current = [];
+      });
+
+    const unsubscribe = repository.subscribe(listener);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [repository, storeName, listener]);
+
+  const setValue = useCallback<SetValue<StoreSchema[K]>>(
+    (value) => {
+      const update = value instanceof Function ? value : () => value;
+      const newValue = update(dataRef.current);
+      dataRef.current = newValue;
+      setData(newValue);
+      if (loadedRef.current) {
+        save(newValue, listener);
+      } else {
+        pendingRef.current.push(update);
+      }
+    },
+    [save, listener]
+  );
+
+  return [data, setValue, isLoaded];
+}
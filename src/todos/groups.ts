@@ -0,0 +1,10 @@
+import type { TodoGroup } from '../storage/types';
+import { formatDayTitle } from '../utils/dates';
+import { createNumericId } from '../utils/ids';
+
+// Neue, leere Gruppe mit dem heutigen Datum als Titel
+export const createTodoGroup = (): TodoGroup => ({
+  id: createNumericId(),
+  title: formatDayTitle(new Date()),
+  todos: [],
+});
@@ -0,0 +1,11 @@
+import type { PriorityLevel } from '../storage/types';
+
+// Rangfolge zum Sortieren: höchste Priorität zuerst, wenn absteigend sortiert wird
+export const getPriorityRank = (priority: PriorityLevel): number => {
+  switch (priority) {
+    case 'high': return 3;
+    case 'medium': return 2;
+    case 'low': return 1;
+    default: return 0;
+  }
+};
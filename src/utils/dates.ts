@@ -0,0 +1,85 @@
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Anteil der verstrichenen Zeit zwischen start und end in Prozent (0–100)
+export function getElapsedPercentage(start: string, end: string, now: Date = new Date()): number {
+  const startTime = new Date(start).getTime();
+  const endTime = new Date(end).getTime();
+  if (Number.isNaN(startTime) || Number.isNaN(endTime)) return 0;
+  if (endTime <= startTime) return now.getTime() >= endTime ? 100 : 0;
+  const elapsed = ((now.getTime() - startTime) / (endTime - startTime)) * 100;
+  return Math.min(100, Math.max(0, elapsed));
+}
+
+// Ganze Tage bis zum Datum (negativ, wenn es in der Vergangenheit liegt)
+export function daysUntil(date: string, now: Date = new Date()): number {
+  const target = new Date(date);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const targetDay = new Date(target.getFullYear(), target.getMonth(), target.getDate());
+  return Math.round((targetDay.getTime() - today.getTime()) / DAY_MS);
+}
+
+// Titel einer Todo-Gruppe, z. B. "Monday, October 19, 2026"
+export function formatDayTitle(date: Date): string {
+  return date.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+}
+
+// Monatsschlüssel im Format YYYY-MM (lokale Zeit)
+export function getMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function parseMonthKey(month: string): { year: number; monthIndex: number } {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return { year, monthIndex: monthNumber - 1 };
+}
+
+export function addMonths(month: string, amount: number): string {
+  const { year, monthIndex } = parseMonthKey(month);
+  return getMonthKey(new Date(year, monthIndex + amount, 1));
+}
+
+// Anzahl Monate von from bis to (negativ, wenn to davor liegt)
+export function monthsBetween(from: string, to: string): number {
+  const a = parseMonthKey(from);
+  const b = parseMonthKey(to);
+  return (b.year - a.year) * 12 + (b.monthIndex - a.monthIndex);
+}
+
+export function getDaysInMonth(month: string): number {
+  const { year, monthIndex } = parseMonthKey(month);
+  return new Date(year, monthIndex + 1, 0).getDate();
+}
+
+// z. B. "October 2026"
+export function formatMonth(month: string, style: 'long' | 'short' = 'long'): string {
+  const { year, monthIndex } = parseMonthKey(month);
+  return new Date(year, monthIndex, 1).toLocaleDateString('en-US', { month: style, year: 'numeric' });
+}
+
+// Tagesschlüssel im Format YYYY-MM-DD (lokale Zeit)
+export function getDateKey(date: Date): string {
+  return `${getMonthKey(date)}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// Datum aus einem Tagesschlüssel (lokale Mitternacht)
+export function parseDateKey(day: string): Date {
+  const [year, monthNumber, dayNumber] = day.split('-').map(Number);
+  return new Date(year, monthNumber - 1, dayNumber);
+}
+
+export function addDays(day: string, amount: number): string {
+  const date = parseDateKey(day);
+  date.setDate(date.getDate() + amount);
+  return getDateKey(date);
+}
+
+// Wert für <input type="datetime-local"> (YYYY-MM-DDTHH:mm, lokale Zeit)
+export function toDateTimeInputValue(date: Date): string {
+  const time = `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+  return `${getDateKey(date)}T${time}`;
+}
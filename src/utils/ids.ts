@@ -0,0 +1,9 @@
+// Zahlen-ids auf Basis von Date.now(), die innerhalb einer Sitzung streng steigen:
+// Mehrere ids in derselben Millisekunde bleiben eindeutig, und die id taugt
+// weiterhin als ungefährer Anlagezeitpunkt.
+let lastNumericId = 0;
+
+export function createNumericId(): number {
+  lastNumericId = Math.max(Date.now(), lastNumericId + 1);
+  return lastNumericId;
+}
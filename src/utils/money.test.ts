@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseMoney } from './money';
+
+describe('parseMoney', () => {
+  it.each([
+    ['1.234,56', 'de-DE', 123456],
+    ['1,234.56', 'en-US', 123456],
+    ['12,5', 'de-DE', 1250],
+    ['12.5', 'en-US', 1250],
+    ['-12,00 €', 'de-DE', -1200],
+    ["1'234.50", 'en-US', 123450],
+    ['1.234.567', 'de-DE', 123456700],
+  ] as const)('reads %s in %s', (text, locale, cents) => {
+    expect(parseMoney(text, locale)).toEqual({ ok: true, cents });
+  });
+
+  // Beträge haben höchstens zwei Nachkommastellen – drei Ziffern nach einem
+  // einzelnen Trennzeichen sind Tausender, sofern davor keine 0 steht
+  it.each([
+    ['1.234', 'en-US'],
+    ['1,234', 'en-US'],
+    ['1.234', 'de-DE'],
+    ['1,234', 'de-DE'],
+  ] as const)('reads %s in %s as a grouped thousand', (text, locale) => {
+    expect(parseMoney(text, locale)).toEqual({ ok: true, cents: 123400 });
+  });
+
+  it('names an example in the locale format when there are too many decimals', () => {
+    expect(parseMoney('1,234.567', 'en-US')).toEqual({
+      ok: false,
+      error: 'Use at most 2 decimal places, e.g. 1,234.56.',
+    });
+  });
+
+  it.each([
+    ['0,123', 'de-DE', '1.234,56'],
+    ['0.500', 'en-US', '1,234.56'],
+    [',500', 'de-DE', '1.234,56'],
+  ] as const)('reads %s in %s as too many decimals, not as a thousand', (text, locale, example) => {
+    expect(parseMoney(text, locale)).toEqual({ ok: false, error: `Use at most 2 decimal places, e.g. ${example}.` });
+  });
+
+  it.each(['', 'abc', '12.34.5', '1,2,3'])('rejects %j', (text) => {
+    expect(parseMoney(text, 'de-DE').ok).toBe(false);
+  });
+});
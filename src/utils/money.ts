@@ -0,0 +1,109 @@
+import type { CurrencyCode, Money, NumberLocale } from '../storage/types';
+
+// --------------------------------------------------------
+//    Geldbeträge: ganze Cent + Währung
+// --------------------------------------------------------
+
+export const CURRENCIES: { code: CurrencyCode; label: string }[] = [
+  { code: 'EUR', label: 'Euro (€)' },
+  { code: 'USD', label: 'US dollar ($)' },
+  { code: 'GBP', label: 'British pound (£)' },
+  { code: 'CHF', label: 'Swiss franc (CHF)' },
+];
+
+export const NUMBER_LOCALES: { code: NumberLocale; label: string; example: string }[] = [
+  { code: 'de-DE', label: 'German', example: '1.234,56' },
+  { code: 'en-US', label: 'English', example: '1,234.56' },
+];
+
+export type ParseMoneyResult = { ok: true; cents: number } | { ok: false; error: string };
+
+// Liest einen eingegebenen Betrag in Cent.
+// "1.234,56", "1,234.56", "1234.5", "-12,00 €" und "1'234.50" werden erkannt:
+// Kommen beide Trennzeichen vor, ist das letzte das Dezimalzeichen. Folgen auf ein
+// einzelnes Trennzeichen genau drei Ziffern und steht davor keine 0, ist es ein
+// Tausendertrenner – Beträge haben höchstens zwei Nachkommastellen ("1.234" und
+// "1,234" sind in jeder Sprache 1234, "0,123" hat zu viele Nachkommastellen).
+// Die Sprache bestimmt nur das Beispiel in Fehlermeldungen.
+export function parseMoney(text: string, locale: NumberLocale): ParseMoneyResult {
+  let value = text
+    .trim()
+    .replace(/^(EUR|USD|GBP|CHF)|(EUR|USD|GBP|CHF)$/i, '')
+    .replace(/[€$£\s']/g, '');
+
+  let sign = 1;
+  if (value.startsWith('-') || value.startsWith('+')) {
+    sign = value.startsWith('-') ? -1 : 1;
+    value = value.slice(1);
+  }
+
+  if (!value) return { ok: false, error: 'Enter an amount.' };
+  if (/[^\d.,]/.test(value)) return { ok: false, error: 'Only digits and "." or "," are allowed.' };
+
+  const lastDot = value.lastIndexOf('.');
+  const lastComma = value.lastIndexOf(',');
+  let decimalSeparator: string | null = null;
+  if (lastDot !== -1 && lastComma !== -1) {
+    decimalSeparator = lastDot > lastComma ? '.' : ',';
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? '.' : ',';
+    const occurrences = value.split(separator).length - 1;
+    const digitsAfter = value.length - value.lastIndexOf(separator) - 1;
+    const hasIntegerValue = /[1-9]/.test(value.slice(0, value.lastIndexOf(separator)));
+    const isGroup = occurrences > 1 || (digitsAfter === 3 && hasIntegerValue);
+    decimalSeparator = isGroup ? null : separator;
+  }
+
+  const decimalIndex = decimalSeparator ? value.lastIndexOf(decimalSeparator) : -1;
+  const integerPart = decimalIndex === -1 ? value : value.slice(0, decimalIndex);
+  const fractionPart = decimalIndex === -1 ? '' : value.slice(decimalIndex + 1);
+
+  if (/[.,]/.test(fractionPart)) return { ok: false, error: 'The amount has more than one decimal separator.' };
+  if (fractionPart.length > 2) {
+    const example = NUMBER_LOCALES.find(({ code }) => code === locale)?.example ?? '1234.56';
+    return { ok: false, error: `Use at most 2 decimal places, e.g. ${example}.` };
+  }
+
+  // Tausendertrenner nur in Dreiergruppen: "1.234.567", nicht "12.34.5"
+  const groupSeparator = integerPart.match(/[.,]/)?.[0];
+  if (groupSeparator) {
+    const groups = integerPart.split(groupSeparator);
+    const valid =
+      groups[0].length >= 1 && groups[0].length <= 3 && groups.slice(1).every((group) => group.length === 3);
+    if (!valid) return { ok: false, error: 'Thousands separators must separate groups of three digits.' };
+  }
+
+  const digits = integerPart.replace(/[.,]/g, '');
+  if (!digits && !fractionPart) return { ok: false, error: 'Enter an amount.' };
+
+  const cents = Number(digits || '0') * 100 + Number(fractionPart.padEnd(2, '0'));
+  if (!Number.isSafeInteger(cents)) return { ok: false, error: 'The amount is too large.' };
+  return { ok: true, cents: sign * cents };
+}
+
+// Intl.NumberFormat ist teuer in der Erzeugung – pro Sprache und Währung nur einmal
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function getFormatter(locale: NumberLocale, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, options);
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+// Anzeige, z. B. "1.234,56 €" oder "$1,234.56"
+export function formatMoney(money: Money, locale: NumberLocale): string {
+  return getFormatter(locale, { style: 'currency', currency: money.currency }).format(money.cents / 100);
+}
+
+// Betrag im Eingabefeld, z. B. "1234,56" – ohne Tausendertrenner und Währung
+export function formatAmountInput(cents: number, locale: NumberLocale): string {
+  return getFormatter(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2, useGrouping: false }).format(
+    cents / 100
+  );
+}
+
+export const toMoney = (cents: number, currency: CurrencyCode): Money => ({ cents, currency });